@@ -0,0 +1,56 @@
+import { ref, getCurrentScope, onScopeDispose } from 'vue'
+
+/**
+ * 次の日付の境界（ローカルタイムの0時）までの時間を取得する
+ * @param now - 基準の日時
+ * @returns 次の0時までのミリ秒
+ */
+const getMillisecondsUntilNextDay = (now: Date): number => {
+  const nextDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1)
+  return nextDay.getTime() - now.getTime()
+}
+
+/**
+ * 日付の変わり目に更新される現在時刻を提供するcomposable
+ * 「今日」「今週」などの集計を、ページを開いたまま日付をまたいでも最新の日付で算出するために使用する
+ * 0時のタイマーに加え、スリープなどでタイマーが遅れた場合に備えてページが再表示されたときにも更新する
+ *
+ * @returns 現在時刻を含むオブジェクト
+ */
+export function useCurrentDate() {
+  // 現在時刻（日付の変わり目とページの再表示のときに更新）
+  const now = ref(new Date())
+  // 次の0時に更新するタイマーのID
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * 現在時刻を更新し、次の0時の更新を予約し直す
+   */
+  const refresh = () => {
+    now.value = new Date()
+    if (timeoutId) clearTimeout(timeoutId)
+    timeoutId = setTimeout(refresh, getMillisecondsUntilNextDay(now.value))
+  }
+
+  /**
+   * ページが再表示されたときに現在時刻を更新する
+   */
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') refresh()
+  }
+
+  if (import.meta.client) {
+    refresh()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    if (getCurrentScope()) {
+      onScopeDispose(() => {
+        if (timeoutId) clearTimeout(timeoutId)
+        document.removeEventListener('visibilitychange', handleVisibilityChange)
+      })
+    }
+  }
+
+  return {
+    now
+  }
+}
@@ -0,0 +1,58 @@
+import type { DateRange, ExportFormat } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import {
+  createHistoryExport,
+  filterSessionsByDateRange,
+  getExportFileName,
+  getExportMimeType,
+  serializeHistoryExport
+} from '~/utils/export'
+import { downloadFile } from '~/utils/download'
+
+/**
+ * 履歴のエクスポートを行うcomposable
+ * useTimerStoreの履歴を、バックアップ用のバージョン付きJSONまたは表計算ソフト用のCSVでダウンロードする
+ *
+ * @returns 対象件数の取得・エクスポートの操作関数を含むオブジェクト
+ */
+export function useHistoryExport() {
+  const store = useTimerStore()
+
+  /**
+   * 日付の範囲内のセッション数を取得する
+   * @param range - 対象の日付の範囲
+   * @returns エクスポート対象のセッション数
+   */
+  const countSessions = (range: DateRange): number => {
+    return filterSessionsByDateRange(store.history.sessions, range).length
+  }
+
+  /**
+   * 履歴をエクスポートしてダウンロードさせる
+   * @param format - 出力形式（json: バックアップ用、csv: 表計算ソフト用）
+   * @param range - 対象の日付の範囲、デフォルト: 全期間
+   * @returns エクスポート成功時true、失敗時false
+   */
+  const exportHistory = (format: ExportFormat, range: DateRange = { from: null, to: null }): boolean => {
+    if (!import.meta.client) return false
+
+    try {
+      const now = new Date()
+      const data = createHistoryExport(store.history.sessions, range, now)
+      downloadFile(
+        serializeHistoryExport(format, data),
+        getExportFileName(format, range, now),
+        getExportMimeType(format)
+      )
+      return true
+    } catch (error) {
+      console.error('Failed to export history:', error)
+      return false
+    }
+  }
+
+  return {
+    countSessions,
+    exportHistory
+  }
+}
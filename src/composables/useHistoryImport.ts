@@ -0,0 +1,95 @@
+import { ref, computed } from 'vue'
+import type { ImportMode } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { parseHistoryImport, previewImport, type HistoryImportResult, type ImportPreview } from '~/utils/import'
+import type { ValidationError } from '~/utils/validation'
+
+/**
+ * 履歴のインポートを管理するcomposable
+ * エクスポートしたJSON・CSVファイルをセッションのスキーマで行ごとに検証し、反映前に履歴の変化をプレビューする
+ * 無効な行は位置と理由を報告して除外し、有効なセッションのみをIDで重複なく反映する
+ *
+ * @returns 読み取り結果、プレビュー、インポート方法、保存のエラーと操作関数を含むオブジェクト
+ */
+export function useHistoryImport() {
+  const store = useTimerStore()
+
+  // インポート方法
+  const mode = ref<ImportMode>('merge')
+  // 選択中のファイル名
+  const fileName = ref<string | null>(null)
+  // ファイルの読み取り結果（未選択の場合はnull）
+  const result = ref<HistoryImportResult | null>(null)
+  // 履歴を保存できなかった場合のエラー
+  const importError = ref<ValidationError | null>(null)
+
+  /** 読み取りに成功したファイルの内容 */
+  const parsed = computed(() => (result.value?.success ? result.value.data : null))
+
+  /** ファイル自体を読み取れなかった場合のエラー */
+  const fileError = computed(() => (result.value && !result.value.success ? result.value.error : null))
+
+  /** インポートによる履歴の変化（現在の履歴と選択中のインポート方法から算出） */
+  const preview = computed(() => {
+    if (!parsed.value) return null
+    return previewImport(store.history.sessions, parsed.value.sessions, mode.value)
+  })
+
+  /** インポートできるセッションがあるかどうか */
+  const canImport = computed(() => (parsed.value?.sessions.length ?? 0) > 0)
+
+  /**
+   * ファイルを読み取り、検証結果を保持する
+   * @param file - 選択されたファイル
+   */
+  const readFile = async (file: File) => {
+    fileName.value = file.name
+    importError.value = null
+    try {
+      result.value = parseHistoryImport(await file.text())
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      result.value = { success: false, error: { key: 'import.errors.unreadable' } }
+    }
+  }
+
+  /**
+   * 有効なセッションを履歴に反映し、保存先への書き込みの完了を待つ
+   * 保存に失敗した場合はimportErrorを設定し、選択中のファイルを残して再試行できるようにする
+   * @returns 反映した履歴の変化（インポートできるセッションがない場合や保存に失敗した場合はnull）
+   */
+  const applyImport = async (): Promise<ImportPreview | null> => {
+    if (!parsed.value || !preview.value || !canImport.value) return null
+    const applied = preview.value
+    importError.value = null
+    if (!await store.importSessions(parsed.value.sessions, mode.value)) {
+      importError.value = { key: 'import.errors.saveFailed' }
+      return null
+    }
+    clear()
+    return applied
+  }
+
+  /**
+   * 選択中のファイルと読み取り結果を破棄する
+   */
+  const clear = () => {
+    fileName.value = null
+    result.value = null
+    importError.value = null
+    mode.value = 'merge'
+  }
+
+  return {
+    mode,
+    fileName,
+    parsed,
+    fileError,
+    preview,
+    canImport,
+    importError,
+    readFile,
+    applyImport,
+    clear
+  }
+}
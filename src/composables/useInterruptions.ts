@@ -0,0 +1,95 @@
+import { computed } from 'vue'
+import type { Interruption, InterruptionKind } from '~/types'
+import { InterruptionSchema } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { createUuid } from '~/utils/id'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** 中断を記録するキーボードショートカット（修飾キーなし） */
+export const INTERRUPTION_SHORTCUTS: Record<string, InterruptionKind> = {
+  i: 'internal',
+  e: 'external'
+}
+
+/**
+ * キーボードイベントが文字の入力先で発生したかどうかを判定する
+ * @param target - イベントの発生元
+ * @returns 入力欄・選択欄・編集可能な要素の場合true
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * キーボードイベントに対応する中断の種類を取得する
+ * 入力欄での入力、修飾キー付きの操作、キーの長押しはショートカットとして扱わない
+ * @param event - keydownイベント
+ * @returns 中断の種類（ショートカットでない場合はnull）
+ */
+export function getInterruptionShortcut(event: KeyboardEvent): InterruptionKind | null {
+  if (event.defaultPrevented || event.repeat || event.ctrlKey || event.metaKey || event.altKey) return null
+  if (isEditableTarget(event.target)) return null
+  return INTERRUPTION_SHORTCUTS[event.key.toLowerCase()] ?? null
+}
+
+/**
+ * 中断の理由を検証する（空欄は理由なしとして有効）
+ * @param reason - 検証する理由
+ * @returns バリデーションエラー（有効な場合はnull）
+ */
+export function getInterruptionReasonError(reason: string): ValidationError | null {
+  if (reason.trim() === '') return null
+  const result = InterruptionSchema.shape.reason.safeParse(reason)
+  return result.success ? null : toValidationError(result.error.issues[0], reason)
+}
+
+/**
+ * 作業セッション中の中断の記録を管理するcomposable
+ * 記録中の作業セッションに内的・外的中断を記録し、あとから理由を追加できる
+ *
+ * @returns 記録可能かどうか、記録中のセッションの中断と操作関数を含むオブジェクト
+ */
+export function useInterruptions() {
+  const store = useTimerStore()
+
+  /** 中断を記録できるかどうか（記録中の作業セッションがある場合のみ） */
+  const canLog = computed(() =>
+    store.isSessionOpen(store.currentSession) && store.currentSession.type === 'work'
+  )
+
+  /** 記録中のセッションの中断（記録順） */
+  const currentInterruptions = computed(() =>
+    canLog.value ? store.currentSession?.interruptions ?? [] : []
+  )
+
+  /**
+   * 記録中の作業セッションに中断を記録する
+   * @param kind - 中断の種類
+   * @param now - 記録する日時、デフォルト: 現在時刻
+   * @returns 記録した中断（記録中の作業セッションがない場合はnull）
+   */
+  const logInterruption = (kind: InterruptionKind, now: Date = new Date()): Interruption | null => {
+    const interruption: Interruption = { id: createUuid(), kind, at: now.toISOString() }
+    return store.logInterruption(interruption) ? interruption : null
+  }
+
+  /**
+   * 中断の理由を設定する
+   * @param interruptionId - 中断のID
+   * @param reason - 理由（空欄の場合は理由を取り除く）
+   * @returns 設定した場合true（入力が無効な場合や中断が存在しない場合はfalse）
+   */
+  const setReason = (interruptionId: string, reason: string): boolean => {
+    if (getInterruptionReasonError(reason)) return false
+    const normalized = reason.trim()
+    return store.updateInterruptionReason(interruptionId, normalized === '' ? undefined : normalized)
+  }
+
+  return {
+    canLog,
+    currentInterruptions,
+    logInterruption,
+    setReason
+  }
+}
@@ -0,0 +1,101 @@
+import { computed } from 'vue'
+import type { Project } from '~/types'
+import { ProjectSchema, TagSchema } from '~/types'
+import { useLabelStore } from '~/stores/labels'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/**
+ * プロジェクト名を検証する
+ * 大文字・小文字を区別せず、他のプロジェクトと同じ名前も無効とする
+ * @param name - 検証するプロジェクト名
+ * @param projects - 登録済みのプロジェクト
+ * @param excludeId - 名前を変更するプロジェクトのID（同じ名前の判定から除く）
+ * @returns バリデーションエラー（有効な場合はnull）
+ */
+export function getProjectNameError(name: string, projects: Project[], excludeId?: string): ValidationError | null {
+  const result = ProjectSchema.shape.name.safeParse(name)
+  if (!result.success) return toValidationError(result.error.issues[0], name)
+
+  const normalized = result.data.toLocaleLowerCase()
+  const duplicate = projects.some(project => project.id !== excludeId && project.name.toLocaleLowerCase() === normalized)
+  return duplicate ? { key: 'labels.errors.duplicateProject' } : null
+}
+
+/**
+ * タグを検証する
+ * @param tag - 検証するタグ
+ * @returns バリデーションエラー（有効な場合はnull）
+ */
+export function getTagError(tag: string): ValidationError | null {
+  const result = TagSchema.safeParse(tag)
+  return result.success ? null : toValidationError(result.error.issues[0], tag)
+}
+
+/**
+ * プロジェクトとタグを管理するcomposable
+ * useLabelStoreのプロジェクト・タグの操作に入力の検証を加え、次の作業セッションに付けるプロジェクトとタグの選択を提供する
+ *
+ * @returns プロジェクト、タグ、選択中のプロジェクトとタグ、操作関数を含むオブジェクト
+ */
+export function useLabels() {
+  const store = useLabelStore()
+
+  /** 登録済みのプロジェクト */
+  const projects = computed(() => store.projects)
+  /** 登録済みのタグ */
+  const tags = computed(() => store.tags)
+
+  /** 次の作業セッションに付けるプロジェクトのID */
+  const selectedProjectId = computed({
+    get: () => store.selectedProject?.id ?? null,
+    set: (id: string | null) => store.selectProject(id)
+  })
+
+  /** 次の作業セッションに付けるタグ */
+  const selectedTags = computed({
+    get: () => store.selectedTags,
+    set: (values: string[]) => store.selectTags(values)
+  })
+
+  /**
+   * セッションに記録されたプロジェクトIDからプロジェクト名を取得する
+   * @param projectId - プロジェクトID
+   * @returns プロジェクト名（プロジェクトが削除されている場合はnull）
+   */
+  const getProjectName = (projectId: string): string | null => {
+    return store.getProject(projectId)?.name ?? null
+  }
+
+  /**
+   * プロジェクトを作成または名前を変更する
+   * @param name - プロジェクト名
+   * @param id - 名前を変更するプロジェクトのID（省略した場合は作成する）
+   * @returns 保存したプロジェクト（入力が無効な場合やプロジェクトが存在しない場合はnull）
+   */
+  const saveProject = (name: string, id?: string): Project | null => {
+    if (getProjectNameError(name, store.projects, id)) return null
+    if (!id) return store.addProject(name)
+    return store.renameProject(id, name) ? store.getProject(id) ?? null : null
+  }
+
+  /**
+   * タグを登録する
+   * @param tag - 登録するタグ
+   * @returns 登録したタグ（入力が無効な場合はnull）
+   */
+  const addTag = (tag: string): string | null => {
+    return getTagError(tag) ? null : store.addTag(tag)
+  }
+
+  return {
+    projects,
+    tags,
+    selectedProjectId,
+    selectedTags,
+    getProjectName,
+    saveProject,
+    addTag,
+    deleteProject: store.deleteProject,
+    removeTag: store.removeTag
+  }
+}
@@ -0,0 +1,126 @@
+import { ref, toValue, type MaybeRefOrGetter } from 'vue'
+import type { NotificationSettings, SessionType } from '~/types'
+import { useNotificationStore } from '~/stores/notification'
+
+/** 通知の許可状態（ブラウザが通知に対応していない場合はunsupported） */
+type NotificationPermissionState = NotificationPermission | 'unsupported'
+
+/** 通知の表示方法（システム通知、アプリ内スナックバー、表示なし） */
+export type NotificationDelivery = 'system' | 'in_app' | 'none'
+
+/** セッション切り替え通知のタグ（同じタグの通知は置き換えられる） */
+const TRANSITION_NOTIFICATION_TAG = 'pomodoro-transition'
+
+/**
+ * ブラウザがWeb Notification APIに対応しているかどうかを判定する
+ * @returns 対応している場合true
+ */
+const isNotificationSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+/**
+ * セッション切り替えの通知を管理するcomposable
+ * Web Notificationの許可を求め、タブが非表示の場合はシステム通知を表示する
+ * 許可されていない場合やタブを表示中の場合はアプリ内のスナックバーで通知する
+ *
+ * @param notificationSettings - 通知設定（visual: 通知を表示するか）
+ * @returns 許可状態、許可要求・通知の操作関数を含むオブジェクト
+ */
+export function useNotifications(notificationSettings: MaybeRefOrGetter<NotificationSettings>) {
+  const notificationStore = useNotificationStore()
+  // 現在の通知の許可状態
+  const permission = ref<NotificationPermissionState>(
+    isNotificationSupported() ? Notification.permission : 'unsupported'
+  )
+
+  /**
+   * システム通知の許可を要求する
+   * ビジュアル通知が無効な場合や既に回答済みの場合は要求しない
+   * @returns 要求後の許可状態
+   */
+  const requestPermission = async (): Promise<NotificationPermissionState> => {
+    if (!isNotificationSupported()) {
+      permission.value = 'unsupported'
+      return permission.value
+    }
+
+    if (!toValue(notificationSettings).visual || Notification.permission !== 'default') {
+      permission.value = Notification.permission
+      return permission.value
+    }
+
+    try {
+      permission.value = await Notification.requestPermission()
+    } catch (error) {
+      console.error('Notification permission request failed:', error)
+      permission.value = Notification.permission
+    }
+    return permission.value
+  }
+
+  /**
+   * タブが表示中かつフォーカスされているかどうかを判定する
+   * @returns ユーザーがタブを見ている場合true
+   */
+  const isTabFocused = (): boolean => {
+    if (typeof document === 'undefined') return false
+    return document.visibilityState === 'visible' && document.hasFocus()
+  }
+
+  /**
+   * 通知を表示する
+   * タブを見ていない場合はシステム通知、それ以外や許可がない場合はスナックバーで表示する
+   * @param title - 通知のタイトル
+   * @param body - 通知の本文
+   * @returns 実際に使用した通知方法
+   */
+  const notify = (title: string, body: string): NotificationDelivery => {
+    const settings = toValue(notificationSettings)
+    if (!settings.visual) return 'none'
+
+    if (isNotificationSupported() && Notification.permission === 'granted' && !isTabFocused()) {
+      try {
+        const notification = new Notification(title, {
+          body,
+          tag: TRANSITION_NOTIFICATION_TAG,
+          icon: '/favicon.ico',
+          // Sounds are played by the sound engine, which honours the audio setting
+          silent: true
+        })
+        notification.onclick = () => {
+          window.focus()
+          notification.close()
+        }
+        return 'system'
+      } catch (error) {
+        // Some platforms (e.g. Android Chrome) only allow notifications from a service worker
+        console.error('System notification failed:', error)
+      }
+    }
+
+    notificationStore.showSnackbar(body, 'info')
+    return 'in_app'
+  }
+
+  /**
+   * セッション切り替え時の通知メッセージのi18nキーを取得する
+   * @param completedMode - 完了したセッションタイプ
+   * @param nextMode - 次のセッションタイプ
+   * @returns 通知メッセージのi18nキー
+   */
+  const getTransitionMessageKey = (completedMode: SessionType, nextMode: SessionType): string => {
+    if (completedMode !== 'work') {
+      return 'notifications.breakComplete'
+    }
+    return nextMode === 'longBreak' ? 'notifications.longBreakEarned' : 'notifications.workSessionComplete'
+  }
+
+  return {
+    permission,
+    isNotificationSupported,
+    requestPermission,
+    notify,
+    getTransitionMessageKey
+  }
+}
@@ -0,0 +1,84 @@
+import type { PomodoroSession, ReflectionInput, SessionReflection } from '~/types'
+import { SessionReflectionSchema } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** 入力項目（note・focusRating）ごとのバリデーションエラー */
+export type ReflectionFieldErrors = Partial<Record<keyof ReflectionInput, ValidationError>>
+
+/**
+ * 振り返りの入力フォームの値をスキーマの形に変換する
+ * @param input - 入力フォームの値
+ * @returns 検証前の振り返り（未評価の集中度はundefined）
+ */
+const toReflectionData = (input: ReflectionInput) => ({
+  note: input.note,
+  focusRating: input.focusRating ?? undefined
+})
+
+/**
+ * 振り返りの入力をスキーマで検証し、入力項目ごとのエラーを取得する
+ * @param input - 検証対象の入力
+ * @returns 入力項目ごとのエラー（エラーがない場合は空オブジェクト）
+ */
+export function getReflectionErrors(input: ReflectionInput): ReflectionFieldErrors {
+  const data = toReflectionData(input)
+  const result = SessionReflectionSchema.safeParse(data)
+  if (result.success) return {}
+
+  const errors: ReflectionFieldErrors = {}
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof ReflectionInput
+    errors[field] ??= toValidationError(issue, data)
+  }
+  return errors
+}
+
+/**
+ * セッションに記録された振り返りから入力フォームの初期値を作成する
+ * @param session - 対象のセッション（nullの場合は空の入力）
+ * @returns 入力フォームの値
+ */
+export function toReflectionInput(session: PomodoroSession | null): ReflectionInput {
+  return {
+    note: session?.note ?? '',
+    focusRating: session?.focusRating ?? null
+  }
+}
+
+/**
+ * 作業セッションの振り返り（メモと集中度の評価）を管理するcomposable
+ * 入力を検証してからuseTimerStoreの履歴のセッションに保存する
+ *
+ * @returns 振り返りの取得・保存関数を含むオブジェクト
+ */
+export function useReflection() {
+  const store = useTimerStore()
+
+  /**
+   * 履歴のセッションを取得する
+   * @param sessionId - セッションID
+   * @returns セッション（存在しない場合はnull）
+   */
+  const getSession = (sessionId: string): PomodoroSession | null => {
+    return store.history.sessions.find(session => session.id === sessionId) ?? null
+  }
+
+  /**
+   * セッションの振り返りを保存する
+   * 空のメモと未評価の集中度は記録しない
+   * @param sessionId - 振り返るセッションのID
+   * @param input - 入力フォームの値
+   * @returns 保存した振り返り（入力が無効な場合やセッションが存在しない場合はnull）
+   */
+  const saveReflection = (sessionId: string, input: ReflectionInput): SessionReflection | null => {
+    const result = SessionReflectionSchema.safeParse(toReflectionData(input))
+    if (!result.success) return null
+    return store.updateSessionReflection(sessionId, result.data) ? result.data : null
+  }
+
+  return {
+    getSession,
+    saveReflection
+  }
+}
@@ -0,0 +1,219 @@
+import type { PomodoroSession, PomodoroSettings, SessionEntryInput, SessionType } from '~/types'
+import { PomodoroSessionSchema } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { useTimerSettings } from '~/composables/useTimerSettings'
+import { buildSessionFromEntry, findOverlappingSession, parseDateTimeLocal, toDateTimeLocal } from '~/utils/sessionEntry'
+import { createUuid } from '~/utils/id'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** 入力項目（type・start・end・completed・taskId・projectId・tags）ごとのバリデーションエラー */
+export type SessionEntryFieldErrors = Partial<Record<keyof SessionEntryInput, ValidationError>>
+
+/**
+ * セッションの入力の検証に使う履歴の状態
+ */
+export interface SessionEntryContext {
+  /** 重なりを判定するセッション（実行中のセッションを含む） */
+  sessions: PomodoroSession[];
+  /** 編集前のセッション（追加の場合はnull） */
+  base: PomodoroSession | null;
+  /** 予定時間（秒） */
+  duration: number;
+  /** 現在時刻（エポックミリ秒） */
+  now: number;
+}
+
+/** セッションの項目と入力項目の対応 */
+const ENTRY_FIELDS: Partial<Record<keyof PomodoroSession, keyof SessionEntryInput>> = {
+  type: 'type',
+  startTime: 'start',
+  endTime: 'end',
+  completed: 'completed',
+  taskId: 'taskId',
+  projectId: 'projectId',
+  tags: 'tags'
+}
+
+/** セッションタイプごとの予定時間（分）の設定項目 */
+const PLANNED_DURATION_SETTINGS: Record<SessionType, 'workDuration' | 'shortBreakDuration' | 'longBreakDuration'> = {
+  work: 'workDuration',
+  shortBreak: 'shortBreakDuration',
+  longBreak: 'longBreakDuration'
+}
+
+/**
+ * 設定からセッションタイプの予定時間を取得する
+ * @param settings - タイマー設定
+ * @param type - セッションタイプ
+ * @returns 予定時間（秒）
+ */
+export function getPlannedDuration(settings: PomodoroSettings, type: SessionType): number {
+  return settings[PLANNED_DURATION_SETTINGS[type]] * 60
+}
+
+/**
+ * セッションの入力を検証し、入力項目ごとのエラーを取得する
+ * PomodoroSessionSchemaによる検証に加え、終了日時が開始日時より後であること、未来の日時でないこと、他のセッションと重ならないことを確認する
+ * @param input - 検証対象の入力
+ * @param context - 重なりの判定に使うセッション、編集前のセッション、予定時間と現在時刻
+ * @returns 入力項目ごとのエラー（エラーがない場合は空オブジェクト）
+ */
+export function getSessionEntryErrors(input: SessionEntryInput, context: SessionEntryContext): SessionEntryFieldErrors {
+  const errors: SessionEntryFieldErrors = {}
+  for (const field of ['start', 'end'] as const) {
+    if (!input[field]) errors[field] = { key: 'validation.required' }
+    else if (!parseDateTimeLocal(input[field])) errors[field] = { key: 'validation.invalidFormat' }
+  }
+
+  const session = buildSessionFromEntry(input, {
+    id: context.base?.id ?? createUuid(),
+    duration: context.duration,
+    base: context.base ?? undefined
+  })
+  if (!session) return errors
+
+  const result = PomodoroSessionSchema.safeParse(session)
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const field = ENTRY_FIELDS[issue.path[0] as keyof PomodoroSession]
+      if (field) errors[field] ??= toValidationError(issue, session)
+    }
+  }
+  if (errors.start || errors.end) return errors
+
+  if (Date.parse(session.endTime) <= Date.parse(session.startTime)) {
+    errors.end = { key: 'sessionEntry.errors.endBeforeStart' }
+  } else if (Date.parse(session.endTime) > context.now) {
+    errors.end = { key: 'sessionEntry.errors.future' }
+  } else if (findOverlappingSession(context.sessions, session)) {
+    errors.start = { key: 'sessionEntry.errors.overlap' }
+    errors.end = { key: 'sessionEntry.errors.overlap' }
+  }
+  return errors
+}
+
+/**
+ * セッションから入力フォームの初期値を作成する
+ * 追加の場合は現在時刻に終わる予定時間分の完了した作業セッションを初期値とする
+ * @param session - 編集するセッション（追加の場合はnull）
+ * @param now - 現在時刻（エポックミリ秒）
+ * @param duration - 追加する作業セッションの予定時間（秒）
+ * @returns 入力フォームの値
+ */
+export function toSessionEntryInput(session: PomodoroSession | null, now: number, duration: number): SessionEntryInput {
+  if (!session) {
+    return {
+      type: 'work',
+      start: toDateTimeLocal(new Date(now - duration * 1000).toISOString()),
+      end: toDateTimeLocal(new Date(now).toISOString()),
+      completed: true,
+      taskId: null,
+      projectId: null,
+      tags: []
+    }
+  }
+  return {
+    type: session.type,
+    start: toDateTimeLocal(session.startTime),
+    end: toDateTimeLocal(session.endTime),
+    completed: session.completed,
+    taskId: session.taskId ?? null,
+    projectId: session.projectId ?? null,
+    tags: [...(session.tags ?? [])]
+  }
+}
+
+/**
+ * 履歴のセッションの手動での追加・編集・削除を管理するcomposable
+ * 入力を検証してからuseTimerStoreの履歴に保存し、統計はストアが再計算する
+ * 実行中のセッションは現在時刻まで続いているものとして重なりを判定する
+ *
+ * @returns 入力の作成・検証関数とセッションの保存・削除関数を含むオブジェクト
+ */
+export function useSessionEditor() {
+  const store = useTimerStore()
+  const { settings } = useTimerSettings()
+
+  /**
+   * 履歴のセッションを取得する
+   * @param sessionId - セッションID
+   * @returns セッション（存在しない場合はnull）
+   */
+  const getSession = (sessionId: string | null): PomodoroSession | null => {
+    return store.history.sessions.find(session => session.id === sessionId) ?? null
+  }
+
+  /**
+   * 入力の検証に使う履歴の状態を作成する
+   * 編集でセッションタイプを変えない場合は記録された予定時間を引き継ぎ、それ以外は設定の予定時間を使う
+   * @param input - 入力フォームの値
+   * @param sessionId - 編集するセッションのID（追加の場合はnull）
+   * @param now - 現在時刻（エポックミリ秒）
+   * @returns 検証に使う履歴の状態
+   */
+  const getContext = (input: SessionEntryInput, sessionId: string | null, now: number): SessionEntryContext => {
+    const base = getSession(sessionId)
+    const current = store.currentSession
+    const running = store.isSessionOpen(current) ? [{ ...current, endTime: new Date(now).toISOString() }] : []
+    return {
+      sessions: [...store.history.sessions, ...running],
+      base,
+      duration: base && base.type === input.type ? base.duration : getPlannedDuration(settings.value, input.type),
+      now
+    }
+  }
+
+  /**
+   * 入力フォームの初期値を作成する
+   * @param sessionId - 編集するセッションのID（追加の場合はnull）
+   * @param now - 現在時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 入力フォームの値
+   */
+  const createEntryInput = (sessionId: string | null, now: number = Date.now()): SessionEntryInput => {
+    return toSessionEntryInput(getSession(sessionId), now, getPlannedDuration(settings.value, 'work'))
+  }
+
+  /**
+   * 入力を検証する
+   * @param input - 入力フォームの値
+   * @param sessionId - 編集するセッションのID（追加の場合はnull）
+   * @param now - 現在時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 入力項目ごとのエラー（エラーがない場合は空オブジェクト）
+   */
+  const getErrors = (input: SessionEntryInput, sessionId: string | null, now: number = Date.now()): SessionEntryFieldErrors => {
+    return getSessionEntryErrors(input, getContext(input, sessionId, now))
+  }
+
+  /**
+   * セッションを追加または編集する
+   * @param input - 入力フォームの値
+   * @param sessionId - 編集するセッションのID（省略した場合は追加する）
+   * @param now - 現在時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 保存したセッション（入力が無効な場合やセッションが存在しない場合はnull）
+   */
+  const saveSession = (input: SessionEntryInput, sessionId: string | null = null, now: number = Date.now()): PomodoroSession | null => {
+    const context = getContext(input, sessionId, now)
+    if (sessionId && !context.base) return null
+    if (Object.keys(getSessionEntryErrors(input, context)).length > 0) return null
+
+    const result = PomodoroSessionSchema.safeParse(buildSessionFromEntry(input, {
+      id: sessionId ?? createUuid(),
+      duration: context.duration,
+      base: context.base ?? undefined
+    }))
+    if (!result.success) return null
+    if (!sessionId) {
+      store.addSessionToHistory(result.data)
+      return result.data
+    }
+    return store.updateSession(result.data) ? result.data : null
+  }
+
+  return {
+    getSession,
+    createEntryInput,
+    getErrors,
+    saveSession,
+    deleteSession: store.deleteSession
+  }
+}
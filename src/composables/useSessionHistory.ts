@@ -0,0 +1,182 @@
+import { ref, computed, watch } from 'vue'
+import type { PomodoroSession, HistoryFilters, LabelKind } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { useLabelStore } from '~/stores/labels'
+import { computeSessionStats, toDayKey } from '~/utils/stats'
+import { computeLabelBreakdown, collectSessionTags } from '~/utils/labels'
+import { useCurrentDate } from '~/composables/useCurrentDate'
+
+/** 絞り込み条件の初期値（全期間・全タイプ・全状態・全プロジェクト・全タグ・検索語なし） */
+const DEFAULT_FILTERS: HistoryFilters = {
+  period: 'allTime',
+  type: 'all',
+  status: 'all',
+  projectId: null,
+  tag: null,
+  query: ''
+}
+
+/**
+ * セッションをタイプ、完了・中断の状態、プロジェクト、タグ、振り返りのメモで絞り込む
+ * メモの検索は大文字・小文字を区別しない部分一致とする
+ * @param sessions - 絞り込み対象のセッション
+ * @param filters - 絞り込み条件（表示期間は対象外、プロジェクト・タグ・検索語は省略可）
+ * @returns 条件に一致するセッションの配列
+ */
+export function filterSessions(
+  sessions: PomodoroSession[],
+  filters: Pick<HistoryFilters, 'type' | 'status'> & Partial<Pick<HistoryFilters, 'projectId' | 'tag' | 'query'>>
+): PomodoroSession[] {
+  const query = filters.query?.trim().toLocaleLowerCase() ?? ''
+  return sessions.filter(session => {
+    if (filters.type !== 'all' && session.type !== filters.type) return false
+    if (filters.projectId && session.projectId !== filters.projectId) return false
+    if (filters.tag && !session.tags?.includes(filters.tag)) return false
+    if (query && !session.note?.toLocaleLowerCase().includes(query)) return false
+    if (filters.status === 'completed') return session.completed
+    if (filters.status === 'interrupted') return session.interrupted
+    return true
+  })
+}
+
+/**
+ * セッション履歴の閲覧を管理するcomposable
+ * 表示期間・セッションタイプ・状態・プロジェクト・タグでの絞り込みと振り返りのメモの検索、セッション詳細の選択、履歴の削除、統計情報を提供
+ * 絞り込み後のセッションはプロジェクト・タグごとの集中時間としても集計する
+ * ヒートマップで日付を選択した場合は、表示期間の代わりにその日のセッションに絞り込む
+ * 履歴はuseTimerStoreから取得するため、他のタブでの記録も即座に反映される
+ *
+ * @returns 絞り込み条件、絞り込み後のセッション、統計情報、選択中のセッションと操作関数を含むオブジェクト
+ */
+export function useSessionHistory() {
+  const store = useTimerStore()
+  const labelStore = useLabelStore()
+  // 日付の変わり目に更新される現在時刻（期間の絞り込みと統計の基準）
+  const { now } = useCurrentDate()
+
+  // 現在の絞り込み条件
+  const filters = ref<HistoryFilters>({ ...DEFAULT_FILTERS })
+  // ヒートマップで選択中の日付キー（YYYY-MM-DD）
+  const selectedDay = ref<string | null>(null)
+  // 詳細を表示中のセッションID
+  const selectedSessionId = ref<string | null>(null)
+  // プロジェクト・タグごとの集計の単位
+  const breakdownKind = ref<LabelKind>('project')
+
+  /** 表示期間（日付を選択中の場合はその日）内のセッション */
+  const periodSessions = computed(() => {
+    if (selectedDay.value) {
+      return store.history.sessions.filter(session =>
+        toDayKey(new Date(session.startTime)) === selectedDay.value
+      )
+    }
+    switch (filters.value.period) {
+      case 'today':
+        return store.getTodaysSessions(now.value)
+      case 'thisWeek':
+        return store.getWeeklyStats(now.value)
+      case 'thisMonth':
+        return store.getMonthlySessions(now.value)
+      case 'allTime':
+        return store.history.sessions
+    }
+  })
+
+  /** 絞り込み後のセッション（新しい順） */
+  const sessions = computed(() =>
+    filterSessions(periodSessions.value, filters.value)
+      .slice()
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+  )
+
+  /** 絞り込み後の完了セッション数 */
+  const completedCount = computed(() => sessions.value.filter(session => session.completed).length)
+
+  /** 絞り込み後のセッションのプロジェクト・タグごとの集中時間 */
+  const labelBreakdown = computed(() => computeLabelBreakdown(sessions.value, breakdownKind.value))
+
+  /** 絞り込みに使えるタグ（登録済みのタグと履歴に記録されたタグ） */
+  const availableTags = computed(() =>
+    [...new Set([...labelStore.tags, ...collectSessionTags(store.history.sessions)])].sort((a, b) => a.localeCompare(b))
+  )
+
+  /** 全履歴から算出した統計情報（絞り込み条件の影響を受けない、日付が変わると再計算する） */
+  const stats = computed(() => computeSessionStats(store.history.sessions, now.value))
+
+  /** 履歴にセッションが1件以上あるかどうか */
+  const hasHistory = computed(() => store.history.sessions.length > 0)
+
+  /** 詳細を表示中のセッション（削除された場合はnull） */
+  const selectedSession = computed(() =>
+    store.history.sessions.find(session => session.id === selectedSessionId.value) ?? null
+  )
+
+  /**
+   * セッションの詳細を表示する
+   * @param sessionId - 表示するセッションのID
+   */
+  const selectSession = (sessionId: string) => {
+    selectedSessionId.value = sessionId
+  }
+
+  /**
+   * セッションの詳細表示を閉じる
+   */
+  const clearSelection = () => {
+    selectedSessionId.value = null
+  }
+
+  /**
+   * 指定した日のセッションに絞り込む
+   * @param dayKey - 日付キー（YYYY-MM-DD）
+   */
+  const selectDay = (dayKey: string) => {
+    selectedDay.value = dayKey
+  }
+
+  /**
+   * 日付の絞り込みを解除して表示期間での絞り込みに戻す
+   */
+  const clearDay = () => {
+    selectedDay.value = null
+  }
+
+  // 表示期間を選び直した場合は日付の絞り込みを解除する
+  watch(() => filters.value.period, clearDay)
+
+  /**
+   * 絞り込み条件を初期値に戻す
+   */
+  const resetFilters = () => {
+    filters.value = { ...DEFAULT_FILTERS }
+    clearDay()
+  }
+
+  /**
+   * 履歴を全て削除する
+   * 確認はUI側で行う
+   */
+  const clearHistory = () => {
+    store.clearHistory()
+    clearSelection()
+  }
+
+  return {
+    filters,
+    sessions,
+    completedCount,
+    stats,
+    breakdownKind,
+    labelBreakdown,
+    availableTags,
+    hasHistory,
+    selectedDay,
+    selectedSession,
+    selectSession,
+    clearSelection,
+    selectDay,
+    clearDay,
+    resetFilters,
+    clearHistory
+  }
+}
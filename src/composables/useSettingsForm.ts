@@ -0,0 +1,169 @@
+import { ref, computed, toRaw } from 'vue'
+import type { z } from 'zod'
+import type { PomodoroSettings } from '~/types'
+import { PomodoroSettingsSchema, CyclePlanSchema } from '~/types'
+import { useTimerSettings, type StorageError } from '~/composables/useTimerSettings'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+import { createSettingsExport, getExportMimeType, getSettingsExportFileName } from '~/utils/export'
+import { downloadFile } from '~/utils/download'
+
+/**
+ * 入力項目のバリデーションエラー
+ * 表示時に現在のロケールで翻訳するため、メッセージではなくi18nキーと埋め込み値を保持
+ */
+export type SettingsFieldError = ValidationError
+
+/** 入力項目のパス（例: notifications.volume）ごとのバリデーションエラー */
+export type SettingsFieldErrors = Record<string, SettingsFieldError>
+
+/** ストレージエラーの種類ごとのメッセージのi18nキー */
+const STORAGE_ERROR_MESSAGE_KEYS: Record<StorageError['type'], string> = {
+  storage_unavailable: 'settings.storageErrors.storageUnavailable',
+  quota_exceeded: 'settings.storageErrors.quotaExceeded',
+  invalid_data: 'settings.storageErrors.invalidData',
+  parse_error: 'settings.storageErrors.parseError',
+  unsupported_version: 'settings.storageErrors.unsupportedVersion'
+}
+
+/**
+ * Zodのエラー項目を入力項目のパスごとのエラーにまとめる
+ * 1つの項目に複数のエラーがある場合は最初のエラーのみを残す
+ * @param issues - Zodのエラー項目
+ * @param data - 検証対象のデータ
+ * @returns 入力項目のパスごとのエラー
+ */
+const collectFieldErrors = (issues: z.core.$ZodIssue[], data: unknown): SettingsFieldErrors => {
+  const errors: SettingsFieldErrors = {}
+  for (const issue of issues) {
+    const path = issue.path.join('.')
+    if (!errors[path]) {
+      errors[path] = toValidationError(issue, data)
+    }
+  }
+  return errors
+}
+
+/**
+ * 設定データをスキーマで検証し、入力項目ごとのエラーを取得する
+ * 1つの項目に複数のエラーがある場合は最初のエラーのみを返す
+ * @param data - 検証対象の設定データ
+ * @returns 入力項目のパスごとのエラー（エラーがない場合は空オブジェクト）
+ */
+export function getSettingsFieldErrors(data: unknown): SettingsFieldErrors {
+  const result = PomodoroSettingsSchema.safeParse(data)
+  return result.success ? {} : collectFieldErrors(result.error.issues, data)
+}
+
+/**
+ * サイクルプランをスキーマで検証し、入力項目ごとのエラーを取得する
+ * @param plan - 検証対象のサイクルプラン
+ * @returns 入力項目のパス（例: intervals.0.duration）ごとのエラー（エラーがない場合は空オブジェクト）
+ */
+export function getCyclePlanErrors(plan: unknown): SettingsFieldErrors {
+  const result = CyclePlanSchema.safeParse(plan)
+  return result.success ? {} : collectFieldErrors(result.error.issues, plan)
+}
+
+/**
+ * 設定画面のフォームを管理するcomposable
+ * 保存済みの設定を編集用の下書きに複製し、入力のたびにスキーマで検証する
+ * 保存・リセットはuseTimerSettingsを通じて行い、ストレージエラーをi18nキーで提供する
+ *
+ * @returns 下書き、バリデーション・ストレージエラー、保存・リセット・エクスポートの操作関数を含むオブジェクト
+ */
+export function useSettingsForm() {
+  const { settings, storageError, updateSettings, resetSettings, clearStorageError } = useTimerSettings()
+
+  /**
+   * 保存済みの設定から編集用の下書きを作成する
+   * @returns 保存済みの設定の複製
+   */
+  const createDraft = (): PomodoroSettings => structuredClone(toRaw(settings.value))
+
+  // 編集中の設定（保存するまで他の画面には反映しない）
+  const draft = ref<PomodoroSettings>(createDraft())
+
+  /** 入力項目ごとのバリデーションエラー */
+  const fieldErrors = computed(() => getSettingsFieldErrors(draft.value))
+  /** 下書きが保存可能かどうか */
+  const isValid = computed(() => Object.keys(fieldErrors.value).length === 0)
+  /** 下書きが保存済みの設定から変更されているかどうか */
+  const isDirty = computed(() => JSON.stringify(draft.value) !== JSON.stringify(settings.value))
+  /** 現在のストレージエラーのメッセージのi18nキー */
+  const storageErrorKey = computed(() => {
+    return storageError.value ? STORAGE_ERROR_MESSAGE_KEYS[storageError.value.type] : null
+  })
+
+  /**
+   * 入力項目のエラーを取得する
+   * @param path - 入力項目のパス（例: notifications.volume）
+   * @returns エラー、エラーがない場合はundefined
+   */
+  const getFieldError = (path: string): SettingsFieldError | undefined => {
+    return fieldErrors.value[path]
+  }
+
+  /**
+   * 下書きを保存する
+   * バリデーションエラーがある場合は保存しない
+   * @returns 保存成功時true、失敗時false
+   */
+  const save = (): boolean => {
+    if (!isValid.value) return false
+    const saved = updateSettings(structuredClone(toRaw(draft.value)))
+    draft.value = createDraft()
+    return saved
+  }
+
+  /**
+   * 設定をデフォルト値に戻して保存し、下書きも置き換える
+   * @returns 保存成功時true、失敗時false
+   */
+  const reset = (): boolean => {
+    const saved = resetSettings()
+    draft.value = createDraft()
+    return saved
+  }
+
+  /**
+   * 下書きの変更を破棄して保存済みの設定に戻す
+   */
+  const discard = () => {
+    draft.value = createDraft()
+  }
+
+  /**
+   * 保存済みの設定を設定プリセットとサイクルプランを含めてJSONでダウンロードさせる
+   * 保存していない下書きの変更は含めない
+   * @returns エクスポート成功時true、失敗時false
+   */
+  const exportSettings = (): boolean => {
+    if (!import.meta.client) return false
+
+    try {
+      const now = new Date()
+      const data = createSettingsExport(settings.value, now)
+      downloadFile(JSON.stringify(data, null, 2), getSettingsExportFileName(now), getExportMimeType('json'))
+      return true
+    } catch (error) {
+      console.error('Failed to export settings:', error)
+      return false
+    }
+  }
+
+  return {
+    settings,
+    draft,
+    fieldErrors,
+    isValid,
+    isDirty,
+    storageError,
+    storageErrorKey,
+    getFieldError,
+    save,
+    reset,
+    discard,
+    exportSettings,
+    clearStorageError
+  }
+}
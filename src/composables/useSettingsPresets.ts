@@ -0,0 +1,140 @@
+import { computed } from 'vue'
+import type { CyclePlan, PomodoroSettings, SettingsPreset, TimingSettings } from '~/types'
+import { DefaultPomodoroSettings, SettingsPresetSchema, MAX_SETTINGS_PRESETS } from '~/types'
+import { useTimerSettings } from '~/composables/useTimerSettings'
+import { createUuid } from '~/utils/id'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** 組み込みのデフォルト値を表すプリセットのID */
+export const DEFAULT_PRESET_ID = 'default'
+
+/**
+ * 設定からタイミングの設定項目を取り出す
+ * @param settings - 設定
+ * @returns 作業・休憩の時間、長い休憩までのセッション数と実行するサイクルプラン
+ */
+export function getTimingSettings(settings: TimingSettings): TimingSettings {
+  return {
+    workDuration: settings.workDuration,
+    shortBreakDuration: settings.shortBreakDuration,
+    longBreakDuration: settings.longBreakDuration,
+    sessionsBeforeLongBreak: settings.sessionsBeforeLongBreak,
+    activePlanId: settings.activePlanId
+  }
+}
+
+/**
+ * プリセットのタイミングを設定に適用できる形にする
+ * 削除されたサイクルプランを指している場合は標準のサイクルに戻す
+ * @param timing - プリセットのタイミング
+ * @param cyclePlans - 作成済みのサイクルプラン
+ * @returns 設定に適用するタイミングの設定項目
+ */
+export function resolveTiming(timing: TimingSettings, cyclePlans: CyclePlan[]): TimingSettings {
+  const planExists = cyclePlans.some(plan => plan.id === timing.activePlanId)
+  return { ...getTimingSettings(timing), activePlanId: planExists ? timing.activePlanId : null }
+}
+
+/**
+ * 設定のタイミングがプリセットと一致するかどうかを判定する
+ * @param settings - 設定
+ * @param timing - プリセットのタイミング
+ * @returns プリセットを適用した状態の場合true
+ */
+export function matchesTiming(settings: PomodoroSettings, timing: TimingSettings): boolean {
+  const resolved = resolveTiming(timing, settings.cyclePlans)
+  return (Object.keys(resolved) as (keyof TimingSettings)[]).every(key => settings[key] === resolved[key])
+}
+
+/**
+ * プリセット名を検証する
+ * 大文字・小文字を区別せず、他のプリセットと同じ名前も無効とする
+ * @param name - 検証するプリセット名
+ * @param presets - 保存済みのプリセット
+ * @param excludeId - 名前を変更するプリセットのID（同じ名前の判定から除く）
+ * @returns バリデーションエラー（有効な場合はnull）
+ */
+export function getPresetNameError(name: string, presets: SettingsPreset[], excludeId?: string): ValidationError | null {
+  const result = SettingsPresetSchema.shape.name.safeParse(name)
+  if (!result.success) return toValidationError(result.error.issues[0], name)
+
+  const normalized = result.data.toLocaleLowerCase()
+  const duplicate = presets.some(preset => preset.id !== excludeId && preset.name.toLocaleLowerCase() === normalized)
+  return duplicate ? { key: 'presets.errors.duplicate' } : null
+}
+
+/**
+ * 設定のタイミングから新しいプリセットを作成する
+ * @param name - プリセット名
+ * @param settings - 保存するタイミングを含む設定
+ * @returns 新しいIDを持つプリセット
+ */
+export function createSettingsPreset(name: string, settings: TimingSettings): SettingsPreset {
+  return { id: createUuid(), name: name.trim(), timing: getTimingSettings(settings) }
+}
+
+/**
+ * 設定プリセットを管理するcomposable
+ * 現在のタイミングの保存、プリセットと組み込みのデフォルト値の適用、プリセットの削除をuseTimerSettingsを通じて即座に保存する
+ *
+ * @returns プリセット、適用中のプリセットのID、操作関数を含むオブジェクト
+ */
+export function useSettingsPresets() {
+  const { settings, updateSettings } = useTimerSettings()
+
+  /** 保存済みのプリセット */
+  const presets = computed(() => settings.value.presets)
+  /** 新しいプリセットを保存できるかどうか */
+  const canSavePreset = computed(() => settings.value.presets.length < MAX_SETTINGS_PRESETS)
+
+  /** 適用中のプリセットのID（組み込みのデフォルト値の場合はDEFAULT_PRESET_ID、一致するものがない場合はnull） */
+  const activePresetId = computed(() => {
+    const preset = settings.value.presets.find(item => matchesTiming(settings.value, item.timing))
+    if (preset) return preset.id
+    return matchesTiming(settings.value, new DefaultPomodoroSettings()) ? DEFAULT_PRESET_ID : null
+  })
+
+  /**
+   * 現在のタイミングをプリセットとして保存する
+   * @param name - プリセット名
+   * @returns 保存したプリセット（入力が無効な場合や上限に達している場合はnull）
+   */
+  const savePreset = (name: string): SettingsPreset | null => {
+    if (!canSavePreset.value || getPresetNameError(name, settings.value.presets)) return null
+    const preset = createSettingsPreset(name, settings.value)
+    return updateSettings({ presets: [...settings.value.presets, preset] }) ? preset : null
+  }
+
+  /**
+   * プリセットを適用する
+   * 進行中のカウントダウンの長さは変わらず、次のセッションから反映される
+   * @param id - 適用するプリセットのID（DEFAULT_PRESET_IDの場合は組み込みのデフォルト値）
+   * @returns 適用成功時true、プリセットが存在しない場合や保存に失敗した場合false
+   */
+  const applyPreset = (id: string): boolean => {
+    const timing = id === DEFAULT_PRESET_ID
+      ? getTimingSettings(new DefaultPomodoroSettings())
+      : settings.value.presets.find(preset => preset.id === id)?.timing
+    if (!timing) return false
+    return updateSettings(resolveTiming(timing, settings.value.cyclePlans))
+  }
+
+  /**
+   * プリセットを削除する
+   * @param id - 削除するプリセットのID
+   * @returns 削除成功時true、プリセットが存在しない場合や保存に失敗した場合false
+   */
+  const deletePreset = (id: string): boolean => {
+    if (!settings.value.presets.some(preset => preset.id === id)) return false
+    return updateSettings({ presets: settings.value.presets.filter(preset => preset.id !== id) })
+  }
+
+  return {
+    presets,
+    canSavePreset,
+    activePresetId,
+    savePreset,
+    applyPreset,
+    deletePreset
+  }
+}
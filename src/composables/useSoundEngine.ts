@@ -0,0 +1,189 @@
+import { ref } from 'vue'
+import type { NotificationSound } from '~/types'
+
+/**
+ * 合成する音の一要素（部分音）の定義
+ * 周波数、波形、開始時刻、減衰時間、相対音量で1つの発音を表す
+ */
+interface ToneSpec {
+  /** 周波数（Hz） */
+  frequency: number;
+  /** オシレーターの波形 */
+  type: OscillatorType;
+  /** 再生開始からの遅延（秒） */
+  delay: number;
+  /** 音量が減衰しきるまでの時間（秒） */
+  decay: number;
+  /** 相対音量（0〜1） */
+  gain: number;
+}
+
+/**
+ * 通知音ごとの部分音の定義
+ * bell: 非整数倍音を持つ鐘の音、chime: 3音のアルペジオ、ding: 短い単音
+ */
+const SOUND_TONES: Record<Exclude<NotificationSound, 'none'>, ToneSpec[]> = {
+  bell: [
+    { frequency: 830, type: 'sine', delay: 0, decay: 2.5, gain: 1 },
+    { frequency: 830 * 2.0, type: 'sine', delay: 0, decay: 1.8, gain: 0.5 },
+    { frequency: 830 * 2.76, type: 'sine', delay: 0, decay: 1.2, gain: 0.35 },
+    { frequency: 830 * 5.4, type: 'sine', delay: 0, decay: 0.6, gain: 0.2 }
+  ],
+  chime: [
+    { frequency: 1046.5, type: 'sine', delay: 0, decay: 1.4, gain: 0.8 }, // C6
+    { frequency: 1318.5, type: 'sine', delay: 0.15, decay: 1.4, gain: 0.8 }, // E6
+    { frequency: 1568.0, type: 'sine', delay: 0.3, decay: 1.8, gain: 0.8 } // G6
+  ],
+  ding: [
+    { frequency: 1320, type: 'triangle', delay: 0, decay: 0.8, gain: 1 },
+    { frequency: 2640, type: 'sine', delay: 0, decay: 0.4, gain: 0.25 }
+  ]
+}
+
+/** 最大音量時のゲイン（複数の部分音を重ねても音割れしない値） */
+const MAX_GAIN = 0.4
+/** 発音の立ち上がり時間（秒、クリックノイズ防止） */
+const ATTACK_TIME = 0.01
+/** 自動再生制限の解除を試みるユーザー操作のイベント */
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const
+
+// 全てのインスタンスで共有するAudioContext（ブラウザごとに生成数の上限があるため1つに限定）
+let audioContext: AudioContext | null = null
+// 自動再生制限が解除されているかどうか
+const isUnlocked = ref(false)
+
+/**
+ * ブラウザがWeb Audio APIに対応しているかどうかを判定する
+ * @returns 対応している場合true
+ */
+const isAudioSupported = (): boolean => {
+  return typeof window !== 'undefined' && typeof window.AudioContext !== 'undefined'
+}
+
+/**
+ * 共有のAudioContextを取得する（未生成の場合は生成する）
+ * @returns AudioContext、非対応の場合はnull
+ */
+const getAudioContext = (): AudioContext | null => {
+  if (!isAudioSupported()) return null
+  if (!audioContext) {
+    audioContext = new window.AudioContext()
+  }
+  return audioContext
+}
+
+/**
+ * Web Audio APIで通知音を合成・再生するcomposable
+ * bell・chime・dingの3種類の音をオシレーターで合成し、音量を指定して再生する
+ * ブラウザの自動再生制限に対応するため、最初のユーザー操作でAudioContextを有効化する
+ *
+ * @returns 有効化状態、有効化・再生の操作関数を含むオブジェクト
+ */
+export function useSoundEngine() {
+  /**
+   * AudioContextを有効化する
+   * ユーザー操作のイベントハンドラ内で呼び出す必要がある
+   * @returns 有効化できた場合true
+   */
+  const unlock = async (): Promise<boolean> => {
+    const context = getAudioContext()
+    if (!context) return false
+
+    try {
+      if (context.state === 'suspended') {
+        await context.resume()
+      }
+      isUnlocked.value = context.state === 'running'
+    } catch (error) {
+      console.error('Failed to unlock audio:', error)
+      isUnlocked.value = false
+    }
+    return isUnlocked.value
+  }
+
+  /**
+   * 最初のユーザー操作で自動再生制限を解除するリスナーを登録する
+   * 解除に成功した時点でリスナーを全て取り除く
+   * @returns リスナーを取り除く関数
+   */
+  const registerUnlockListeners = (): (() => void) => {
+    if (!isAudioSupported()) return () => {}
+
+    const removeListeners = () => {
+      for (const event of UNLOCK_EVENTS) {
+        window.removeEventListener(event, handleGesture, true)
+      }
+    }
+    const handleGesture = async () => {
+      if (await unlock()) {
+        removeListeners()
+      }
+    }
+
+    for (const event of UNLOCK_EVENTS) {
+      window.addEventListener(event, handleGesture, true)
+    }
+    return removeListeners
+  }
+
+  /**
+   * 部分音を1つ予約する
+   * 短い立ち上がりの後、指数関数的に減衰するエンベロープを適用する
+   * @param context - 使用するAudioContext
+   * @param tone - 部分音の定義
+   * @param peak - ピーク時のゲイン
+   */
+  const scheduleTone = (context: AudioContext, tone: ToneSpec, peak: number) => {
+    const startAt = context.currentTime + tone.delay
+    const oscillator = context.createOscillator()
+    const gainNode = context.createGain()
+
+    oscillator.type = tone.type
+    oscillator.frequency.setValueAtTime(tone.frequency, startAt)
+    gainNode.gain.setValueAtTime(0, startAt)
+    gainNode.gain.linearRampToValueAtTime(peak * tone.gain, startAt + ATTACK_TIME)
+    gainNode.gain.exponentialRampToValueAtTime(0.0001, startAt + tone.decay)
+
+    oscillator.connect(gainNode)
+    gainNode.connect(context.destination)
+    oscillator.start(startAt)
+    oscillator.stop(startAt + tone.decay + 0.05)
+  }
+
+  /**
+   * 通知音を再生する
+   * 自動再生制限が解除されていない場合は解除を試み、できなければ再生しない
+   * @param sound - 再生する通知音の種類
+   * @param volume - 音量（0〜100）
+   * @returns 再生した場合true
+   */
+  const play = async (sound: NotificationSound, volume: number): Promise<boolean> => {
+    if (sound === 'none' || volume <= 0) return false
+
+    const context = getAudioContext()
+    if (!context) return false
+
+    if (context.state !== 'running' && !(await unlock())) {
+      return false
+    }
+
+    try {
+      const peak = MAX_GAIN * Math.min(volume, 100) / 100
+      for (const tone of SOUND_TONES[sound]) {
+        scheduleTone(context, tone, peak)
+      }
+      return true
+    } catch (error) {
+      console.error(`Failed to play ${sound} sound:`, error)
+      return false
+    }
+  }
+
+  return {
+    isUnlocked,
+    isAudioSupported,
+    unlock,
+    registerUnlockListeners,
+    play
+  }
+}
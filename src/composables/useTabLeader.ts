@@ -0,0 +1,118 @@
+import { createUuid } from '~/utils/id'
+
+/** リーダータブの情報を保存するローカルストレージのキー名 */
+const LEADER_STORAGE_KEY = 'pomodoro-timer-leader'
+/** リーダーが生存を知らせる間隔（ミリ秒） */
+const HEARTBEAT_INTERVAL = 2000
+/** ハートビートが途絶えてからリーダーを引き継ぐまでの時間（ミリ秒） */
+const LEADER_TIMEOUT = 6000
+
+/**
+ * リーダータブの情報
+ * カウントダウンを所有するタブのIDと最終ハートビート時刻を保持
+ */
+interface TabLeader {
+  tabId: string;
+  heartbeatAt: number;
+}
+
+/**
+ * 複数のタブ・ウィンドウ間でカウントダウンを所有するリーダータブを選出するcomposable
+ * ローカルストレージのハートビートでリーダーの生存を確認し、途絶えた場合は他のタブが引き継ぐ
+ *
+ * @returns タブID、リーダー判定と取得・維持・解放の操作関数を含むオブジェクト
+ */
+export function useTabLeader() {
+  // このタブのID
+  const tabId = createUuid()
+  // このタブが最後にハートビートを書き込んだ時刻
+  let lastHeartbeatAt = 0
+
+  /**
+   * 現在のリーダー情報を読み込む
+   * @returns リーダー情報、存在しないか読み込めない場合はnull
+   */
+  const readLeader = (): TabLeader | null => {
+    if (!import.meta.client) return null
+
+    try {
+      const stored = localStorage.getItem(LEADER_STORAGE_KEY)
+      if (!stored) return null
+      const parsed = JSON.parse(stored)
+      if (typeof parsed?.tabId === 'string' && typeof parsed?.heartbeatAt === 'number') {
+        return parsed
+      }
+      return null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * このタブがリーダーかどうかを判定する
+   * @returns リーダーの場合true
+   */
+  const isLeader = (): boolean => {
+    return readLeader()?.tabId === tabId
+  }
+
+  /**
+   * このタブをリーダーとして登録し、ハートビートを書き込む
+   * @param now - 現在時刻（エポックミリ秒）、デフォルト: 現在時刻
+   */
+  const claim = (now: number = Date.now()) => {
+    if (!import.meta.client) return
+
+    try {
+      localStorage.setItem(LEADER_STORAGE_KEY, JSON.stringify({ tabId, heartbeatAt: now }))
+      lastHeartbeatAt = now
+    } catch (error) {
+      console.error('Failed to claim timer leadership:', error)
+    }
+  }
+
+  /**
+   * リーダーの状態を維持する
+   * リーダーであれば一定間隔でハートビートを更新し、リーダー不在またはハートビートが途絶えていれば引き継ぐ
+   * @param now - 現在時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 維持後にこのタブがリーダーであればtrue
+   */
+  const maintain = (now: number = Date.now()): boolean => {
+    const leader = readLeader()
+    if (leader?.tabId === tabId) {
+      if (now - lastHeartbeatAt >= HEARTBEAT_INTERVAL) {
+        claim(now)
+      }
+      return true
+    }
+    if (!leader || now - leader.heartbeatAt >= LEADER_TIMEOUT) {
+      claim(now)
+      return true
+    }
+    return false
+  }
+
+  /**
+   * このタブがリーダーであればリーダーを辞退する
+   * 他のタブが次の同期時に即座に引き継げるようにする
+   */
+  const release = () => {
+    if (!import.meta.client) return
+
+    try {
+      if (isLeader()) {
+        localStorage.removeItem(LEADER_STORAGE_KEY)
+      }
+    } catch (error) {
+      console.error('Failed to release timer leadership:', error)
+    }
+  }
+
+  return {
+    tabId,
+    isLeader,
+    claim,
+    maintain,
+    release
+  }
+}
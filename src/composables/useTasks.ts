@@ -0,0 +1,98 @@
+import { computed } from 'vue'
+import type { Task, TaskInput } from '~/types'
+import { TaskInputSchema } from '~/types'
+import { useTaskStore } from '~/stores/tasks'
+import { useTimerStore } from '~/stores/timer'
+import { computeTaskProgress } from '~/utils/tasks'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** 入力項目（title・estimatedPomodoros）ごとのバリデーションエラー */
+export type TaskFieldErrors = Partial<Record<keyof TaskInput, ValidationError>>
+
+/**
+ * タスクの入力をスキーマで検証し、入力項目ごとのエラーを取得する
+ * 1つの項目に複数のエラーがある場合は最初のエラーのみを返す
+ * @param input - 検証対象の入力
+ * @returns 入力項目ごとのエラー（エラーがない場合は空オブジェクト）
+ */
+export function getTaskFieldErrors(input: unknown): TaskFieldErrors {
+  const result = TaskInputSchema.safeParse(input)
+  if (result.success) return {}
+
+  const errors: TaskFieldErrors = {}
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof TaskInput
+    errors[field] ??= toValidationError(issue, input)
+  }
+  return errors
+}
+
+/**
+ * タスクの一覧と進捗を管理するcomposable
+ * useTaskStoreのタスクに、履歴から算出した実績のポモドーロ数を組み合わせて提供する
+ * 実績は履歴のセッションから算出するため、他のタブでの記録やインポートも即座に反映される
+ *
+ * @returns タスクの進捗、選択中のタスクとタスクの操作関数を含むオブジェクト
+ */
+export function useTasks() {
+  const taskStore = useTaskStore()
+  const timerStore = useTimerStore()
+
+  /** 全タスクの見積もりと実績（作成順） */
+  const taskProgress = computed(() => computeTaskProgress(taskStore.tasks, timerStore.history.sessions))
+
+  /** 未完了のタスクの進捗（作成順） */
+  const openTaskProgress = computed(() => taskProgress.value.filter(progress => !progress.task.completed))
+
+  /** 完了済みのタスクの進捗（完了が新しい順） */
+  const completedTaskProgress = computed(() =>
+    taskProgress.value
+      .filter(progress => progress.task.completed)
+      .sort((a, b) => (b.task.completedAt ?? '').localeCompare(a.task.completedAt ?? ''))
+  )
+
+  /** 選択中のタスク */
+  const activeTask = computed(() => taskStore.activeTask)
+
+  /**
+   * セッションに記録されたタスクIDからタスク名を取得する
+   * @param taskId - タスクID
+   * @returns タスク名（タスクが削除されている場合はnull）
+   */
+  const getTaskTitle = (taskId: string): string | null => {
+    return taskStore.getTask(taskId)?.title ?? null
+  }
+
+  /**
+   * タスクを作成または変更する
+   * @param input - タスク名と見積もりのポモドーロ数
+   * @param id - 変更するタスクのID（省略した場合は作成する）
+   * @returns 保存したタスク（入力が無効な場合やタスクが存在しない場合はnull）
+   */
+  const saveTask = (input: TaskInput, id?: string): Task | null => {
+    if (Object.keys(getTaskFieldErrors(input)).length > 0) return null
+    if (!id) return taskStore.addTask(input)
+    return taskStore.updateTask(id, input) ? taskStore.getTask(id) ?? null : null
+  }
+
+  /**
+   * タスクを選択する（選択中のタスクを選んだ場合は選択を解除する）
+   * @param id - 選択するタスクのID
+   */
+  const toggleActiveTask = (id: string) => {
+    taskStore.setActiveTask(taskStore.activeTaskId === id ? null : id)
+  }
+
+  return {
+    taskProgress,
+    openTaskProgress,
+    completedTaskProgress,
+    activeTask,
+    getTaskTitle,
+    saveTask,
+    toggleActiveTask,
+    completeTask: taskStore.completeTask,
+    reopenTask: taskStore.reopenTask,
+    deleteTask: taskStore.deleteTask
+  }
+}
@@ -1,5 +1,36 @@
-import { ref, computed, onUnmounted } from 'vue'
-import type { SessionType, PomodoroSession } from '~/types'
+import { ref, computed, watch, toValue, onUnmounted, type MaybeRefOrGetter } from 'vue'
+import { storeToRefs } from 'pinia'
+import type { SessionType, PomodoroSession, AutoStartOptions, CyclePlan, CycleInterval } from '~/types'
+import { useTimerStore } from '~/stores/timer'
+import { useTaskStore } from '~/stores/tasks'
+import { useLabelStore } from '~/stores/labels'
+import { useTabLeader } from '~/composables/useTabLeader'
+import { createUuid } from '~/utils/id'
+import {
+  DEFAULT_INTERVAL_APPEARANCE,
+  createClassicPlan,
+  getNextIntervalIndex,
+  findIntervalIndex
+} from '~/utils/cyclePlans'
+
+/** 残り時間を時計と同期する間隔（ミリ秒） */
+const TICK_INTERVAL = 250
+
+/** 自動開始設定のデフォルト値（自動開始しない） */
+const DEFAULT_AUTO_START: AutoStartOptions = {
+  enabled: false,
+  breaks: true,
+  work: true,
+  delay: 5
+}
+
+/**
+ * セッション完了時に呼び出されるハンドラの型定義
+ * @param completedMode - 完了したセッションタイプ
+ * @param nextMode - 次のセッションタイプ
+ * @param sessionId - 履歴に記録したセッションのID（記録するセッションがなかった場合はnull）
+ */
+type SessionCompleteHandler = (completedMode: SessionType, nextMode: SessionType, sessionId: string | null) => void
 
 /**
  * タイマーエラーの型定義
@@ -11,34 +42,116 @@ interface TimerError {
   originalError?: Error;
 }
 
+/**
+ * セッションタイプに対応するi18nキーを取得する
+ * @param mode - セッションタイプ
+ * @returns 多言語対応のラベルキー
+ */
+export const getModeLabel = (mode: SessionType): string => {
+  switch (mode) {
+    case 'work':
+      return 'timer.workSession'
+    case 'shortBreak':
+      return 'timer.shortBreak'
+    case 'longBreak':
+      return 'timer.longBreak'
+  }
+}
+
+/**
+ * セッションタイプに対応する絵文字を取得する
+ * @param mode - セッションタイプ
+ * @returns セッションを表す絵文字
+ */
+export const getModeEmoji = (mode: SessionType): string => DEFAULT_INTERVAL_APPEARANCE[mode].emoji
+
+/**
+ * サイクルプランのインターバルの表示名を取得する
+ * @param interval - 対象のインターバル
+ * @param translate - i18nキーを現在のロケールで翻訳する関数
+ * @returns インターバルの名前（名前のない標準のサイクルのインターバルはセッションタイプのラベル）
+ */
+export const getIntervalName = (interval: CycleInterval, translate: (key: string) => string): string => {
+  return interval.name || translate(getModeLabel(interval.type))
+}
+
+/**
+ * 秒数を表示用の分・秒のパラメータに変換する
+ * @param totalSeconds - 秒数（0以上）
+ * @returns 分と、1分に満たない残りの秒
+ */
+export const toMinutesSeconds = (totalSeconds: number): { minutes: number; seconds: number } => ({
+  minutes: Math.floor(totalSeconds / 60),
+  seconds: totalSeconds % 60
+})
+
+/**
+ * セッションの一時停止の回数と時間を表示用のパラメータに変換する
+ * @param session - 対象のセッション
+ * @returns 一時停止の回数と、一時停止した時間の分・秒
+ */
+export const getPauseSummaryParams = (session: PomodoroSession): { count: number; minutes: number; seconds: number } => ({
+  count: session.pauses?.length ?? 0,
+  ...toMinutesSeconds(session.pausedSeconds ?? 0)
+})
+
 /**
  * ポモドーロタイマーの状態と操作を管理するcomposable
- * 作業セッション、短い休憩、長い休憩の時間管理と制御を提供
+ * サイクルプランのインターバルを順に実行し、各インターバルを作業・短い休憩・長い休憩のセッションとして記録する
+ * プランを指定しない場合は、作業と短い休憩を繰り返して長い休憩を取る標準のサイクルを設定の時間から作成する
+ * タイマーの状態はuseTimerStoreに集約し、セッションの開始・終了は全て履歴に記録する
+ * 残り時間はストアの壁時計基準点から算出するため、バックグラウンドタブのスロットリングやスリープでもずれない
+ * リロード前に動作していたカウントダウンは、閉じていた間の経過時間を反映して再開する
+ * 複数タブで開いている場合は全タブが同じ状態を表示し、セッションの完了はリーダータブのみが行う
+ *
+ * 設定値はrefやgetterで渡すと変更が即座に反映される
+ * 進行中（実行中・一時停止中）のカウントダウンは開始時の長さのまま終了し、変更は次のセッションから適用される
+ * カウントダウンしていない場合は残り時間を新しい時間に即座に更新する
+ * 自動開始が有効な遷移では、セッション完了後に取り消し可能な猶予カウントダウンを経て次のセッションを開始する
  * 
  * @param workDuration - 作業セッションの時間（分）、デフォルト: 25分
  * @param shortBreakDuration - 短い休憩の時間（分）、デフォルト: 5分
  * @param longBreakDuration - 長い休憩の時間（分）、デフォルト: 15分
+ * @param sessionsBeforeLongBreak - 長い休憩までの作業セッション数、デフォルト: 4
+ * @param autoStart - セッション切り替え時の自動開始設定、デフォルト: 自動開始しない
+ * @param cyclePlan - 実行するサイクルプラン、デフォルト: 標準のサイクル
  * @returns タイマーの状態、操作関数、computed値を含むオブジェクト
  */
 export function useTimer(
-  workDuration: number = 25,
-  shortBreakDuration: number = 5,
-  longBreakDuration: number = 15
+  workDuration: MaybeRefOrGetter<number> = 25,
+  shortBreakDuration: MaybeRefOrGetter<number> = 5,
+  longBreakDuration: MaybeRefOrGetter<number> = 15,
+  sessionsBeforeLongBreak: MaybeRefOrGetter<number> = 4,
+  autoStart: MaybeRefOrGetter<AutoStartOptions> = DEFAULT_AUTO_START,
+  cyclePlan: MaybeRefOrGetter<CyclePlan | null> = null
 ) {
-  // 現在のセッションタイプ（作業、短い休憩、長い休憩）
-  const currentMode = ref<SessionType>('work')
-  // 残り時間（秒）
-  const timeLeft = ref(workDuration * 60)
-  // タイマーが動作中かどうか
-  const isRunning = ref(false)
-  // 完了した作業セッション数
-  const sessionsCompleted = ref(0)
+  const store = useTimerStore()
+  const taskStore = useTaskStore()
+  const labelStore = useLabelStore()
+  const {
+    // 現在のセッションタイプ（作業、短い休憩、長い休憩）
+    currentSessionType: currentMode,
+    // 残り時間（秒）
+    remainingTime: timeLeft,
+    // タイマーが動作中かどうか
+    isRunning,
+    // サイクルプランの中で現在のインターバルの位置
+    cycleIndex,
+    // 現在実行中のセッション情報
+    currentSession
+  } = storeToRefs(store)
   // タイマーのインターバルID
   const intervalRef = ref<NodeJS.Timeout | null>(null)
-  // 現在実行中のセッション情報
-  const currentSession = ref<PomodoroSession | null>(null)
+  // 自動開始カウントダウンのインターバルID
+  const autoStartIntervalRef = ref<NodeJS.Timeout | null>(null)
+  // 自動開始までの残り秒数（自動開始の予定がない場合は0）
+  const autoStartCountdown = ref(0)
+  // カウントダウンを所有するタブの選出
+  const tabLeader = useTabLeader()
   // タイマーエラー状態
   const timerError = ref<TimerError | null>(null)
+  // セッション完了時に呼び出すハンドラ
+  const sessionCompleteHandlers: SessionCompleteHandler[] = []
 
   /**
    * セッション時間の妥当性を検証する
@@ -50,45 +163,82 @@ export function useTimer(
   }
 
   /**
-   * セッションタイプに応じた時間を取得する
-   * @param mode - セッションタイプ（work/shortBreak/longBreak）
-   * @returns セッション時間（秒）、無効な場合はデフォルト値
+   * 長い休憩までの作業セッション数を取得する
+   * @returns 1以上の整数、無効な値の場合はデフォルトの4
    */
-  const getDuration = (mode: SessionType): number => {
-    let duration: number
-    switch (mode) {
-      case 'work':
-        duration = workDuration * 60
-        break
-      case 'shortBreak':
-        duration = shortBreakDuration * 60
-        break
-      case 'longBreak':
-        duration = longBreakDuration * 60
-        break
-    }
+  const getSessionsBeforeLongBreak = (): number => {
+    const count = toValue(sessionsBeforeLongBreak)
+    return Number.isInteger(count) && count > 0 ? count : 4
+  }
+
+  /** 実行するサイクルプラン */
+  const activePlan = computed<CyclePlan>(() => toValue(cyclePlan) ?? createClassicPlan({
+    work: toValue(workDuration),
+    shortBreak: toValue(shortBreakDuration),
+    longBreak: toValue(longBreakDuration)
+  }, getSessionsBeforeLongBreak()))
+
+  /** 現在のインターバルの位置（プランが短くなった場合はプランの長さで折り返す） */
+  const currentIndex = computed(() => cycleIndex.value % activePlan.value.intervals.length)
+
+  /** 現在のインターバル */
+  const currentInterval = computed<CycleInterval>(() => activePlan.value.intervals[currentIndex.value])
+
+  /** 現在のサイクルで完了した作業セッション数（プランの先頭から現在の位置までの作業のインターバルの数） */
+  const sessionsCompleted = computed(() =>
+    activePlan.value.intervals.slice(0, currentIndex.value).filter(interval => interval.type === 'work').length
+  )
+
+  /**
+   * インターバルの時間を取得する
+   * @param interval - 対象のインターバル
+   * @returns セッション時間（秒）、無効な場合はセッションタイプのデフォルト値
+   */
+  const getIntervalDuration = (interval: CycleInterval): number => {
+    const duration = interval.duration * 60
 
     if (!validateDuration(duration)) {
       timerError.value = {
         type: 'invalid_duration',
-        message: `Invalid duration for ${mode}: ${duration} seconds`
+        message: `Invalid duration for ${interval.type}: ${duration} seconds`
       }
       // Return a safe default
-      return mode === 'work' ? 25 * 60 : mode === 'shortBreak' ? 5 * 60 : 15 * 60
+      return interval.type === 'work' ? 25 * 60 : interval.type === 'shortBreak' ? 5 * 60 : 15 * 60
     }
 
     return duration
   }
 
-  /** 現在のモードの時間（秒）を算出 */
-  const currentDuration = computed(() => getDuration(currentMode.value))
+  /** 現在のインターバルの時間（秒）を算出 */
+  const currentDuration = computed(() => getIntervalDuration(currentInterval.value))
+
+  /** 次のセッションの自動開始を待っているかどうか */
+  const isAutoStartPending = computed(() => store.autoStartAt !== null)
+
+  /** 進行中のカウントダウンの長さ（秒）、カウントダウンしていない場合は現在のモードの時間 */
+  const countdownDuration = computed(() => store.clock?.duration ?? currentDuration.value)
+
+  // 位置を記録する前の状態から復元した場合などは、現在のモードのインターバルに位置を合わせる
+  if (currentInterval.value.type !== currentMode.value) {
+    const index = findIntervalIndex(activePlan.value, currentIndex.value, interval => interval.type === currentMode.value)
+    if (index !== -1) {
+      cycleIndex.value = index
+    } else if (!store.isSessionOpen(currentSession.value)) {
+      currentMode.value = currentInterval.value.type
+    }
+  }
+
+  // 実行中のセッションがなければ現在のモードの時間で残り時間を初期化
+  if (!currentSession.value && !isRunning.value) {
+    timeLeft.value = currentDuration.value
+  }
   
   /**
    * タイマーの進捗率を計算する
    * @returns 0〜100の進捗パーセンテージ
    */
   const progress = computed(() => {
-    return ((currentDuration.value - timeLeft.value) / currentDuration.value) * 100
+    return ((countdownDuration.value - timeLeft.value) / countdownDuration.value) * 100
   })
 
   /**
@@ -102,43 +252,145 @@ export function useTimer(
   })
 
   /**
-   * セッションタイプに対応するi18nキーを取得する
-   * @param mode - セッションタイプ
-   * @returns 多言語対応のラベルキー
+   * 残り時間を壁時計と同期する
+   * 取りこぼしたティックがあっても現在時刻から残り時間を再計算し、
+   * 終了時刻を過ぎていればリーダータブが本来の終了時刻でセッションを完了する
+   * リーダー以外のタブは表示のみを更新し、リーダーによる完了の反映を待つ
+   */
+  const syncWithClock = () => {
+    if (!isRunning.value) return
+
+    const now = Date.now()
+    const remaining = store.getRemainingTime(now)
+    const isLeader = tabLeader.maintain(now)
+    if (remaining > 0) {
+      timeLeft.value = remaining
+    } else if (isLeader) {
+      complete(store.getClockEndTime(now) ?? now)
+    } else {
+      timeLeft.value = 0
+    }
+  }
+
+  /**
+   * タブが再表示されたときに即座に残り時間を同期する
+   */
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      syncWithClock()
+    }
+  }
+
+  /**
+   * 時計との同期を行うインターバルと可視状態の監視を開始する
    */
-  const getModeLabel = (mode: SessionType): string => {
-    switch (mode) {
-      case 'work':
-        return 'timer.workSession'
-      case 'shortBreak':
-        return 'timer.shortBreak'
-      case 'longBreak':
-        return 'timer.longBreak'
+  const startTick = () => {
+    if (intervalRef.value) return
+
+    intervalRef.value = setInterval(syncWithClock, TICK_INTERVAL)
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange)
     }
   }
 
   /**
-   * セッションタイプに対応する絵文字を取得する
-   * @param mode - セッションタイプ
-   * @returns セッションを表す絵文字
+   * インターバルと可視状態の監視を停止する
    */
-  const getModeEmoji = (mode: SessionType): string => {
-    switch (mode) {
-      case 'work':
-        return '💼'
-      case 'shortBreak':
-        return '☕'
-      case 'longBreak':
-        return '🏖️'
+  const clearTick = () => {
+    if (intervalRef.value) {
+      clearInterval(intervalRef.value)
+      intervalRef.value = null
     }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }
+
+  /**
+   * 自動開始カウントダウンを壁時計と同期する
+   * 予定時刻を過ぎていればリーダータブが次のセッションを自動開始する
+   */
+  const syncAutoStart = () => {
+    if (store.autoStartAt === null) {
+      clearAutoStartTick()
+      autoStartCountdown.value = 0
+      return
+    }
+
+    const now = Date.now()
+    const remaining = store.autoStartAt - now
+    if (remaining > 0) {
+      autoStartCountdown.value = Math.ceil(remaining / 1000)
+      return
+    }
+
+    autoStartCountdown.value = 0
+    if (tabLeader.maintain(now)) {
+      start({ autoStarted: true })
+    }
+  }
+
+  /**
+   * 自動開始カウントダウンのインターバルを開始する
+   */
+  const startAutoStartTick = () => {
+    if (autoStartIntervalRef.value) return
+
+    autoStartIntervalRef.value = setInterval(syncAutoStart, TICK_INTERVAL)
+  }
+
+  /**
+   * 自動開始カウントダウンのインターバルを停止する
+   */
+  const clearAutoStartTick = () => {
+    if (autoStartIntervalRef.value) {
+      clearInterval(autoStartIntervalRef.value)
+      autoStartIntervalRef.value = null
+    }
+  }
+
+  /**
+   * 遷移先のセッションを自動開始するかどうかを判定する
+   * @param nextMode - 遷移先のセッションタイプ
+   * @returns 自動開始する場合true
+   */
+  const shouldAutoStart = (nextMode: SessionType): boolean => {
+    const options = toValue(autoStart)
+    if (!options.enabled) return false
+    return nextMode === 'work' ? options.work : options.breaks
+  }
+
+  /**
+   * 設定に応じて次のセッションの自動開始を予約する
+   * @param nextMode - 遷移先のセッションタイプ
+   */
+  const scheduleAutoStart = (nextMode: SessionType) => {
+    if (!shouldAutoStart(nextMode)) return
+
+    store.scheduleAutoStart(Date.now() + toValue(autoStart).delay * 1000)
+    syncAutoStart()
+    startAutoStartTick()
+  }
+
+  /**
+   * 予約済みの自動開始を取り消す
+   * 全てのタブで猶予カウントダウンが停止する
+   */
+  const cancelAutoStart = () => {
+    store.cancelAutoStart()
+    clearAutoStartTick()
+    autoStartCountdown.value = 0
   }
 
   /**
    * タイマーを開始する
-   * 既に動作中の場合はエラーを返し、新しいセッションがない場合は作成する
+   * 既に動作中の場合はエラーを返し、未記録のセッションがない場合は新しく作成してストアに登録する
+   * 一時停止中のカウントダウンは停止時間を累積した上で再開する
+   * 自動開始の猶予中に呼ばれた場合は予約を取り消して即座に開始する
+   * @param options - 開始オプション（autoStarted: 自動開始によるセッションかどうか）
    * @returns 成功時true、失敗時false
    */
-  const start = (): boolean => {
+  const start = (options: { autoStarted?: boolean } = {}): boolean => {
     try {
       if (isRunning.value) {
         timerError.value = {
@@ -149,20 +401,32 @@ export function useTimer(
       }
 
       timerError.value = null
+      cancelAutoStart()
+      const now = Date.now()
 
-      // Create a new session if none exists
-      if (!currentSession.value) {
-        currentSession.value = createSession()
-      }
-      
-      isRunning.value = true
-      intervalRef.value = setInterval(() => {
-        timeLeft.value--
-        
-        if (timeLeft.value <= 0) {
-          complete()
+      // Resume the open session, or start a new one from the remaining time
+      if (store.isSessionOpen(currentSession.value)) {
+        store.resumeSession(new Date(now).toISOString())
+      } else {
+        const session = createSession()
+        if (!session) {
+          return false
+        }
+        if (options.autoStarted) {
+          session.autoStarted = true
         }
-      }, 1000)
+        store.startSession(session, timeLeft.value)
+      }
+
+      // Anchor the countdown to the wall clock and take ownership of it
+      tabLeader.claim(now)
+      if (store.clock) {
+        store.resumeClock(now)
+      } else {
+        store.startClock(timeLeft.value, now)
+      }
+
+      startTick()
 
       return true
     } catch (error) {
@@ -178,23 +442,20 @@ export function useTimer(
 
   /**
    * タイマーを一時停止する
-   * 現在のセッションがある場合は中断フラグを設定する
+   * 現在のセッションは中断として記録せず、一時停止の区間を記録して再開を待つ
    * @returns 成功時true、失敗時false
    */
   const pause = (): boolean => {
     try {
-      isRunning.value = false
-      if (intervalRef.value) {
-        clearInterval(intervalRef.value)
-        intervalRef.value = null
+      // Catch up first so a session that already ended is completed rather than paused
+      syncWithClock()
+      clearTick()
+      cancelAutoStart()
+      const now = Date.now()
+      store.pauseClock(now)
+      if (isRunning.value || store.isSessionOpen(currentSession.value)) {
+        store.pauseSession(new Date(now).toISOString())
       }
-
-      // Mark current session as interrupted if it exists
-      if (currentSession.value && !currentSession.value.completed) {
-        currentSession.value.interrupted = true
-        currentSession.value.endTime = new Date().toISOString()
-      }
-
       return true
     } catch (error) {
       console.error('Timer pause failed:', error)
@@ -204,14 +465,15 @@ export function useTimer(
 
   /**
    * タイマーをリセットし、初期状態に戻す
-   * タイマーを停止し、時間を元に戻し、セッションとエラーをクリアする
+   * タイマーを停止し、未記録のセッションを中断として記録した上で時間を元に戻す
    * @returns 成功時true、失敗時false
    */
   const reset = (): boolean => {
     try {
-      pause()
+      clearTick()
+      cancelAutoStart()
+      store.stopSession()
       timeLeft.value = currentDuration.value
-      currentSession.value = null
       timerError.value = null
       return true
     } catch (error) {
@@ -221,56 +483,112 @@ export function useTimer(
   }
 
   /**
-   * セッションを完了し、次のセッションタイプに切り替える
-   * 作業セッションの場合はカウンターを増やし、休憩タイプを決定する
+   * セッションを完了し、サイクルプランの次のインターバルに切り替える
+   * 完了したセッションを履歴に記録し、最後のインターバルの次はプランの繰り返しの開始位置に戻る
+   * 遷移先の自動開始が有効な場合は猶予カウントダウンを開始する
+   * @param endedAt - セッションが本来終了した時刻（エポックミリ秒）、デフォルト: 現在時刻
    */
-  const complete = () => {
-    pause()
-    
-    if (currentMode.value === 'work') {
-      sessionsCompleted.value++
-      const nextMode = sessionsCompleted.value % 4 === 0 ? 'longBreak' : 'shortBreak'
-      switchMode(nextMode)
-    } else {
-      switchMode('work')
+  const complete = (endedAt: number = Date.now()) => {
+    clearTick()
+    const completedMode = currentMode.value
+    const sessionId = store.isSessionOpen(store.currentSession) ? store.currentSession.id : null
+    store.completeSession(new Date(endedAt).toISOString())
+
+    moveToInterval(getNextIntervalIndex(activePlan.value, currentIndex.value))
+    const nextMode = currentMode.value
+    scheduleAutoStart(nextMode)
+
+    for (const handler of sessionCompleteHandlers) {
+      try {
+        handler(completedMode, nextMode, sessionId)
+      } catch (error) {
+        console.error('Session complete handler failed:', error)
+      }
     }
   }
 
+  /**
+   * セッション完了時に呼び出すハンドラを登録する
+   * 複数タブで開いている場合はセッションを完了したリーダータブでのみ呼び出される
+   * @param handler - 完了したセッションタイプ、次のセッションタイプと記録したセッションのIDを受け取るハンドラ
+   */
+  const onSessionComplete = (handler: SessionCompleteHandler) => {
+    sessionCompleteHandlers.push(handler)
+  }
+
+  /**
+   * サイクルプランのインターバルに移動する
+   * タイマーを停止し、未記録のセッションを中断として記録した上でインターバルの時間を設定する
+   * @param index - 移動先のインターバルの位置
+   */
+  const moveToInterval = (index: number) => {
+    clearTick()
+    cancelAutoStart()
+    store.stopSession()
+    cycleIndex.value = index
+    currentMode.value = currentInterval.value.type
+    timeLeft.value = currentDuration.value
+  }
+
+  /**
+   * インターバルを選択して切り替える
+   * 同じインターバルを繰り返すプランでは、現在の位置以降で最初に現れる位置に移動する
+   * @param intervalId - 切り替え先のインターバルのID
+   */
+  const selectInterval = (intervalId: string) => {
+    const index = findIntervalIndex(activePlan.value, currentIndex.value, interval => interval.id === intervalId)
+    if (index !== -1) moveToInterval(index)
+  }
+
   /**
    * セッションモードを切り替える
-   * タイマーを停止し、新しいモードに応じた時間を設定する
+   * 現在の位置以降で最初に現れる指定したセッションタイプのインターバルに移動する（プランにない場合は何もしない）
    * @param mode - 切り替え先のセッションタイプ
    */
   const switchMode = (mode: SessionType) => {
-    pause()
-    currentMode.value = mode
-    timeLeft.value = getDuration(mode)
+    const index = findIntervalIndex(activePlan.value, currentIndex.value, interval => interval.type === mode)
+    if (index !== -1) moveToInterval(index)
+  }
+
+  /**
+   * 作業セッションに記録する選択中のタスク・プロジェクト・タグを取得する
+   * @returns 選択中の項目のみを含むセッションの項目
+   */
+  const getWorkSessionLabels = (): Pick<PomodoroSession, 'taskId' | 'projectId' | 'tags'> => ({
+    ...(taskStore.activeTask ? { taskId: taskStore.activeTask.id } : {}),
+    ...(labelStore.selectedProject ? { projectId: labelStore.selectedProject.id } : {}),
+    ...(labelStore.selectedTags.length > 0 ? { tags: [...labelStore.selectedTags] } : {})
+  })
+
+  /**
+   * セッションに記録する実行中のインターバルを取得する
+   * @returns サイクルプランのインターバルのIDと名前（標準のサイクルの場合は空のオブジェクト）
+   */
+  const getIntervalRecord = (): Pick<PomodoroSession, 'intervalId' | 'intervalName'> => {
+    const interval = currentInterval.value
+    if (!toValue(cyclePlan) || interval.type !== currentMode.value) return {}
+    return { intervalId: interval.id, intervalName: interval.name }
   }
 
   /**
    * 新しいポモドーロセッションを作成する
-   * UUIDまたはタイムスタンプベースのIDでユニークなセッションを生成
+   * UUIDのIDでユニークなセッションを生成し、サイクルプランのインターバルと、作業セッションには選択中のタスク・プロジェクト・タグを紐付ける
    * @returns 作成されたセッションオブジェクト、失敗時はnull
    */
   const createSession = (): PomodoroSession | null => {
     try {
-      // Generate a more robust ID using crypto.randomUUID if available
-      let sessionId: string
-      if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-        sessionId = crypto.randomUUID()
-      } else {
-        // Fallback to timestamp-based ID
-        sessionId = `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
-      }
-
       return {
-        id: sessionId,
+        // Session IDs must be UUIDs to pass schema validation on load, import and export
+        id: createUuid(),
         type: currentMode.value,
-        duration: currentDuration.value,
+        duration: countdownDuration.value,
         startTime: new Date().toISOString(),
         endTime: new Date().toISOString(),
         completed: false,
-        interrupted: false
+        interrupted: false,
+        ...getIntervalRecord(),
+        // Only work sessions count towards a task, project or tag
+        ...(currentMode.value === 'work' ? getWorkSessionLabels() : {})
       }
     } catch (error) {
       timerError.value = {
@@ -291,19 +609,87 @@ export function useTimer(
     timerError.value = null
   }
 
+  /**
+   * ストアに復元された実行中のカウントダウンを再開する
+   * 閉じていた間の経過時間を反映し、終了時刻を過ぎていれば本来の終了時刻で完了として確定する
+   */
+  const resumeRestoredCountdown = () => {
+    if (!isRunning.value) return
+
+    if (!store.clock) {
+      store.startClock(timeLeft.value)
+    }
+    syncWithClock()
+    if (isRunning.value) {
+      startTick()
+    }
+  }
+
+  /**
+   * ページを離れる際にリーダーを辞退し、他のタブが即座に引き継げるようにする
+   */
+  const handlePageHide = () => {
+    tabLeader.release()
+  }
+
+  if (import.meta.client) {
+    resumeRestoredCountdown()
+    syncAutoStart()
+    if (isAutoStartPending.value) {
+      startAutoStartTick()
+    }
+    window.addEventListener('pagehide', handlePageHide)
+  }
+
+  // 設定の変更はカウントダウンしていない場合のみ残り時間に即座に反映する
+  watch(currentDuration, (duration) => {
+    if (!store.clock && !isRunning.value) {
+      timeLeft.value = duration
+    }
+  })
+
+  // プランの変更で現在の位置のインターバルが変わった場合も、カウントダウンしていなければ表示するモードを合わせる
+  watch(currentInterval, (interval) => {
+    if (!store.clock && !isRunning.value && !store.isSessionOpen(currentSession.value)) {
+      currentMode.value = interval.type
+    }
+  })
+
+  // 他のタブでの自動開始の予約・取り消しに合わせてカウントダウン表示を開始・停止する
+  watch(() => store.autoStartAt, (at) => {
+    if (at !== null) {
+      syncAutoStart()
+      startAutoStartTick()
+    } else {
+      clearAutoStartTick()
+      autoStartCountdown.value = 0
+    }
+  })
+
+  // 他のタブでの開始・一時停止・リセットに合わせて表示の同期を開始・停止する
+  watch(isRunning, (running) => {
+    if (running) {
+      syncWithClock()
+      if (isRunning.value) {
+        startTick()
+      }
+    } else {
+      clearTick()
+    }
+  })
+
   /**
    * コンポーネントのアンマウント時のクリーンアップ処理
-   * タイマーのインターバルをクリアし、実行中のセッションを中断する
+   * タイマーのインターバルをクリアしてリーダーを辞退する
+   * 実行中のセッションはストアに残り、設定画面などから戻った際の再マウントで再開する
    */
   onUnmounted(() => {
     try {
-      if (intervalRef.value) {
-        clearInterval(intervalRef.value)
-      }
-      // Mark session as interrupted if timer is unmounted while running
-      if (currentSession.value && isRunning.value) {
-        currentSession.value.interrupted = true
-        currentSession.value.endTime = new Date().toISOString()
+      clearTick()
+      clearAutoStartTick()
+      tabLeader.release()
+      if (import.meta.client) {
+        window.removeEventListener('pagehide', handlePageHide)
       }
     } catch (error) {
       console.error('Timer cleanup failed:', error)
@@ -320,12 +706,19 @@ export function useTimer(
     progress,
     formattedTime,
     currentDuration,
+    activePlan,
+    currentInterval,
+    autoStartCountdown,
+    isAutoStartPending,
     getModeLabel,
     getModeEmoji,
     start,
     pause,
     reset,
     switchMode,
+    selectInterval,
+    cancelAutoStart,
+    onSessionComplete,
     createSession,
     clearTimerError
   }
@@ -1,16 +1,19 @@
-import { ref, computed } from 'vue'
-import type { PomodoroSettings } from '~/types'
-import { DefaultPomodoroSettings, validatePomodoroSettings, isValidPomodoroSettings } from '~/types'
+import { ref, computed, getCurrentScope, onScopeDispose } from 'vue'
+import type { PomodoroSettings, AutoStartOptions } from '~/types'
+import { DefaultPomodoroSettings, validatePomodoroSettings } from '~/types'
+import { loadVersionedData, saveVersionedData } from '~/utils/versionedStorage'
+import { settingsStorage, SETTINGS_STORAGE_KEY } from '~/utils/storageMigrations'
+import { getLocalStorage, type KeyValueStorage } from '~/utils/storageAdapters'
 
-/** ローカルストレージのキー名 */
-const STORAGE_KEY = 'pomodoro-settings'
+/** 同じタブ内の他のインスタンスに設定の保存を知らせるイベント名 */
+const SETTINGS_SAVED_EVENT = 'pomodoro-settings-saved'
 
 /**
  * ストレージエラーの型定義
  * ローカルストレージの利用不可、容量超過、データ異常などのエラーを表現
  */
-interface StorageError {
-  type: 'storage_unavailable' | 'quota_exceeded' | 'invalid_data' | 'parse_error';
+export interface StorageError {
+  type: 'storage_unavailable' | 'quota_exceeded' | 'invalid_data' | 'parse_error' | 'unsupported_version';
   message: string;
   originalError?: Error;
 }
@@ -18,10 +21,14 @@ interface StorageError {
 /**
  * ポモドーロタイマーの設定管理を行うcomposable
  * ローカルストレージへの保存・読み込み、バリデーション、エラーハンドリングを提供
+ * 他のタブで保存された設定はstorageイベント、同じタブ内の他のインスタンスで保存された設定は独自イベントで即座に反映する
  * 
+ * @param storage - 設定の保存先、デフォルト: ローカルストレージ
  * @returns 設定状態、操作関数、computed値を含むオブジェクト
  */
-export function useTimerSettings() {
+export function useTimerSettings(storage: KeyValueStorage = getLocalStorage()) {
+  // 自身が発火した保存イベントを識別するためのインスタンス識別子
+  const instance = Symbol('useTimerSettings')
   // 現在の設定値（デフォルト値で初期化）
   const settings = ref<PomodoroSettings>(new DefaultPomodoroSettings())
   // ストレージ操作のエラー状態
@@ -35,8 +42,8 @@ export function useTimerSettings() {
   const isStorageAvailable = (): boolean => {
     try {
       const test = '__storage_test__'
-      localStorage.setItem(test, 'test')
-      localStorage.removeItem(test)
+      storage.setItem(test, 'test')
+      storage.removeItem(test)
       return true
     } catch {
       return false
@@ -45,7 +52,9 @@ export function useTimerSettings() {
 
   /**
    * ローカルストレージから設定を読み込む
-   * クライアントサイドでのみ実行し、バリデーションとエラーハンドリングを含む
+   * 古い形式の設定は現在のバージョンに移行し、スキーマで検証する
+   * 読み込めない設定はバックアップのキーに退避し、無効な項目のみをデフォルト値に戻す
+   * クライアントサイドでのみ実行し、エラーハンドリングを含む
    */
   const loadSettings = () => {
     if (!import.meta.client) return
@@ -61,38 +70,38 @@ export function useTimerSettings() {
     }
 
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        
-        // Validate parsed data using Zod
-        if (isValidPomodoroSettings(parsed)) {
-          settings.value = parsed
-        } else {
-          // Attempt to merge with defaults for partial data
-          const validatedSettings = validatePomodoroSettings({
-            ...new DefaultPomodoroSettings(),
-            ...parsed
-          })
-          settings.value = validatedSettings
-          // Re-save the corrected settings
-          saveSettings()
-        }
+      const result = loadVersionedData(settingsStorage, storage)
+      switch (result.status) {
+        case 'loaded':
+          settings.value = result.data
+          break
+        case 'recovered':
+          settings.value = result.data
+          storageError.value = {
+            type: 'invalid_data',
+            message: `Stored settings were partly invalid and have been backed up to ${result.backupKey}`
+          }
+          break
+        case 'quarantined':
+          settings.value = new DefaultPomodoroSettings()
+          storageError.value = {
+            type: result.error === 'parse_error' ? 'parse_error' : 'invalid_data',
+            message: `Stored settings could not be loaded and have been backed up to ${result.backupKey}`
+          }
+          break
+        case 'unsupported':
+          settings.value = new DefaultPomodoroSettings()
+          storageError.value = {
+            type: 'unsupported_version',
+            message: `Stored settings were saved by a newer version (${result.version}) and have been left unchanged`
+          }
+          break
       }
     } catch (error) {
-      const err = error as Error
-      if (err instanceof SyntaxError) {
-        storageError.value = {
-          type: 'parse_error',
-          message: 'Failed to parse stored settings',
-          originalError: err
-        }
-      } else {
-        storageError.value = {
-          type: 'invalid_data',
-          message: 'Stored settings data is invalid',
-          originalError: err
-        }
+      storageError.value = {
+        type: 'invalid_data',
+        message: 'Stored settings data is invalid',
+        originalError: error as Error
       }
       console.error('Failed to load settings from localStorage:', error)
       // Fall back to defaults
@@ -121,7 +130,9 @@ export function useTimerSettings() {
     try {
       // Validate settings before saving
       const validatedSettings = validatePomodoroSettings(settings.value)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(validatedSettings))
+      saveVersionedData(settingsStorage, validatedSettings, storage)
+      // Storage events only reach other tabs, so notify instances in this tab explicitly
+      window.dispatchEvent(new CustomEvent(SETTINGS_SAVED_EVENT, { detail: instance }))
       return true
     } catch (error) {
       const err = error as Error
@@ -191,6 +202,25 @@ export function useTimerSettings() {
   const sessionsBeforeLongBreak = computed(() => settings.value.sessionsBeforeLongBreak)
   /** 次のセッションを自動開始するかどうか */
   const autoStartNextSession = computed(() => settings.value.autoStartNextSession)
+  /** 休憩を自動開始するかどうか */
+  const autoStartBreaks = computed(() => settings.value.autoStartBreaks)
+  /** 作業セッションを自動開始するかどうか */
+  const autoStartWorkSessions = computed(() => settings.value.autoStartWorkSessions)
+  /** 自動開始までの猶予時間（秒） */
+  const autoStartDelay = computed(() => settings.value.autoStartDelay)
+  /** useTimerに渡す自動開始設定 */
+  const autoStart = computed<AutoStartOptions>(() => ({
+    enabled: settings.value.autoStartNextSession,
+    breaks: settings.value.autoStartBreaks,
+    work: settings.value.autoStartWorkSessions,
+    delay: settings.value.autoStartDelay
+  }))
+  /** 実行するサイクルプラン（標準のサイクルの場合や選択中のプランが見つからない場合はnull） */
+  const cyclePlan = computed(() =>
+    settings.value.cyclePlans.find(plan => plan.id === settings.value.activePlanId) ?? null
+  )
+  /** 作業セッションの完了後に振り返りの入力を促すかどうか */
+  const reflectionPrompt = computed(() => settings.value.reflectionPrompt)
   /** 通知設定 */
   const notifications = computed(() => settings.value.notifications)
   /** アプリケーションテーマ */
@@ -198,9 +228,41 @@ export function useTimerSettings() {
   /** 表示言語 */
   const language = computed(() => settings.value.language)
 
+  /**
+   * 他のタブで保存された設定を読み込む
+   * @param event - windowのstorageイベント
+   */
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === SETTINGS_STORAGE_KEY) {
+      loadSettings()
+    }
+  }
+
+  /**
+   * 同じタブ内の他のインスタンスで保存された設定を読み込む
+   * @param event - 保存したインスタンスの識別子を持つイベント
+   */
+  const handleSettingsSaved = (event: Event) => {
+    if ((event as CustomEvent<symbol>).detail !== instance) {
+      loadSettings()
+    }
+  }
+
   // 初期化時に設定を読み込み
   loadSettings()
 
+  // 他のタブ・同じタブ内の他の画面での設定変更を監視
+  if (import.meta.client) {
+    window.addEventListener('storage', handleStorageEvent)
+    window.addEventListener(SETTINGS_SAVED_EVENT, handleSettingsSaved)
+    if (getCurrentScope()) {
+      onScopeDispose(() => {
+        window.removeEventListener('storage', handleStorageEvent)
+        window.removeEventListener(SETTINGS_SAVED_EVENT, handleSettingsSaved)
+      })
+    }
+  }
+
   return {
     settings,
     storageError,
@@ -209,6 +271,12 @@ export function useTimerSettings() {
     longBreakDuration,
     sessionsBeforeLongBreak,
     autoStartNextSession,
+    autoStartBreaks,
+    autoStartWorkSessions,
+    autoStartDelay,
+    autoStart,
+    cyclePlan,
+    reflectionPrompt,
     notifications,
     theme,
     language,
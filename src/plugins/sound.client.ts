@@ -0,0 +1,10 @@
+import { useSoundEngine } from '~/composables/useSoundEngine'
+
+/**
+ * 通知音の自動再生制限を解除するクライアント専用のNuxtプラグイン
+ * 最初のユーザー操作でAudioContextを有効化し、セッション完了時に通知音を鳴らせるようにする
+ */
+export default defineNuxtPlugin(() => {
+  const { registerUnlockListeners } = useSoundEngine()
+  registerUnlockListeners()
+})
@@ -0,0 +1,202 @@
+import { defineStore, skipHydrate } from 'pinia'
+import { ref, computed } from 'vue'
+import type { Project } from '~/types'
+import { ProjectSchema, TagSchema, MAX_SESSION_TAGS } from '~/types'
+import { createUuid } from '~/utils/id'
+import { loadVersionedData, saveVersionedData } from '~/utils/versionedStorage'
+import { labelsStorage, LABELS_STORAGE_KEY } from '~/utils/storageMigrations'
+
+/**
+ * プロジェクトとタグの状態管理ストア
+ * プロジェクトの作成・名前の変更・削除、タグの登録・削除と、次の作業セッションに付けるプロジェクトとタグを管理
+ * ローカルストレージに保存し、他のタブでの変更も反映する
+ */
+export const useLabelStore = defineStore('labels', () => {
+  /** プロジェクト一覧（作成順） */
+  const projects = ref<Project[]>([])
+  /** 登録済みのタグ（登録順） */
+  const tags = ref<string[]>([])
+  /** 選択中のプロジェクトのID（選択していない場合はnull） */
+  const selectedProjectId = ref<string | null>(null)
+  /** 選択中のタグ */
+  const selectedTags = ref<string[]>([])
+
+  /** 選択中のプロジェクト（削除済みの場合はnull） */
+  const selectedProject = computed(() =>
+    projects.value.find(project => project.id === selectedProjectId.value) ?? null
+  )
+
+  /**
+   * IDに対応するプロジェクトを取得する
+   * @param id - プロジェクトID
+   * @returns プロジェクト（存在しない場合はundefined）
+   */
+  const getProject = (id: string): Project | undefined => {
+    return projects.value.find(project => project.id === id)
+  }
+
+  /**
+   * ローカルストレージからプロジェクトとタグを読み込む
+   * クライアントサイドでのみ実行し、読み込めないデータはバックアップに退避される
+   */
+  const loadLabelsFromStorage = () => {
+    if (!import.meta.client) return
+    try {
+      const result = loadVersionedData(labelsStorage)
+      const data = result.status === 'loaded' || result.status === 'recovered' ? result.data : null
+      projects.value = data?.projects ?? []
+      tags.value = data?.tags ?? []
+      selectedProjectId.value = data?.selectedProjectId ?? null
+      selectedTags.value = data?.selectedTags ?? []
+    } catch (error) {
+      console.error('Failed to load labels from localStorage:', error)
+    }
+  }
+
+  /**
+   * プロジェクトとタグをローカルストレージに保存する
+   * クライアントサイドでのみ実行し、エラーハンドリングを含む
+   */
+  const saveLabelsToStorage = () => {
+    if (!import.meta.client) return
+    try {
+      saveVersionedData(labelsStorage, {
+        projects: projects.value,
+        tags: tags.value,
+        selectedProjectId: selectedProjectId.value,
+        selectedTags: selectedTags.value
+      })
+    } catch (error) {
+      console.error('Failed to save labels to localStorage:', error)
+    }
+  }
+
+  /**
+   * プロジェクトを作成する
+   * @param name - プロジェクト名
+   * @returns 作成したプロジェクト
+   * @throws Zodバリデーションエラー（名前が無効な場合）
+   */
+  const addProject = (name: string): Project => {
+    const project = ProjectSchema.parse({ id: createUuid(), name })
+    projects.value.push(project)
+    saveLabelsToStorage()
+    return project
+  }
+
+  /**
+   * プロジェクトの名前を変更する
+   * @param id - 変更するプロジェクトのID
+   * @param name - 新しいプロジェクト名
+   * @returns プロジェクトが存在し変更した場合true
+   * @throws Zodバリデーションエラー（名前が無効な場合）
+   */
+  const renameProject = (id: string, name: string): boolean => {
+    const project = getProject(id)
+    if (!project) return false
+    project.name = ProjectSchema.shape.name.parse(name)
+    saveLabelsToStorage()
+    return true
+  }
+
+  /**
+   * プロジェクトを削除する
+   * 履歴のセッションに記録されたプロジェクトIDはそのまま残す
+   * @param id - 削除するプロジェクトのID
+   */
+  const deleteProject = (id: string) => {
+    projects.value = projects.value.filter(project => project.id !== id)
+    if (selectedProjectId.value === id) {
+      selectedProjectId.value = null
+    }
+    saveLabelsToStorage()
+  }
+
+  /**
+   * タグを登録する（登録済みのタグは無視する）
+   * @param tag - 登録するタグ
+   * @returns 前後の空白を取り除いたタグ
+   * @throws Zodバリデーションエラー（タグが無効な場合）
+   */
+  const addTag = (tag: string): string => {
+    const normalized = TagSchema.parse(tag)
+    if (!tags.value.includes(normalized)) {
+      tags.value.push(normalized)
+      saveLabelsToStorage()
+    }
+    return normalized
+  }
+
+  /**
+   * 登録済みのタグを削除し、選択中の場合は選択も解除する
+   * 履歴のセッションに記録されたタグはそのまま残す
+   * @param tag - 削除するタグ
+   */
+  const removeTag = (tag: string) => {
+    tags.value = tags.value.filter(item => item !== tag)
+    selectedTags.value = selectedTags.value.filter(item => item !== tag)
+    saveLabelsToStorage()
+  }
+
+  /**
+   * 次の作業セッションに付けるプロジェクトを選択する
+   * @param id - 選択するプロジェクトのID（nullの場合は選択を解除する）
+   */
+  const selectProject = (id: string | null) => {
+    if (id !== null && !getProject(id)) return
+    selectedProjectId.value = id
+    saveLabelsToStorage()
+  }
+
+  /**
+   * 次の作業セッションに付けるタグを選択する
+   * 未登録のタグは登録し、無効なタグと重複は取り除く
+   * @param values - 選択するタグ
+   */
+  const selectTags = (values: string[]) => {
+    const normalized = values.flatMap(value => {
+      const result = TagSchema.safeParse(value)
+      return result.success ? [result.data] : []
+    })
+    selectedTags.value = [...new Set(normalized)].slice(0, MAX_SESSION_TAGS)
+    for (const tag of selectedTags.value) {
+      if (!tags.value.includes(tag)) tags.value.push(tag)
+    }
+    saveLabelsToStorage()
+  }
+
+  /**
+   * 他のタブでのプロジェクトとタグの更新を反映する
+   * @param event - windowのstorageイベント
+   */
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === LABELS_STORAGE_KEY) {
+      loadLabelsFromStorage()
+    }
+  }
+
+  // 初期化時にプロジェクトとタグを読み込み、他のタブでの変更を監視
+  loadLabelsFromStorage()
+  if (import.meta.client) {
+    window.addEventListener('storage', handleStorageEvent)
+  }
+
+  return {
+    // ローカルストレージから復元する状態はSSRのペイロードで上書きしない
+    projects: skipHydrate(projects),
+    tags: skipHydrate(tags),
+    selectedProjectId: skipHydrate(selectedProjectId),
+    selectedTags: skipHydrate(selectedTags),
+    selectedProject,
+    getProject,
+    addProject,
+    renameProject,
+    deleteProject,
+    addTag,
+    removeTag,
+    selectProject,
+    selectTags,
+    loadLabelsFromStorage,
+    handleStorageEvent
+  }
+})
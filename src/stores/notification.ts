@@ -0,0 +1,54 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+/** アプリ内通知の種類 */
+export type SnackbarColor = 'success' | 'info' | 'warning' | 'error'
+
+/**
+ * アプリ内通知（スナックバー）の表示内容
+ */
+interface SnackbarMessage {
+  /** 表示するメッセージ */
+  message: string;
+  /** 通知の種類（Vuetifyのカラー） */
+  color: SnackbarColor;
+}
+
+/**
+ * アプリ内通知の状態管理ストア
+ * システム通知が使えない場合やタブを表示中の場合に使うスナックバーの表示状態を一元管理
+ */
+export const useNotificationStore = defineStore('notification', () => {
+  /** スナックバーを表示中かどうか */
+  const isSnackbarVisible = ref(false)
+  /** 表示中のスナックバーの内容 */
+  const snackbar = ref<SnackbarMessage>({
+    message: '',
+    color: 'info'
+  })
+
+  /**
+   * スナックバーにメッセージを表示する
+   * 表示中のメッセージがある場合は新しいメッセージで置き換える
+   * @param message - 表示するメッセージ
+   * @param color - 通知の種類、デフォルト: info
+   */
+  const showSnackbar = (message: string, color: SnackbarColor = 'info') => {
+    snackbar.value = { message, color }
+    isSnackbarVisible.value = true
+  }
+
+  /**
+   * スナックバーを閉じる
+   */
+  const hideSnackbar = () => {
+    isSnackbarVisible.value = false
+  }
+
+  return {
+    isSnackbarVisible,
+    snackbar,
+    showSnackbar,
+    hideSnackbar
+  }
+})
@@ -0,0 +1,184 @@
+import { defineStore, skipHydrate } from 'pinia'
+import { ref, computed } from 'vue'
+import type { Task, TaskInput } from '~/types'
+import { TaskInputSchema } from '~/types'
+import { createUuid } from '~/utils/id'
+import { loadVersionedData, saveVersionedData } from '~/utils/versionedStorage'
+import { tasksStorage, TASKS_STORAGE_KEY } from '~/utils/storageMigrations'
+
+/**
+ * タスクの状態管理ストア
+ * タスクの作成・編集・完了・削除と、次の作業セッションに紐付ける選択中のタスクを管理
+ * タスク一覧はローカルストレージに保存し、他のタブでの変更も反映する
+ */
+export const useTaskStore = defineStore('tasks', () => {
+  /** タスク一覧（作成順） */
+  const tasks = ref<Task[]>([])
+  /** 選択中のタスクのID（選択していない場合はnull） */
+  const activeTaskId = ref<string | null>(null)
+
+  /** 選択中のタスク（完了済み・削除済みの場合はnull） */
+  const activeTask = computed(() =>
+    tasks.value.find(task => task.id === activeTaskId.value && !task.completed) ?? null
+  )
+
+  /**
+   * IDに対応するタスクを取得する
+   * @param id - タスクID
+   * @returns タスク（存在しない場合はundefined）
+   */
+  const getTask = (id: string): Task | undefined => {
+    return tasks.value.find(task => task.id === id)
+  }
+
+  /**
+   * ローカルストレージからタスク一覧を読み込む
+   * クライアントサイドでのみ実行し、読み込めないデータはバックアップに退避される
+   */
+  const loadTasksFromStorage = () => {
+    if (!import.meta.client) return
+    try {
+      const result = loadVersionedData(tasksStorage)
+      if (result.status === 'loaded' || result.status === 'recovered') {
+        tasks.value = result.data.tasks
+        activeTaskId.value = result.data.activeTaskId
+      } else {
+        tasks.value = []
+        activeTaskId.value = null
+      }
+    } catch (error) {
+      console.error('Failed to load tasks from localStorage:', error)
+    }
+  }
+
+  /**
+   * タスク一覧をローカルストレージに保存する
+   * クライアントサイドでのみ実行し、エラーハンドリングを含む
+   */
+  const saveTasksToStorage = () => {
+    if (!import.meta.client) return
+    try {
+      saveVersionedData(tasksStorage, { tasks: tasks.value, activeTaskId: activeTaskId.value })
+    } catch (error) {
+      console.error('Failed to save tasks to localStorage:', error)
+    }
+  }
+
+  /**
+   * タスクを作成する
+   * @param input - タスク名と見積もりのポモドーロ数
+   * @returns 作成したタスク
+   * @throws Zodバリデーションエラー（入力が無効な場合）
+   */
+  const addTask = (input: TaskInput): Task => {
+    const task: Task = {
+      ...TaskInputSchema.parse(input),
+      id: createUuid(),
+      completed: false,
+      createdAt: new Date().toISOString(),
+      completedAt: null
+    }
+    tasks.value.push(task)
+    saveTasksToStorage()
+    return task
+  }
+
+  /**
+   * タスク名と見積もりのポモドーロ数を変更する
+   * @param id - 変更するタスクのID
+   * @param input - 新しいタスク名と見積もりのポモドーロ数
+   * @returns タスクが存在し変更した場合true
+   * @throws Zodバリデーションエラー（入力が無効な場合）
+   */
+  const updateTask = (id: string, input: TaskInput): boolean => {
+    const task = getTask(id)
+    if (!task) return false
+    Object.assign(task, TaskInputSchema.parse(input))
+    saveTasksToStorage()
+    return true
+  }
+
+  /**
+   * タスクを完了にする
+   * 選択中のタスクの場合は選択を解除する
+   * @param id - 完了にするタスクのID
+   */
+  const completeTask = (id: string) => {
+    const task = getTask(id)
+    if (!task || task.completed) return
+    task.completed = true
+    task.completedAt = new Date().toISOString()
+    if (activeTaskId.value === id) {
+      activeTaskId.value = null
+    }
+    saveTasksToStorage()
+  }
+
+  /**
+   * 完了済みのタスクを未完了に戻す
+   * @param id - 未完了に戻すタスクのID
+   */
+  const reopenTask = (id: string) => {
+    const task = getTask(id)
+    if (!task || !task.completed) return
+    task.completed = false
+    task.completedAt = null
+    saveTasksToStorage()
+  }
+
+  /**
+   * タスクを削除する
+   * 履歴のセッションに記録されたタスクIDはそのまま残す
+   * @param id - 削除するタスクのID
+   */
+  const deleteTask = (id: string) => {
+    tasks.value = tasks.value.filter(task => task.id !== id)
+    if (activeTaskId.value === id) {
+      activeTaskId.value = null
+    }
+    saveTasksToStorage()
+  }
+
+  /**
+   * 次の作業セッションに紐付けるタスクを選択する
+   * 完了済み・存在しないタスクは選択しない
+   * @param id - 選択するタスクのID（nullの場合は選択を解除する）
+   */
+  const setActiveTask = (id: string | null) => {
+    if (id !== null && getTask(id)?.completed !== false) return
+    activeTaskId.value = id
+    saveTasksToStorage()
+  }
+
+  /**
+   * 他のタブでのタスク一覧の更新を反映する
+   * @param event - windowのstorageイベント
+   */
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === TASKS_STORAGE_KEY) {
+      loadTasksFromStorage()
+    }
+  }
+
+  // 初期化時にタスク一覧を読み込み、他のタブでの変更を監視
+  loadTasksFromStorage()
+  if (import.meta.client) {
+    window.addEventListener('storage', handleStorageEvent)
+  }
+
+  return {
+    // ローカルストレージから復元する状態はSSRのペイロードで上書きしない
+    tasks: skipHydrate(tasks),
+    activeTaskId: skipHydrate(activeTaskId),
+    activeTask,
+    getTask,
+    addTask,
+    updateTask,
+    completeTask,
+    reopenTask,
+    deleteTask,
+    setActiveTask,
+    loadTasksFromStorage,
+    handleStorageEvent
+  }
+})
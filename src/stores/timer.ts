@@ -1,11 +1,24 @@
-import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { defineStore, skipHydrate } from 'pinia'
+import { ref, computed, watch } from 'vue'
 import type { 
   TimerState, 
+  TimerClock,
   PomodoroSession, 
   PomodoroHistory, 
-  SessionType 
+  PersistedTimerState,
+  SessionReflection,
+  Interruption,
+  PauseInterval,
+  SessionType,
+  ImportMode
 } from '~/types'
+import { PersistedTimerStateSchema } from '~/types'
+import { computeHistoryStats, getSessionFocusSeconds } from '~/utils/stats'
+import { mergeSessions } from '~/utils/import'
+import { getHistoryStorage } from '~/utils/historyStorage'
+
+/** 実行中のタイマー状態を保存するローカルストレージのキー名 */
+const TIMER_STATE_STORAGE_KEY = 'pomodoro-timer-state'
 
 /**
  * ポモドーロタイマーのグローバル状態管理ストア
@@ -25,18 +38,23 @@ export const useTimerStore = defineStore('timer', () => {
   const remainingTime = ref(0)
   /** 現在のセッションタイプ */
   const currentSessionType = ref<SessionType>('work')
-  /** 完了したセッション数 */
-  const sessionsCompleted = ref(0)
+  /** サイクルプランの中で現在のインターバルの位置 */
+  const cycleIndex = ref(0)
+  /** 壁時計ベースのカウントダウン基準点（カウントダウンしていない場合はnull） */
+  const clock = ref<TimerClock | null>(null)
+  /** 次のセッションを自動開始する予定時刻（エポックミリ秒、予定がない場合はnull） */
+  const autoStartAt = ref<number | null>(null)
   /** セッション履歴と統計データ */
   const history = ref<PomodoroHistory>({
     sessions: [],
-    stats: {
-      totalSessions: 0,
-      completedSessions: 0,
-      totalWorkTime: 0,
-      streakDays: 0
-    }
+    stats: computeHistoryStats([])
   })
+  /** 履歴の保存先（IndexedDB、利用できない環境ではlocalStorageなど） */
+  const historyAdapter = getHistoryStorage()
+  /** 履歴の書き込みごとに増える番号（読み込み中に書き込みがあったかの判定に使う） */
+  let historyRevision = 0
+  /** 実行中の履歴の書き込み */
+  let pendingHistoryWrites: Promise<void> = Promise.resolve()
 
   /**
    * タイマーの現在状態を統合したオブジェクト
@@ -47,45 +65,129 @@ export const useTimerStore = defineStore('timer', () => {
     isRunning: isRunning.value,
     isPaused: isPaused.value,
     remainingTime: remainingTime.value,
-    currentSessionType: currentSessionType.value,
-    sessionsCompleted: sessionsCompleted.value
+    currentSessionType: currentSessionType.value
   }))
 
+  /**
+   * セッションがまだ記録されていない（完了・中断のどちらでもない）かどうかを判定する
+   * @param session - 判定対象のセッション
+   * @returns 未確定のセッションの場合true
+   */
+  const isSessionOpen = (session: PomodoroSession | null): session is PomodoroSession => {
+    return session !== null && !session.completed && !session.interrupted
+  }
+
   /**
    * 新しいセッションを開始する
    * @param session - 開始するセッションの情報
+   * @param remaining - 開始時点の残り時間（秒）、デフォルト: セッションの予定時間
    */
-  const startSession = (session: PomodoroSession) => {
+  const startSession = (session: PomodoroSession, remaining: number = session.duration) => {
     currentSession.value = session
     isRunning.value = true
     isPaused.value = false
-    remainingTime.value = session.duration
+    remainingTime.value = remaining
     currentSessionType.value = session.type
   }
 
+  /**
+   * セッションの一時停止中の区間を再開した日時で閉じ、一時停止した秒数を累積する
+   * 履歴のエントリと配列を共有しないよう、区間の配列は置き換えて更新する
+   * @param session - 対象のセッション
+   * @param at - 再開した日時（ISO文字列）
+   */
+  const closePause = (session: PomodoroSession, at: string) => {
+    const pauses = session.pauses ?? []
+    const open = pauses.at(-1)
+    if (!open || open.end !== undefined) return
+
+    const closed: PauseInterval = { ...open, end: at }
+    const seconds = Math.max(0, Math.round((new Date(at).getTime() - new Date(open.start).getTime()) / 1000))
+    session.pauses = [...pauses.slice(0, -1), closed]
+    session.pausedSeconds = (session.pausedSeconds ?? 0) + seconds
+  }
+
+  /**
+   * セッションの終了時刻を設定し、実際に集中した時間を計測する
+   * 一時停止中の場合は終了時刻で一時停止の区間を閉じ、一時停止した時間は集中した時間に含めない
+   * @param session - 終了するセッション
+   * @param endTime - 終了時刻（ISO文字列）
+   */
+  const endSession = (session: PomodoroSession, endTime: string) => {
+    closePause(session, endTime)
+    session.endTime = endTime
+    session.focusSeconds = getSessionFocusSeconds(session)
+  }
+
   /**
    * 現在のセッションを一時停止する
+   * セッションは中断として扱わず、未記録のセッションに一時停止の区間を追加する
+   * @param at - 一時停止した日時（ISO文字列）、デフォルト: 現在時刻
    */
-  const pauseSession = () => {
+  const pauseSession = (at: string = new Date().toISOString()) => {
     isPaused.value = true
     isRunning.value = false
+
+    const session = currentSession.value
+    const lastPause = session?.pauses?.at(-1)
+    // A session paused in another tab already has an open interval
+    if (isSessionOpen(session) && (!lastPause || lastPause.end !== undefined)) {
+      session.pauses = [...(session.pauses ?? []), { start: at }]
+    }
   }
 
   /**
-   * 一時停止中のセッションを再開する
+   * 記録中の作業セッションに中断を記録する
+   * 履歴のエントリと配列を共有しないよう、中断の配列は置き換えて更新する
+   * @param interruption - 検証済みの中断
+   * @returns 記録した場合true（記録中の作業セッションがない場合はfalse）
    */
-  const resumeSession = () => {
+  const logInterruption = (interruption: Interruption): boolean => {
+    const session = currentSession.value
+    if (!isSessionOpen(session) || session.type !== 'work') return false
+    session.interruptions = [...(session.interruptions ?? []), interruption]
+    return true
+  }
+
+  /**
+   * 記録中の作業セッションの中断の理由を更新する
+   * @param interruptionId - 更新する中断のID
+   * @param reason - 検証済みの理由（undefinedの場合は理由を取り除く）
+   * @returns 中断が存在し更新した場合true
+   */
+  const updateInterruptionReason = (interruptionId: string, reason: string | undefined): boolean => {
+    const session = currentSession.value
+    if (!isSessionOpen(session) || !session.interruptions?.some(item => item.id === interruptionId)) return false
+    session.interruptions = session.interruptions.map(item => {
+      if (item.id !== interruptionId) return item
+      const updated: Interruption = { ...item, reason }
+      if (!reason) delete updated.reason
+      return updated
+    })
+    return true
+  }
+
+  /**
+   * 一時停止中のセッションを再開し、一時停止の区間を閉じる
+   * @param at - 再開した日時（ISO文字列）、デフォルト: 現在時刻
+   */
+  const resumeSession = (at: string = new Date().toISOString()) => {
     isPaused.value = false
     isRunning.value = true
+
+    if (isSessionOpen(currentSession.value)) {
+      closePause(currentSession.value, at)
+    }
   }
 
   /**
    * 現在のセッションを停止し、中断として履歴に記録する
+   * 停止した時点までの集中した時間を記録し、既に記録済みのセッションは重複して記録しない
    */
   const stopSession = () => {
-    if (currentSession.value) {
+    if (isSessionOpen(currentSession.value)) {
+      endSession(currentSession.value, new Date().toISOString())
       currentSession.value.interrupted = true
-      currentSession.value.endTime = new Date().toISOString()
       addSessionToHistory(currentSession.value)
     }
     resetTimer()
@@ -93,96 +195,352 @@ export const useTimerStore = defineStore('timer', () => {
 
   /**
    * 現在のセッションを完了し、統計を更新して履歴に記録する
+   * 予定時間ではなく終了時刻までに実際に集中した時間を記録し、既に記録済みのセッションは重複して記録しない
+   * @param endTime - セッションの終了時刻（ISO文字列）、デフォルト: 現在時刻
    */
-  const completeSession = () => {
-    if (currentSession.value) {
+  const completeSession = (endTime: string = new Date().toISOString()) => {
+    if (isSessionOpen(currentSession.value)) {
+      endSession(currentSession.value, endTime)
       currentSession.value.completed = true
-      currentSession.value.endTime = new Date().toISOString()
       addSessionToHistory(currentSession.value)
-      
-      if (currentSession.value.type === 'work') {
-        sessionsCompleted.value++
-        history.value.stats.completedSessions++
-        history.value.stats.totalWorkTime += currentSession.value.duration
-      }
     }
     resetTimer()
   }
 
   /**
    * タイマーを初期状態にリセットする
+   * カウントダウンの基準点も破棄する
    */
   const resetTimer = () => {
     currentSession.value = null
     isRunning.value = false
     isPaused.value = false
     remainingTime.value = 0
+    clock.value = null
+  }
+
+  /**
+   * カウントダウンの基準点を設定して時計を開始する
+   * @param duration - カウントダウン全体の長さ（秒）
+   * @param now - 開始時刻（エポックミリ秒）、デフォルト: 現在時刻
+   */
+  const startClock = (duration: number, now: number = Date.now()) => {
+    clock.value = {
+      startedAt: now,
+      duration,
+      pausedAt: null,
+      pausedTime: 0
+    }
   }
 
   /**
-   * セッションを履歴に追加し、統計を更新してストレージに保存する
+   * 時計を一時停止する
+   * @param now - 一時停止した時刻（エポックミリ秒）、デフォルト: 現在時刻
+   */
+  const pauseClock = (now: number = Date.now()) => {
+    if (clock.value && clock.value.pausedAt === null) {
+      clock.value.pausedAt = now
+    }
+  }
+
+  /**
+   * 一時停止中の時計を再開し、停止していた時間を累積する
+   * @param now - 再開した時刻（エポックミリ秒）、デフォルト: 現在時刻
+   */
+  const resumeClock = (now: number = Date.now()) => {
+    if (clock.value && clock.value.pausedAt !== null) {
+      clock.value.pausedTime += Math.max(0, now - clock.value.pausedAt)
+      clock.value.pausedAt = null
+    }
+  }
+
+  /**
+   * 時計の基準点を破棄する
+   */
+  const clearClock = () => {
+    clock.value = null
+  }
+
+  /**
+   * 次のセッションの自動開始を予約する
+   * @param at - 自動開始する時刻（エポックミリ秒）
+   */
+  const scheduleAutoStart = (at: number) => {
+    autoStartAt.value = at
+  }
+
+  /**
+   * 予約済みの自動開始を取り消す
+   */
+  const cancelAutoStart = () => {
+    autoStartAt.value = null
+  }
+
+  /**
+   * カウントダウンが終了する時刻を算出する
+   * 一時停止中の場合は再開時点から残り時間を消化する想定で現在時刻を基準にする
+   * @param now - 基準となる時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 終了時刻（エポックミリ秒）、時計がない場合はnull
+   */
+  const getClockEndTime = (now: number = Date.now()): number | null => {
+    if (!clock.value) return null
+    const pendingPause = clock.value.pausedAt !== null ? Math.max(0, now - clock.value.pausedAt) : 0
+    return clock.value.startedAt + clock.value.duration * 1000 + clock.value.pausedTime + pendingPause
+  }
+
+  /**
+   * 時計から残り時間を算出する
+   * @param now - 基準となる時刻（エポックミリ秒）、デフォルト: 現在時刻
+   * @returns 残り時間（秒、切り上げ）、時計がない場合は現在の残り時間
+   */
+  const getRemainingTime = (now: number = Date.now()): number => {
+    const endTime = getClockEndTime(now)
+    if (endTime === null) return remainingTime.value
+    return Math.max(0, Math.ceil((endTime - now) / 1000))
+  }
+
+  /**
+   * 統計情報を履歴のセッションから再計算する
+   * 手動での加算による食い違いを防ぐため、統計は常にセッションから導出する
+   */
+  const recomputeStats = () => {
+    history.value.stats = computeHistoryStats(history.value.sessions)
+  }
+
+  /**
+   * 履歴の保存先への書き込みを記録する
+   * 書き込みは即座に開始し、読み込みは実行中の書き込みの完了を待ってから行う
+   * @param write - 保存先への書き込み
+   * @returns 書き込みに成功した場合trueで解決するPromise（失敗してもrejectしない）
+   */
+  const trackHistoryWrite = (write: Promise<void>): Promise<boolean> => {
+    historyRevision++
+    const tracked = write.then(() => true, (error) => {
+      console.error('Failed to save history:', error)
+      return false
+    })
+    pendingHistoryWrites = Promise.all([pendingHistoryWrites, tracked]).then(() => {})
+    return tracked
+  }
+
+  /**
+   * セッションを履歴に追加し、統計を更新して保存先に書き込む
+   * 保存先へはこのセッションのみを書き込み、同じIDのセッションは重複して追加しない
    * @param session - 履歴に追加するセッション
    */
   const addSessionToHistory = (session: PomodoroSession) => {
-    history.value.sessions.push(session)
-    history.value.stats.totalSessions++
-    saveHistoryToStorage()
+    if (history.value.sessions.some(existing => existing.id === session.id)) {
+      return
+    }
+
+    // 実行中のセッションと履歴エントリが同一オブジェクトを共有しないようコピーを保存
+    history.value.sessions.push({ ...session })
+    recomputeStats()
+    if (import.meta.client) {
+      trackHistoryWrite(historyAdapter.put({ ...session }))
+    }
+  }
+
+  /**
+   * 履歴のセッションの振り返り（メモと集中度の評価）を置き換えて保存先に書き込む
+   * 空のメモと未評価の集中度はセッションから取り除く
+   * @param sessionId - 更新するセッションのID
+   * @param reflection - 検証済みの振り返り
+   * @returns セッションが存在し更新した場合true
+   */
+  const updateSessionReflection = (sessionId: string, reflection: SessionReflection): boolean => {
+    const index = history.value.sessions.findIndex(session => session.id === sessionId)
+    if (index === -1) return false
+
+    const updated: PomodoroSession = {
+      ...history.value.sessions[index],
+      note: reflection.note,
+      focusRating: reflection.focusRating
+    }
+    if (!updated.note) delete updated.note
+    if (updated.focusRating === undefined) delete updated.focusRating
+    history.value.sessions.splice(index, 1, updated)
+    if (import.meta.client) {
+      trackHistoryWrite(historyAdapter.put({ ...updated }))
+    }
+    return true
+  }
+
+  /**
+   * 履歴のセッションを置き換え、統計を再計算して保存先に書き込む
+   * @param session - 検証済みの編集後のセッション（IDで置き換えるセッションを特定する）
+   * @returns セッションが存在し更新した場合true
+   */
+  const updateSession = (session: PomodoroSession): boolean => {
+    const index = history.value.sessions.findIndex(existing => existing.id === session.id)
+    if (index === -1) return false
+
+    history.value.sessions.splice(index, 1, { ...session })
+    recomputeStats()
+    if (import.meta.client) {
+      trackHistoryWrite(historyAdapter.put({ ...session }))
+    }
+    return true
+  }
+
+  /**
+   * 履歴のセッションを1件削除し、統計を再計算して保存先から削除する
+   * @param sessionId - 削除するセッションのID
+   * @returns セッションが存在し削除した場合true
+   */
+  const deleteSession = (sessionId: string): boolean => {
+    if (!history.value.sessions.some(session => session.id === sessionId)) return false
+
+    history.value.sessions = history.value.sessions.filter(session => session.id !== sessionId)
+    recomputeStats()
+    if (import.meta.client) {
+      trackHistoryWrite(historyAdapter.remove(sessionId))
+    }
+    return true
+  }
+
+  /**
+   * インポートしたセッションを履歴に反映し、統計を再計算して保存先に書き込む
+   * 他のタブで追加されたセッションを含めるよう反映前に最新の履歴を読み込み、IDが同じセッションは重複させない
+   * 保存先への書き込みに失敗した場合は、保存先に残っている履歴を読み込み直す
+   * @param sessions - 検証済みのインポートするセッション
+   * @param mode - インポート方法（merge: 既存の履歴に追加、replace: 既存の履歴を置き換え）
+   * @returns 保存先への書き込みに成功した場合true
+   */
+  const importSessions = async (sessions: PomodoroSession[], mode: ImportMode): Promise<boolean> => {
+    await loadHistoryFromStorage()
+    const existingIds = new Set(history.value.sessions.map(session => session.id))
+    history.value.sessions = mergeSessions(history.value.sessions, sessions, mode)
+    recomputeStats()
+    if (!import.meta.client) return true
+
+    const saved = await trackHistoryWrite(mode === 'replace'
+      ? historyAdapter.replaceAll(history.value.sessions)
+      : historyAdapter.putMany(sessions.filter(session => !existingIds.has(session.id))))
+    if (!saved) await loadHistoryFromStorage()
+    return saved
   }
 
   /**
-   * ローカルストレージから履歴データを読み込む
+   * 保存先から履歴データを読み込み、統計を再計算する
+   * 読み込み中にこのタブで書き込みがあった場合は、書き込みの完了後に読み込み直す
    * クライアントサイドでのみ実行し、エラーハンドリングを含む
    */
-  const loadHistoryFromStorage = () => {
+  const loadHistoryFromStorage = async () => {
+    if (!import.meta.client) return
+    try {
+      let revision: number
+      let sessions: PomodoroSession[]
+      do {
+        revision = historyRevision
+        await pendingHistoryWrites
+        sessions = await historyAdapter.load()
+      } while (revision !== historyRevision)
+
+      history.value = {
+        sessions,
+        // Stored stats may be stale or drifted; the sessions are the source of truth
+        stats: computeHistoryStats(sessions)
+      }
+    } catch (error) {
+      console.error('Failed to load history:', error)
+    }
+  }
+
+  /**
+   * 永続化対象のタイマー状態を取り出す
+   * @returns 保存用のタイマー状態
+   */
+  const getPersistedTimerState = (): PersistedTimerState => ({
+    currentSession: currentSession.value,
+    isRunning: isRunning.value,
+    isPaused: isPaused.value,
+    remainingTime: remainingTime.value,
+    currentSessionType: currentSessionType.value,
+    cycleIndex: cycleIndex.value,
+    clock: clock.value,
+    autoStartAt: autoStartAt.value
+  })
+
+  /**
+   * ローカルストレージから実行中のタイマー状態を読み込む
+   * クライアントサイドでのみ実行し、不正なデータは破棄する
+   * 経過時間の反映やセッションの確定はuseTimerが時計を基に行う
+   */
+  const loadTimerStateFromStorage = () => {
     if (import.meta.client) {
       try {
-        const stored = localStorage.getItem('pomodoro-history')
+        const stored = localStorage.getItem(TIMER_STATE_STORAGE_KEY)
         if (stored) {
-          const parsed = JSON.parse(stored)
-          history.value = { ...history.value, ...parsed }
+          const result = PersistedTimerStateSchema.safeParse(JSON.parse(stored))
+          if (result.success) {
+            currentSession.value = result.data.currentSession
+            isRunning.value = result.data.isRunning
+            isPaused.value = result.data.isPaused
+            remainingTime.value = result.data.remainingTime
+            currentSessionType.value = result.data.currentSessionType
+            cycleIndex.value = result.data.cycleIndex
+            clock.value = result.data.clock
+            autoStartAt.value = result.data.autoStartAt
+          } else {
+            localStorage.removeItem(TIMER_STATE_STORAGE_KEY)
+          }
         }
       } catch (error) {
-        console.error('Failed to load history from localStorage:', error)
+        console.error('Failed to load timer state from localStorage:', error)
       }
     }
   }
 
   /**
-   * 現在の履歴データをローカルストレージに保存する
+   * 現在のタイマー状態をローカルストレージに保存する
    * クライアントサイドでのみ実行し、エラーハンドリングを含む
    */
-  const saveHistoryToStorage = () => {
+  const saveTimerStateToStorage = () => {
     if (import.meta.client) {
       try {
-        localStorage.setItem('pomodoro-history', JSON.stringify(history.value))
+        const serialized = JSON.stringify(getPersistedTimerState())
+        // Skip unchanged state so mirrored tabs do not echo writes back to each other
+        if (localStorage.getItem(TIMER_STATE_STORAGE_KEY) !== serialized) {
+          localStorage.setItem(TIMER_STATE_STORAGE_KEY, serialized)
+        }
       } catch (error) {
-        console.error('Failed to save history to localStorage:', error)
+        console.error('Failed to save timer state to localStorage:', error)
       }
     }
   }
 
+  /**
+   * 他のタブでのストレージ更新を反映する
+   * タイマー状態の変更を読み込み、全てのタブで同じ状態を表示する（履歴の変更は保存先から通知される）
+   * @param event - windowのstorageイベント
+   */
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === TIMER_STATE_STORAGE_KEY) {
+      loadTimerStateFromStorage()
+    }
+  }
+
   /**
    * 履歴データを全てクリアし、統計をリセットする
    */
   const clearHistory = () => {
     history.value = {
       sessions: [],
-      stats: {
-        totalSessions: 0,
-        completedSessions: 0,
-        totalWorkTime: 0,
-        streakDays: 0
-      }
+      stats: computeHistoryStats([])
+    }
+    if (import.meta.client) {
+      trackHistoryWrite(historyAdapter.clear())
     }
-    saveHistoryToStorage()
   }
 
   /**
    * 今日のセッション一覧を取得する
+   * @param now - 基準の日時（省略時は現在時刻）
    * @returns 今日実行されたセッションの配列
    */
-  const getTodaysSessions = () => {
-    const today = new Date().toDateString()
+  const getTodaysSessions = (now: Date = new Date()) => {
+    const today = now.toDateString()
     return history.value.sessions.filter(session => 
       new Date(session.startTime).toDateString() === today
     )
@@ -190,10 +548,11 @@ export const useTimerStore = defineStore('timer', () => {
 
   /**
    * 過去1週間のセッション統計を取得する
+   * @param now - 基準の日時（省略時は現在時刻）
    * @returns 過去7日間のセッションの配列
    */
-  const getWeeklyStats = () => {
-    const weekAgo = new Date()
+  const getWeeklyStats = (now: Date = new Date()) => {
+    const weekAgo = new Date(now)
     weekAgo.setDate(weekAgo.getDate() - 7)
     
     return history.value.sessions.filter(session => 
@@ -201,29 +560,83 @@ export const useTimerStore = defineStore('timer', () => {
     )
   }
 
-  // 初期化時に履歴データを読み込み
-  loadHistoryFromStorage()
+  /**
+   * 今月のセッション一覧を取得する
+   * @param now - 基準の日時（省略時は現在時刻）
+   * @returns 今月1日以降に開始されたセッションの配列
+   */
+  const getMonthlySessions = (now: Date = new Date()) => {
+    const monthStart = new Date(now)
+    monthStart.setDate(1)
+    monthStart.setHours(0, 0, 0, 0)
+
+    return history.value.sessions.filter(session =>
+      new Date(session.startTime) >= monthStart
+    )
+  }
+
+  // 初期化時に履歴データと実行中のタイマー状態を読み込み
+  const historyLoaded = loadHistoryFromStorage()
+  loadTimerStateFromStorage()
+
+  // 他のタブでの変更を監視
+  if (import.meta.client) {
+    window.addEventListener('storage', handleStorageEvent)
+    historyAdapter.subscribe(() => {
+      loadHistoryFromStorage()
+    })
+  }
+
+  // タイマー状態が変化するたびに保存（残り時間は時計から再計算できるため監視対象外）
+  watch(
+    [currentSession, isRunning, isPaused, currentSessionType, cycleIndex, clock, autoStartAt],
+    saveTimerStateToStorage,
+    { deep: true }
+  )
 
   return {
     timerState,
-    currentSession,
-    isRunning,
-    isPaused,
-    remainingTime,
-    currentSessionType,
-    sessionsCompleted,
-    history,
+    // ローカルストレージから復元する状態はSSRのペイロードで上書きしない
+    currentSession: skipHydrate(currentSession),
+    isRunning: skipHydrate(isRunning),
+    isPaused: skipHydrate(isPaused),
+    remainingTime: skipHydrate(remainingTime),
+    currentSessionType: skipHydrate(currentSessionType),
+    cycleIndex: skipHydrate(cycleIndex),
+    clock: skipHydrate(clock),
+    autoStartAt: skipHydrate(autoStartAt),
+    history: skipHydrate(history),
+    isSessionOpen,
     startSession,
     pauseSession,
+    logInterruption,
+    updateInterruptionReason,
     resumeSession,
     stopSession,
     completeSession,
     resetTimer,
+    startClock,
+    pauseClock,
+    resumeClock,
+    clearClock,
+    scheduleAutoStart,
+    cancelAutoStart,
+    getClockEndTime,
+    getRemainingTime,
+    historyLoaded,
     addSessionToHistory,
+    updateSessionReflection,
+    updateSession,
+    deleteSession,
+    importSessions,
     loadHistoryFromStorage,
-    saveHistoryToStorage,
+    loadTimerStateFromStorage,
+    saveTimerStateToStorage,
+    handleStorageEvent,
     clearHistory,
     getTodaysSessions,
-    getWeeklyStats
+    getWeeklyStats,
+    getMonthlySessions,
+    recomputeStats
   }
 })
\ No newline at end of file
@@ -0,0 +1,46 @@
+import type { PomodoroSession } from '../../types'
+
+/** 既定の開始日時（2025年3月1日 9:00、ローカルタイム） */
+const DEFAULT_START = new Date(2025, 2, 1, 9, 0)
+
+/**
+ * createSessionで上書きする項目
+ * 開始・終了日時は、文字列で直接指定する代わりに開始日時と経過時間から組み立てられる
+ */
+export type SessionOverrides = Partial<PomodoroSession> & {
+  /** 開始日時（省略時は2025年3月1日 9:00） */
+  start?: Date
+  /** 開始から終了までの秒数（省略時は予定時間） */
+  elapsed?: number
+}
+
+/**
+ * テスト用のセッションIDを作成する
+ * 履歴の読み込み時にUUIDとして検証されるため、番号を末尾2桁に埋め込んだUUIDとする
+ * @param n - セッションの番号（1〜99）
+ * @returns UUID形式のセッションID
+ */
+export const sessionId = (n: number): string =>
+  `0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b${String(n).padStart(2, '0')}`
+
+/**
+ * テスト用のセッションを作成する
+ * 既定では予定どおりに終了した完了済みの作業セッションとし、完了しなかった場合は中断として扱う
+ * @param overrides - 上書きする項目
+ * @returns セッション
+ */
+export const createSession = ({ start = DEFAULT_START, elapsed, ...overrides }: SessionOverrides = {}): PomodoroSession => {
+  const type = overrides.type ?? 'work'
+  const duration = overrides.duration ?? (type === 'work' ? 1500 : 300)
+  const completed = overrides.completed ?? true
+  return {
+    id: sessionId(1),
+    type,
+    duration,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + (elapsed ?? duration) * 1000).toISOString(),
+    completed,
+    interrupted: !completed,
+    ...overrides
+  }
+}
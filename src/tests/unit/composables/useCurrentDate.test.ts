@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { effectScope } from 'vue'
+import { useCurrentDate } from '../../../composables/useCurrentDate'
+
+describe('useCurrentDate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 2, 20, 23, 59, 0))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should move to the next day at midnight', () => {
+    const { now } = useCurrentDate()
+    expect(now.value.getDate()).toBe(20)
+
+    vi.advanceTimersByTime(59_999)
+    expect(now.value.getDate()).toBe(20)
+
+    vi.advanceTimersByTime(1)
+    expect(now.value.getDate()).toBe(21)
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000)
+    expect(now.value.getDate()).toBe(22)
+  })
+
+  it('should refresh when the page becomes visible again', () => {
+    const { now } = useCurrentDate()
+
+    vi.setSystemTime(new Date(2025, 2, 22, 8, 0, 0))
+    document.dispatchEvent(new Event('visibilitychange'))
+
+    expect(now.value).toEqual(new Date(2025, 2, 22, 8, 0, 0))
+  })
+
+  it('should stop refreshing when the scope is disposed', () => {
+    const scope = effectScope()
+    const { now } = scope.run(() => useCurrentDate())!
+    scope.stop()
+
+    vi.advanceTimersByTime(60_000)
+    document.dispatchEvent(new Event('visibilitychange'))
+
+    expect(now.value).toEqual(new Date(2025, 2, 20, 23, 59, 0))
+  })
+})
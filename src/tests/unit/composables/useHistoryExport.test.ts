@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useHistoryExport } from '../../../composables/useHistoryExport'
+import { useTimerStore } from '../../../stores/timer'
+import { createSession, sessionId } from '../../helpers/session'
+
+describe('useHistoryExport', () => {
+  let downloads: Array<{ fileName: string; blob: Blob }>
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    downloads = []
+
+    const blobs = new Map<string, Blob>()
+    vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+      const url = `blob:${blobs.size}`
+      blobs.set(url, blob as Blob)
+      return url
+    })
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push({ fileName: this.download, blob: blobs.get(this.getAttribute('href')!)! })
+    })
+
+    const store = useTimerStore()
+    store.addSessionToHistory(createSession({ id: sessionId(1), start: new Date(2025, 2, 1, 9, 0) }))
+    store.addSessionToHistory(createSession({ id: sessionId(2), start: new Date(2025, 2, 15, 9, 0) }))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should count the sessions in a date range', () => {
+    const { countSessions } = useHistoryExport()
+
+    expect(countSessions({ from: null, to: null })).toBe(2)
+    expect(countSessions({ from: '2025-03-10', to: null })).toBe(1)
+  })
+
+  it('should download the history as versioned JSON', async () => {
+    const { exportHistory } = useHistoryExport()
+
+    expect(exportHistory('json')).toBe(true)
+
+    expect(downloads).toHaveLength(1)
+    expect(downloads[0].fileName).toMatch(/^pomodoro-history-\d{4}-\d{2}-\d{2}\.json$/)
+    expect(downloads[0].blob.type).toBe('application/json;charset=utf-8')
+    const data = JSON.parse(await downloads[0].blob.text())
+    expect(data.version).toBe(1)
+    expect(data.history.sessions).toHaveLength(2)
+  })
+
+  it('should release the download URL only after the download has started', () => {
+    vi.useFakeTimers()
+    const { exportHistory } = useHistoryExport()
+
+    exportHistory('json')
+
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:0')
+  })
+
+  it('should download a date range as CSV', async () => {
+    const { exportHistory } = useHistoryExport()
+
+    expect(exportHistory('csv', { from: '2025-03-10', to: '2025-03-31' })).toBe(true)
+
+    expect(downloads[0].fileName).toBe('pomodoro-history-2025-03-10_2025-03-31.csv')
+    const lines = (await downloads[0].blob.text()).trim().split('\r\n')
+    expect(lines).toHaveLength(2)
+    expect(lines[1].startsWith('0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02,work,1500,')).toBe(true)
+  })
+
+  it('should not download invalid history', () => {
+    const store = useTimerStore()
+    store.addSessionToHistory(createSession({ id: 'broken', start: new Date(2025, 2, 16, 9, 0) }))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { exportHistory } = useHistoryExport()
+
+    expect(exportHistory('json')).toBe(false)
+    expect(downloads).toHaveLength(0)
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useHistoryImport } from '../../../composables/useHistoryImport'
+import { useTimerStore } from '../../../stores/timer'
+import { createSession, sessionId } from '../../helpers/session'
+
+/**
+ * JSONのインポートファイルを作成する
+ * @param rows - ファイルに含めるセッションの行
+ */
+const createFile = (rows: unknown[]) => new File([JSON.stringify(rows)], 'history.json', { type: 'application/json' })
+
+describe('useHistoryImport', () => {
+  const existing = createSession({ id: sessionId(1), start: new Date(2025, 2, 1, 9, 0) })
+  const imported = createSession({ id: sessionId(2), start: new Date(2025, 2, 2, 9, 0) })
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    useTimerStore().addSessionToHistory(existing)
+  })
+
+  it('should preview the changes before importing', async () => {
+    const { mode, fileName, preview, canImport, readFile } = useHistoryImport()
+
+    await readFile(createFile([existing, imported]))
+
+    expect(fileName.value).toBe('history.json')
+    expect(canImport.value).toBe(true)
+    expect(preview.value).toMatchObject({ added: 1, duplicates: 1, removed: 0 })
+    expect(preview.value?.stats.totalSessions).toBe(2)
+
+    mode.value = 'replace'
+    expect(preview.value).toMatchObject({ added: 1, duplicates: 1, removed: 0 })
+  })
+
+  it('should merge new sessions without duplicates and recompute stats', async () => {
+    const store = useTimerStore()
+    const { readFile, applyImport, parsed } = useHistoryImport()
+
+    await readFile(createFile([existing, imported, { id: 'broken' }]))
+    expect(parsed.value?.rowErrors.map(error => error.index)).toEqual([2])
+
+    expect(await applyImport()).toMatchObject({ added: 1, duplicates: 1 })
+
+    expect(store.history.sessions.map(session => session.id)).toEqual([existing.id, imported.id])
+    expect(store.history.stats.totalSessions).toBe(2)
+    expect(JSON.parse(localStorage.getItem('pomodoro-history')!).data.sessions).toHaveLength(2)
+    expect(parsed.value).toBeNull()
+  })
+
+  it('should replace the existing history', async () => {
+    const store = useTimerStore()
+    const { mode, readFile, applyImport } = useHistoryImport()
+
+    await readFile(createFile([imported]))
+    mode.value = 'replace'
+    expect(await applyImport()).toMatchObject({ added: 1, removed: 1 })
+
+    expect(store.history.sessions).toEqual([imported])
+    expect(store.history.stats.completedSessions).toBe(1)
+  })
+
+  it('should keep sessions recorded in another tab when merging', async () => {
+    const store = useTimerStore()
+    const otherTab = createSession({ id: sessionId(3), start: new Date(2025, 2, 3, 9, 0) })
+    localStorage.setItem('pomodoro-history', JSON.stringify({ sessions: [existing, otherTab], stats: store.history.stats }))
+    const { readFile, applyImport } = useHistoryImport()
+
+    await readFile(createFile([imported]))
+    await applyImport()
+
+    expect(store.history.sessions.map(session => session.id)).toEqual([existing.id, imported.id, otherTab.id])
+  })
+
+  it('should keep the file and the stored history when the import cannot be saved', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = useTimerStore()
+    const { mode, parsed, importError, readFile, applyImport } = useHistoryImport()
+
+    await readFile(createFile([imported]))
+    mode.value = 'replace'
+    vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError')
+    })
+
+    expect(await applyImport()).toBeNull()
+
+    expect(importError.value).toEqual({ key: 'import.errors.saveFailed' })
+    expect(parsed.value?.sessions).toEqual([imported])
+    expect(store.history.sessions).toEqual([existing])
+    vi.restoreAllMocks()
+  })
+
+  it('should report files that cannot be imported', async () => {
+    const store = useTimerStore()
+    const { fileError, canImport, readFile, applyImport } = useHistoryImport()
+
+    await readFile(new File(['{ broken'], 'history.json'))
+
+    expect(fileError.value).toEqual({ key: 'import.errors.invalidJson' })
+    expect(canImport.value).toBe(false)
+    expect(await applyImport()).toBeNull()
+    expect(store.history.sessions).toHaveLength(1)
+  })
+
+  it('should report files that cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const file = createFile([])
+    vi.spyOn(file, 'text').mockRejectedValue(new Error('NotReadableError'))
+    const { fileError, readFile } = useHistoryImport()
+
+    await readFile(file)
+
+    expect(fileError.value).toEqual({ key: 'import.errors.unreadable' })
+    vi.restoreAllMocks()
+  })
+})
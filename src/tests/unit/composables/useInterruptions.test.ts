@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import {
+  useInterruptions,
+  getInterruptionShortcut,
+  getInterruptionReasonError
+} from '../../../composables/useInterruptions'
+import { useTimerStore } from '../../../stores/timer'
+import { createSession } from '../../helpers/session'
+
+describe('getInterruptionShortcut', () => {
+  it('should map the I and E keys to the interruption kinds', () => {
+    expect(getInterruptionShortcut(new KeyboardEvent('keydown', { key: 'i' }))).toBe('internal')
+    expect(getInterruptionShortcut(new KeyboardEvent('keydown', { key: 'E' }))).toBe('external')
+    expect(getInterruptionShortcut(new KeyboardEvent('keydown', { key: 'x' }))).toBeNull()
+  })
+
+  it('should ignore modified, repeated and typed keys', () => {
+    expect(getInterruptionShortcut(new KeyboardEvent('keydown', { key: 'i', ctrlKey: true }))).toBeNull()
+    expect(getInterruptionShortcut(new KeyboardEvent('keydown', { key: 'i', repeat: true }))).toBeNull()
+
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+    let result: ReturnType<typeof getInterruptionShortcut> = 'internal'
+    input.addEventListener('keydown', event => {
+      result = getInterruptionShortcut(event)
+    })
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'i', bubbles: true }))
+    input.remove()
+
+    expect(result).toBeNull()
+  })
+})
+
+describe('getInterruptionReasonError', () => {
+  it('should accept an empty reason and reject a too long one', () => {
+    expect(getInterruptionReasonError('  ')).toBeNull()
+    expect(getInterruptionReasonError('Phone call')).toBeNull()
+    expect(getInterruptionReasonError('x'.repeat(101))).toEqual({ key: 'validation.maxLength', params: { max: 100 } })
+  })
+})
+
+describe('useInterruptions', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should log interruptions only during an open work session', () => {
+    const store = useTimerStore()
+    const { canLog, currentInterruptions, logInterruption } = useInterruptions()
+
+    expect(canLog.value).toBe(false)
+    expect(logInterruption('internal')).toBeNull()
+
+    store.startSession(createSession({ type: 'shortBreak', start: new Date(), endTime: '', completed: false, interrupted: false }))
+    expect(canLog.value).toBe(false)
+
+    store.startSession(createSession({ type: 'work', start: new Date(), endTime: '', completed: false, interrupted: false }))
+    const now = new Date(2025, 2, 20, 9, 10)
+    const interruption = logInterruption('external', now)
+
+    expect(interruption).toMatchObject({ kind: 'external', at: now.toISOString() })
+    expect(currentInterruptions.value).toEqual([interruption])
+  })
+
+  it('should set a trimmed reason and remove an empty one', () => {
+    useTimerStore().startSession(createSession({ type: 'work', start: new Date(), endTime: '', completed: false, interrupted: false }))
+    const { currentInterruptions, logInterruption, setReason } = useInterruptions()
+    const interruption = logInterruption('internal')!
+
+    expect(setReason(interruption.id, '  Remembered an email  ')).toBe(true)
+    expect(currentInterruptions.value[0].reason).toBe('Remembered an email')
+
+    expect(setReason(interruption.id, 'x'.repeat(101))).toBe(false)
+    expect(setReason(interruption.id, '')).toBe(true)
+    expect(currentInterruptions.value[0]).not.toHaveProperty('reason')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useLabels, getProjectNameError, getTagError } from '../../../composables/useLabels'
+
+describe('getProjectNameError', () => {
+  const projects = [{ id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1', name: 'Website' }]
+
+  it('should validate the name and reject duplicates regardless of case', () => {
+    expect(getProjectNameError('Mobile app', projects)).toBeNull()
+    expect(getProjectNameError(' ', projects)).toEqual({ key: 'validation.required' })
+    expect(getProjectNameError('x'.repeat(51), projects)).toEqual({ key: 'validation.maxLength', params: { max: 50 } })
+    expect(getProjectNameError(' website ', projects)).toEqual({ key: 'labels.errors.duplicateProject' })
+    expect(getProjectNameError('WEBSITE', projects, projects[0].id)).toBeNull()
+  })
+})
+
+describe('getTagError', () => {
+  it('should validate the tag length', () => {
+    expect(getTagError('review')).toBeNull()
+    expect(getTagError('')).toEqual({ key: 'validation.required' })
+    expect(getTagError('x'.repeat(31))).toEqual({ key: 'validation.maxLength', params: { max: 30 } })
+  })
+})
+
+describe('useLabels', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should save projects only with valid, unique names', () => {
+    const { saveProject, projects, getProjectName } = useLabels()
+
+    const project = saveProject('Website')!
+    expect(saveProject('website')).toBeNull()
+    expect(saveProject('Website redesign', project.id)).toMatchObject({ name: 'Website redesign' })
+    expect(saveProject('Other', 'missing')).toBeNull()
+
+    expect(projects.value).toHaveLength(1)
+    expect(getProjectName(project.id)).toBe('Website redesign')
+    expect(getProjectName('missing')).toBeNull()
+  })
+
+  it('should select the project and tags for the next work session', () => {
+    const { saveProject, selectedProjectId, selectedTags, tags, deleteProject } = useLabels()
+    const project = saveProject('Website')!
+
+    selectedProjectId.value = project.id
+    selectedTags.value = ['writing', ' writing ']
+    expect(selectedProjectId.value).toBe(project.id)
+    expect(selectedTags.value).toEqual(['writing'])
+    expect(tags.value).toEqual(['writing'])
+
+    deleteProject(project.id)
+    expect(selectedProjectId.value).toBeNull()
+  })
+})
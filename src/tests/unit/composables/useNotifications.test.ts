@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ref } from 'vue'
+import { setActivePinia, createPinia } from 'pinia'
+import { useNotifications } from '../../../composables/useNotifications'
+import { useNotificationStore } from '../../../stores/notification'
+import type { NotificationSettings } from '../../../types'
+
+/**
+ * Web Notification APIのモック
+ * 生成された通知を記録し、許可状態を切り替えられるようにする
+ */
+class MockNotification {
+  static permission: NotificationPermission = 'default'
+  static requestPermission = vi.fn(async () => MockNotification.permission)
+  static instances: MockNotification[] = []
+
+  onclick: (() => void) | null = null
+  close = vi.fn()
+
+  constructor(public title: string, public options: NotificationOptions) {
+    MockNotification.instances.push(this)
+  }
+}
+
+describe('useNotifications', () => {
+  const settings = ref<NotificationSettings>({ visual: true, audio: true, sound: 'bell', volume: 70 })
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    settings.value = { visual: true, audio: true, sound: 'bell', volume: 70 }
+    MockNotification.permission = 'default'
+    MockNotification.instances = []
+    MockNotification.requestPermission.mockClear()
+    vi.stubGlobal('Notification', MockNotification)
+    vi.spyOn(document, 'hasFocus').mockReturnValue(false)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('Permission', () => {
+    it('should request permission when not yet decided', async () => {
+      MockNotification.requestPermission.mockImplementationOnce(async () => 'granted')
+      const { requestPermission, permission } = useNotifications(settings)
+
+      const result = await requestPermission()
+
+      expect(MockNotification.requestPermission).toHaveBeenCalledTimes(1)
+      expect(result).toBe('granted')
+      expect(permission.value).toBe('granted')
+    })
+
+    it('should not request permission when visual notifications are disabled', async () => {
+      settings.value.visual = false
+      const { requestPermission } = useNotifications(settings)
+
+      await requestPermission()
+
+      expect(MockNotification.requestPermission).not.toHaveBeenCalled()
+    })
+
+    it('should not ask again once the user has answered', async () => {
+      MockNotification.permission = 'denied'
+      const { requestPermission } = useNotifications(settings)
+
+      const result = await requestPermission()
+
+      expect(MockNotification.requestPermission).not.toHaveBeenCalled()
+      expect(result).toBe('denied')
+    })
+
+    it('should report unsupported browsers', async () => {
+      vi.unstubAllGlobals()
+      const original = Object.getOwnPropertyDescriptor(window, 'Notification')
+      // @ts-expect-error - simulate a browser without the Notification API
+      delete window.Notification
+
+      const { requestPermission, permission } = useNotifications(settings)
+
+      expect(permission.value).toBe('unsupported')
+      expect(await requestPermission()).toBe('unsupported')
+
+      if (original) {
+        Object.defineProperty(window, 'Notification', original)
+      }
+    })
+  })
+
+  describe('Delivery', () => {
+    it('should show a system notification when granted and the tab is not focused', () => {
+      MockNotification.permission = 'granted'
+      const { notify } = useNotifications(settings)
+
+      const delivery = notify('Session Complete!', 'Time for a break.')
+
+      expect(delivery).toBe('system')
+      expect(MockNotification.instances).toHaveLength(1)
+      expect(MockNotification.instances[0].title).toBe('Session Complete!')
+      expect(MockNotification.instances[0].options.body).toBe('Time for a break.')
+    })
+
+    it('should keep system notifications silent so the sound engine is the only audio source', () => {
+      MockNotification.permission = 'granted'
+      const { notify } = useNotifications(settings)
+
+      notify('Session Complete!', 'Time for a break.')
+
+      expect(MockNotification.instances[0].options.silent).toBe(true)
+    })
+
+    it('should fall back to the snackbar when permission is denied', () => {
+      MockNotification.permission = 'denied'
+      const { notify } = useNotifications(settings)
+      const store = useNotificationStore()
+
+      const delivery = notify('Session Complete!', 'Time for a break.')
+
+      expect(delivery).toBe('in_app')
+      expect(MockNotification.instances).toHaveLength(0)
+      expect(store.isSnackbarVisible).toBe(true)
+      expect(store.snackbar.message).toBe('Time for a break.')
+    })
+
+    it('should use the snackbar while the tab is focused', () => {
+      MockNotification.permission = 'granted'
+      vi.spyOn(document, 'hasFocus').mockReturnValue(true)
+      const { notify } = useNotifications(settings)
+
+      const delivery = notify('Session Complete!', 'Time for a break.')
+
+      expect(delivery).toBe('in_app')
+      expect(MockNotification.instances).toHaveLength(0)
+    })
+
+    it('should not notify when visual notifications are disabled', () => {
+      MockNotification.permission = 'granted'
+      settings.value.visual = false
+      const { notify } = useNotifications(settings)
+      const store = useNotificationStore()
+
+      const delivery = notify('Session Complete!', 'Time for a break.')
+
+      expect(delivery).toBe('none')
+      expect(MockNotification.instances).toHaveLength(0)
+      expect(store.isSnackbarVisible).toBe(false)
+    })
+  })
+
+  it('should choose the message for each transition', () => {
+    const { getTransitionMessageKey } = useNotifications(settings)
+
+    expect(getTransitionMessageKey('work', 'shortBreak')).toBe('notifications.workSessionComplete')
+    expect(getTransitionMessageKey('work', 'longBreak')).toBe('notifications.longBreakEarned')
+    expect(getTransitionMessageKey('shortBreak', 'work')).toBe('notifications.breakComplete')
+    expect(getTransitionMessageKey('longBreak', 'work')).toBe('notifications.breakComplete')
+  })
+})
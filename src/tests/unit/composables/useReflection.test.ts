@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useReflection, getReflectionErrors, toReflectionInput } from '../../../composables/useReflection'
+import { useTimerStore } from '../../../stores/timer'
+import type { PomodoroSession } from '../../../types'
+
+/** 振り返りの対象のセッション */
+const SESSION: PomodoroSession = {
+  id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+  type: 'work',
+  duration: 1500,
+  startTime: '2025-03-01T09:00:00.000Z',
+  endTime: '2025-03-01T09:25:00.000Z',
+  completed: true,
+  interrupted: false
+}
+
+describe('getReflectionErrors', () => {
+  it('should report errors per field', () => {
+    expect(getReflectionErrors({ note: '', focusRating: null })).toEqual({})
+    expect(getReflectionErrors({ note: 'x'.repeat(501), focusRating: 6 })).toEqual({
+      note: { key: 'validation.maxLength', params: { max: 500 } },
+      focusRating: { key: 'validation.max', params: { max: 5 } }
+    })
+    expect(getReflectionErrors({ note: 'ok', focusRating: 2.5 })).toEqual({
+      focusRating: { key: 'validation.integer' }
+    })
+  })
+})
+
+describe('toReflectionInput', () => {
+  it('should fill the form from the recorded reflection', () => {
+    expect(toReflectionInput(null)).toEqual({ note: '', focusRating: null })
+    expect(toReflectionInput({ ...SESSION, note: 'Done', focusRating: 3 })).toEqual({ note: 'Done', focusRating: 3 })
+  })
+})
+
+describe('useReflection', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should save a valid reflection on the session', () => {
+    useTimerStore().addSessionToHistory(SESSION)
+    const { saveReflection, getSession } = useReflection()
+
+    expect(saveReflection(SESSION.id, { note: '  Drafted the intro  ', focusRating: 4 })).toEqual({
+      note: 'Drafted the intro',
+      focusRating: 4
+    })
+    expect(getSession(SESSION.id)).toMatchObject({ note: 'Drafted the intro', focusRating: 4 })
+  })
+
+  it('should reject invalid input and unknown sessions', () => {
+    useTimerStore().addSessionToHistory(SESSION)
+    const { saveReflection, getSession } = useReflection()
+
+    expect(saveReflection(SESSION.id, { note: '', focusRating: 0 })).toBeNull()
+    expect(saveReflection('missing', { note: 'Done', focusRating: null })).toBeNull()
+    expect(getSession(SESSION.id)).toEqual(SESSION)
+    expect(getSession('missing')).toBeNull()
+  })
+})
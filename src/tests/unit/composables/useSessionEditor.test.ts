@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import {
+  useSessionEditor,
+  getSessionEntryErrors,
+  toSessionEntryInput,
+  type SessionEntryContext
+} from '../../../composables/useSessionEditor'
+import { useTimerStore } from '../../../stores/timer'
+import type { PomodoroSession, SessionEntryInput } from '../../../types'
+
+/** 09:00から09:25まで（ローカルタイム）の作業セッション */
+const SESSION: PomodoroSession = {
+  id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+  type: 'work',
+  duration: 1500,
+  startTime: new Date(2025, 2, 1, 9, 0).toISOString(),
+  endTime: new Date(2025, 2, 1, 9, 25).toISOString(),
+  completed: true,
+  interrupted: false
+}
+
+/** 10:00から10:25まで（ローカルタイム）の入力 */
+const INPUT: SessionEntryInput = {
+  type: 'work',
+  start: '2025-03-01T10:00',
+  end: '2025-03-01T10:25',
+  completed: true,
+  taskId: null,
+  projectId: null,
+  tags: []
+}
+
+/** 翌日の現在時刻 */
+const NOW = new Date(2025, 2, 2, 12, 0).getTime()
+
+const CONTEXT: SessionEntryContext = { sessions: [SESSION], base: null, duration: 1500, now: NOW }
+
+describe('getSessionEntryErrors', () => {
+  it('should accept a valid entry', () => {
+    expect(getSessionEntryErrors(INPUT, CONTEXT)).toEqual({})
+  })
+
+  it('should report missing or invalid fields', () => {
+    expect(getSessionEntryErrors({ ...INPUT, start: '', end: 'soon' }, CONTEXT)).toEqual({
+      start: { key: 'validation.required' },
+      end: { key: 'validation.invalidFormat' }
+    })
+    expect(getSessionEntryErrors({ ...INPUT, tags: ['x'.repeat(31)], taskId: 'task' }, CONTEXT)).toEqual({
+      tags: { key: 'validation.maxLength', params: { max: 30 } },
+      taskId: { key: 'validation.invalidFormat' }
+    })
+  })
+
+  it('should reject reversed, future and overlapping ranges', () => {
+    expect(getSessionEntryErrors({ ...INPUT, end: '2025-03-01T09:55' }, CONTEXT)).toEqual({
+      end: { key: 'sessionEntry.errors.endBeforeStart' }
+    })
+    expect(getSessionEntryErrors({ ...INPUT, end: '2025-03-02T12:30' }, CONTEXT)).toEqual({
+      end: { key: 'sessionEntry.errors.future' }
+    })
+    expect(getSessionEntryErrors({ ...INPUT, start: '2025-03-01T09:20' }, CONTEXT)).toEqual({
+      start: { key: 'sessionEntry.errors.overlap' },
+      end: { key: 'sessionEntry.errors.overlap' }
+    })
+    // A session does not overlap itself while being edited
+    expect(getSessionEntryErrors(
+      { ...INPUT, start: '2025-03-01T09:05', end: '2025-03-01T09:30' },
+      { ...CONTEXT, base: SESSION }
+    )).toEqual({})
+  })
+})
+
+describe('toSessionEntryInput', () => {
+  it('should fill the form from a session or default to a work session ending now', () => {
+    expect(toSessionEntryInput({ ...SESSION, tags: ['deep'] }, NOW, 1500)).toEqual({
+      type: 'work',
+      start: '2025-03-01T09:00',
+      end: '2025-03-01T09:25',
+      completed: true,
+      taskId: null,
+      projectId: null,
+      tags: ['deep']
+    })
+    expect(toSessionEntryInput(null, NOW, 1500)).toMatchObject({
+      type: 'work',
+      start: '2025-03-02T11:35',
+      end: '2025-03-02T12:00',
+      completed: true
+    })
+  })
+})
+
+describe('useSessionEditor', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should add a manual session and recompute the stats', () => {
+    const store = useTimerStore()
+    store.addSessionToHistory(SESSION)
+    const { saveSession } = useSessionEditor()
+
+    const saved = saveSession(INPUT, null, NOW)
+    expect(saved).toMatchObject({ type: 'work', duration: 1500, manual: true, completed: true, focusSeconds: 1500 })
+    expect(store.history.sessions).toHaveLength(2)
+    expect(store.history.stats).toMatchObject({ totalSessions: 2, totalWorkTime: 3000 })
+
+    expect(saveSession({ ...INPUT, start: '2025-03-01T10:10', end: '2025-03-01T10:40' }, null, NOW)).toBeNull()
+    expect(store.history.sessions).toHaveLength(2)
+  })
+
+  it('should treat the open session as running until now', () => {
+    const store = useTimerStore()
+    store.startSession({
+      ...SESSION,
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02',
+      startTime: new Date(2025, 2, 2, 11, 50).toISOString(),
+      endTime: '',
+      completed: false
+    })
+    const { getErrors } = useSessionEditor()
+
+    expect(getErrors({ ...INPUT, start: '2025-03-02T11:40', end: '2025-03-02T11:55' }, null, NOW)).toEqual({
+      start: { key: 'sessionEntry.errors.overlap' },
+      end: { key: 'sessionEntry.errors.overlap' }
+    })
+  })
+
+  it('should edit and delete a recorded session', () => {
+    const store = useTimerStore()
+    store.addSessionToHistory(SESSION)
+    const { createEntryInput, saveSession, deleteSession } = useSessionEditor()
+
+    const input = createEntryInput(SESSION.id, NOW)
+    const saved = saveSession({ ...input, type: 'shortBreak', completed: false }, SESSION.id, NOW)
+    expect(saved).toMatchObject({ id: SESSION.id, type: 'shortBreak', duration: 300, interrupted: true })
+    expect(store.history.sessions).toEqual([saved])
+    expect(store.history.stats.totalWorkTime).toBe(0)
+    expect(saveSession(input, '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b09', NOW)).toBeNull()
+
+    expect(deleteSession(SESSION.id)).toBe(true)
+    expect(store.history.sessions).toEqual([])
+  })
+})
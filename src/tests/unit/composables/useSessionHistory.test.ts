@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { setActivePinia, createPinia } from 'pinia'
+import { useSessionHistory, filterSessions } from '../../../composables/useSessionHistory'
+import { useTimerStore } from '../../../stores/timer'
+import { createSession, sessionId } from '../../helpers/session'
+
+/** 履歴に保存するセッションのID（読み込み時にUUIDとして検証される） */
+const ID = {
+  today: sessionId(1),
+  week: sessionId(2),
+  month: sessionId(3),
+  older: sessionId(4),
+  new: sessionId(5)
+}
+
+describe('filterSessions', () => {
+  const now = new Date()
+  const sessions = [
+    createSession({ id: '1', start: now }),
+    createSession({ id: '2', start: now, completed: false }),
+    createSession({ id: '3', type: 'shortBreak', start: now }),
+    createSession({ id: '4', type: 'longBreak', start: now, completed: false })
+  ]
+
+  it('should keep every session without filters', () => {
+    expect(filterSessions(sessions, { type: 'all', status: 'all' })).toHaveLength(4)
+  })
+
+  it('should filter by session type', () => {
+    const result = filterSessions(sessions, { type: 'work', status: 'all' })
+    expect(result.map(session => session.id)).toEqual(['1', '2'])
+  })
+
+  it('should filter by completed and interrupted status', () => {
+    expect(filterSessions(sessions, { type: 'all', status: 'completed' }).map(session => session.id)).toEqual(['1', '3'])
+    expect(filterSessions(sessions, { type: 'all', status: 'interrupted' }).map(session => session.id)).toEqual(['2', '4'])
+  })
+
+  it('should combine type and status filters', () => {
+    const result = filterSessions(sessions, { type: 'longBreak', status: 'interrupted' })
+    expect(result.map(session => session.id)).toEqual(['4'])
+  })
+
+  it('should filter by project and tag', () => {
+    const projectId = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1'
+    const labelled = [
+      createSession({ id: '1', start: now, projectId, tags: ['writing'] }),
+      createSession({ id: '2', start: now, projectId }),
+      createSession({ id: '3', start: now, tags: ['writing', 'review'] })
+    ]
+
+    expect(filterSessions(labelled, { type: 'all', status: 'all', projectId }).map(session => session.id)).toEqual(['1', '2'])
+    expect(filterSessions(labelled, { type: 'all', status: 'all', tag: 'writing' }).map(session => session.id)).toEqual(['1', '3'])
+    expect(filterSessions(labelled, { type: 'all', status: 'all', projectId, tag: 'writing' }).map(session => session.id)).toEqual(['1'])
+  })
+
+  it('should search reflection notes regardless of case', () => {
+    const noted = [
+      createSession({ id: '1', start: now, note: 'Fixed the Login bug' }),
+      createSession({ id: '2', start: now, note: 'Wrote docs' }),
+      createSession({ id: '3', start: now })
+    ]
+
+    expect(filterSessions(noted, { type: 'all', status: 'all', query: ' login ' }).map(session => session.id)).toEqual(['1'])
+    expect(filterSessions(noted, { type: 'all', status: 'all', query: '' })).toHaveLength(3)
+  })
+})
+
+describe('useSessionHistory', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 2, 20, 12, 0, 0))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * 今日・3日前・今月初め・先月のセッションを履歴に追加する
+   */
+  const seedHistory = () => {
+    const store = useTimerStore()
+    store.addSessionToHistory(createSession({ id: ID.today, start: new Date(2025, 2, 20, 9, 0) }))
+    store.addSessionToHistory(createSession({ id: ID.week, type: 'shortBreak', start: new Date(2025, 2, 17, 9, 0), completed: false }))
+    store.addSessionToHistory(createSession({ id: ID.month, start: new Date(2025, 2, 2, 9, 0) }))
+    store.addSessionToHistory(createSession({ id: ID.older, type: 'longBreak', start: new Date(2025, 1, 10, 9, 0) }))
+    return store
+  }
+
+  it('should list all sessions newest first by default', () => {
+    seedHistory()
+    const { sessions, completedCount } = useSessionHistory()
+
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today, ID.week, ID.month, ID.older])
+    expect(completedCount.value).toBe(3)
+  })
+
+  it('should narrow the list by period', () => {
+    seedHistory()
+    const { filters, sessions } = useSessionHistory()
+
+    filters.value.period = 'today'
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today])
+
+    filters.value.period = 'thisWeek'
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today, ID.week])
+
+    filters.value.period = 'thisMonth'
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today, ID.week, ID.month])
+  })
+
+  it('should combine the period with type and status filters', () => {
+    seedHistory()
+    const { filters, sessions, resetFilters } = useSessionHistory()
+
+    filters.value = { period: 'thisMonth', type: 'work', status: 'completed', projectId: null, tag: null, query: '' }
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today, ID.month])
+
+    resetFilters()
+    expect(sessions.value).toHaveLength(4)
+  })
+
+  it('should reflect sessions recorded after the list was opened', () => {
+    const store = seedHistory()
+    const { sessions } = useSessionHistory()
+
+    store.addSessionToHistory(createSession({ id: ID.new, start: new Date(2025, 2, 20, 11, 0) }))
+
+    expect(sessions.value[0].id).toBe(ID.new)
+  })
+
+  it('should drill into a single day picked on the heatmap', () => {
+    seedHistory()
+    const { filters, sessions, selectedDay, selectDay, clearDay } = useSessionHistory()
+    filters.value.period = 'today'
+
+    selectDay('2025-03-17')
+    expect(sessions.value.map(session => session.id)).toEqual([ID.week])
+
+    clearDay()
+    expect(selectedDay.value).toBeNull()
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today])
+  })
+
+  it('should leave the selected day when another period is chosen', async () => {
+    seedHistory()
+    const { filters, selectedDay, selectDay } = useSessionHistory()
+
+    selectDay('2025-03-17')
+    filters.value.period = 'thisMonth'
+    await nextTick()
+
+    expect(selectedDay.value).toBeNull()
+  })
+
+  it('should select a session for the detail view', () => {
+    seedHistory()
+    const { selectedSession, selectSession, clearSelection } = useSessionHistory()
+
+    selectSession(ID.week)
+    expect(selectedSession.value?.type).toBe('shortBreak')
+
+    clearSelection()
+    expect(selectedSession.value).toBeNull()
+  })
+
+  it('should clear the history and close the detail view', () => {
+    const store = seedHistory()
+    const { hasHistory, selectedSession, selectSession, clearHistory } = useSessionHistory()
+    selectSession(ID.today)
+
+    clearHistory()
+
+    expect(store.history.sessions).toHaveLength(0)
+    expect(hasHistory.value).toBe(false)
+    expect(selectedSession.value).toBeNull()
+    expect(JSON.parse(localStorage.getItem('pomodoro-history')!).data.sessions).toEqual([])
+  })
+
+  it('should move today\'s stats and list to the new day after midnight', () => {
+    seedHistory()
+    const { filters, sessions, stats } = useSessionHistory()
+    filters.value.period = 'today'
+    expect(stats.value.todayPomodoros).toBe(1)
+    expect(sessions.value.map(session => session.id)).toEqual([ID.today])
+
+    vi.advanceTimersByTime(12 * 60 * 60 * 1000)
+
+    expect(stats.value.todayPomodoros).toBe(0)
+    expect(sessions.value).toEqual([])
+  })
+
+  it('should refresh the stats when the page becomes visible again', () => {
+    seedHistory()
+    const { stats } = useSessionHistory()
+    expect(stats.value.todayPomodoros).toBe(1)
+
+    // A suspended tab may miss the midnight timer, so only the clock moves here
+    vi.setSystemTime(new Date(2025, 2, 21, 8, 0, 0))
+    document.dispatchEvent(new Event('visibilitychange'))
+
+    expect(stats.value.todayPomodoros).toBe(0)
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { effectScope, type EffectScope } from 'vue'
+import { useSettingsForm, getSettingsFieldErrors, getCyclePlanErrors } from '../../../composables/useSettingsForm'
+import { DefaultPomodoroSettings } from '../../../types'
+import { createCyclePlan } from '../../../utils/cyclePlans'
+
+describe('getSettingsFieldErrors', () => {
+  it('should return no errors for valid settings', () => {
+    expect(getSettingsFieldErrors(new DefaultPomodoroSettings())).toEqual({})
+  })
+
+  it('should map range errors to translatable keys with their limits', () => {
+    const errors = getSettingsFieldErrors({
+      ...new DefaultPomodoroSettings(),
+      workDuration: 0,
+      sessionsBeforeLongBreak: 11
+    })
+
+    expect(errors.workDuration).toEqual({ key: 'validation.min', params: { min: 1 } })
+    expect(errors.sessionsBeforeLongBreak).toEqual({ key: 'validation.max', params: { max: 10 } })
+  })
+
+  it('should report empty and fractional numbers', () => {
+    const errors = getSettingsFieldErrors({
+      ...new DefaultPomodoroSettings(),
+      shortBreakDuration: '',
+      autoStartDelay: 2.5
+    })
+
+    expect(errors.shortBreakDuration).toEqual({ key: 'validation.number' })
+    expect(errors.autoStartDelay).toEqual({ key: 'validation.integer' })
+  })
+
+  it('should key nested errors by their full path', () => {
+    const defaults = new DefaultPomodoroSettings()
+    const errors = getSettingsFieldErrors({
+      ...defaults,
+      notifications: { ...defaults.notifications, volume: 150 },
+      theme: 'sepia',
+      language: 'english'
+    })
+
+    expect(errors['notifications.volume']).toEqual({ key: 'validation.max', params: { max: 100 } })
+    expect(errors.theme).toEqual({ key: 'validation.invalidOption' })
+    expect(errors.language).toEqual({ key: 'validation.invalidFormat' })
+  })
+})
+
+describe('getCyclePlanErrors', () => {
+  it('should return no errors for a valid plan', () => {
+    expect(getCyclePlanErrors(createCyclePlan('ultradian', () => 'Plan'))).toEqual({})
+  })
+
+  it('should key interval errors by their index', () => {
+    const plan = createCyclePlan('fiftyTwoSeventeen', () => 'Plan')
+    plan.intervals[1] = { ...plan.intervals[1], name: ' ', duration: 180 }
+
+    const errors = getCyclePlanErrors(plan)
+
+    expect(errors['intervals.1.name']).toEqual({ key: 'validation.required' })
+    expect(errors['intervals.1.duration']).toEqual({ key: 'validation.max', params: { max: 120 } })
+  })
+})
+
+describe('useSettingsForm', () => {
+  let scope: EffectScope
+
+  beforeEach(() => {
+    localStorage.clear()
+    scope = effectScope()
+  })
+
+  afterEach(() => {
+    scope.stop()
+    vi.restoreAllMocks()
+  })
+
+  it('should edit a draft without changing the saved settings', () => {
+    const form = scope.run(() => useSettingsForm())!
+
+    form.draft.value.workDuration = 50
+
+    expect(form.isDirty.value).toBe(true)
+    expect(form.settings.value.workDuration).toBe(25)
+    expect(localStorage.getItem('pomodoro-settings')).toBeNull()
+  })
+
+  it('should save a valid draft', () => {
+    const form = scope.run(() => useSettingsForm())!
+
+    form.draft.value.workDuration = 50
+    form.draft.value.notifications.volume = 40
+
+    expect(form.save()).toBe(true)
+    expect(form.isDirty.value).toBe(false)
+    const stored = JSON.parse(localStorage.getItem('pomodoro-settings')!).data
+    expect(stored.workDuration).toBe(50)
+    expect(stored.notifications.volume).toBe(40)
+  })
+
+  it('should not save a draft with validation errors', () => {
+    const form = scope.run(() => useSettingsForm())!
+
+    form.draft.value.longBreakDuration = 500
+
+    expect(form.isValid.value).toBe(false)
+    expect(form.getFieldError('longBreakDuration')).toEqual({ key: 'validation.max', params: { max: 120 } })
+    expect(form.save()).toBe(false)
+    expect(localStorage.getItem('pomodoro-settings')).toBeNull()
+  })
+
+  it('should reset the settings and the draft to defaults', () => {
+    localStorage.setItem('pomodoro-settings', JSON.stringify({ ...new DefaultPomodoroSettings(), workDuration: 40 }))
+    const form = scope.run(() => useSettingsForm())!
+    expect(form.draft.value.workDuration).toBe(40)
+
+    expect(form.reset()).toBe(true)
+
+    expect(form.draft.value.workDuration).toBe(25)
+    expect(JSON.parse(localStorage.getItem('pomodoro-settings')!).data.workDuration).toBe(25)
+  })
+
+  it('should discard unsaved changes', () => {
+    const form = scope.run(() => useSettingsForm())!
+
+    form.draft.value.theme = 'dark'
+    form.discard()
+
+    expect(form.draft.value.theme).toBe('system')
+    expect(form.isDirty.value).toBe(false)
+  })
+
+  it('should expose a translatable key for storage errors', () => {
+    const form = scope.run(() => useSettingsForm())!
+    const quotaError = Object.assign(new Error('full'), { name: 'QuotaExceededError' })
+    vi.spyOn(localStorage, 'setItem').mockImplementation((key: string) => {
+      if (key === 'pomodoro-settings') throw quotaError
+    })
+
+    form.draft.value.workDuration = 30
+
+    expect(form.save()).toBe(false)
+    expect(form.storageErrorKey.value).toBe('settings.storageErrors.quotaExceeded')
+
+    form.clearStorageError()
+    expect(form.storageErrorKey.value).toBeNull()
+  })
+  it('should keep the valid stored settings and report the invalid ones', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    localStorage.setItem('pomodoro-settings', JSON.stringify({
+      version: 1,
+      data: { ...new DefaultPomodoroSettings(), workDuration: 40, theme: 'neon' }
+    }))
+
+    const form = scope.run(() => useSettingsForm())!
+
+    expect(form.draft.value.workDuration).toBe(40)
+    expect(form.draft.value.theme).toBe('system')
+    expect(form.storageErrorKey.value).toBe('settings.storageErrors.invalidData')
+    expect(Object.keys(localStorage).some(key => key.startsWith('pomodoro-settings-backup-'))).toBe(true)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { effectScope, type EffectScope } from 'vue'
+import {
+  useSettingsPresets,
+  getPresetNameError,
+  matchesTiming,
+  resolveTiming,
+  DEFAULT_PRESET_ID
+} from '../../../composables/useSettingsPresets'
+import { useTimerSettings } from '../../../composables/useTimerSettings'
+import { DefaultPomodoroSettings, MAX_SETTINGS_PRESETS } from '../../../types'
+import type { SettingsPreset } from '../../../types'
+import { createCyclePlan } from '../../../utils/cyclePlans'
+
+/** 50分の作業と10分の休憩を3回繰り返すプリセット */
+const DEEP_WORK: SettingsPreset = {
+  id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+  name: 'Deep work',
+  timing: { workDuration: 50, shortBreakDuration: 10, longBreakDuration: 30, sessionsBeforeLongBreak: 3, activePlanId: null }
+}
+
+/**
+ * 設定をローカルストレージに保存する
+ * @param overrides - デフォルト値から変更する項目
+ */
+const storeSettings = (overrides: Record<string, unknown>) => {
+  localStorage.setItem('pomodoro-settings', JSON.stringify({ version: 1, data: { ...new DefaultPomodoroSettings(), ...overrides } }))
+}
+
+/** ローカルストレージに保存された設定を取得する */
+const getStoredSettings = () => JSON.parse(localStorage.getItem('pomodoro-settings')!).data
+
+describe('getPresetNameError', () => {
+  it('should require a name within the length limit', () => {
+    expect(getPresetNameError('  ', [])).toEqual({ key: 'validation.required' })
+    expect(getPresetNameError('x'.repeat(41), [])).toEqual({ key: 'validation.maxLength', params: { max: 40 } })
+  })
+
+  it('should reject duplicate names regardless of case', () => {
+    expect(getPresetNameError('deep WORK', [DEEP_WORK])).toEqual({ key: 'presets.errors.duplicate' })
+    expect(getPresetNameError('Deep work', [DEEP_WORK], DEEP_WORK.id)).toBeNull()
+  })
+})
+
+describe('resolveTiming / matchesTiming', () => {
+  it('should fall back to the classic cycle when the plan was deleted', () => {
+    const plan = createCyclePlan('ultradian', () => 'Ultradian')
+    const timing = { ...DEEP_WORK.timing, activePlanId: plan.id }
+
+    expect(resolveTiming(timing, [plan]).activePlanId).toBe(plan.id)
+    expect(resolveTiming(timing, []).activePlanId).toBeNull()
+  })
+
+  it('should compare every timing field', () => {
+    const settings = { ...new DefaultPomodoroSettings(), ...DEEP_WORK.timing }
+
+    expect(matchesTiming(settings, DEEP_WORK.timing)).toBe(true)
+    expect(matchesTiming({ ...settings, sessionsBeforeLongBreak: 4 }, DEEP_WORK.timing)).toBe(false)
+  })
+})
+
+describe('useSettingsPresets', () => {
+  let scope: EffectScope
+
+  beforeEach(() => {
+    localStorage.clear()
+    scope = effectScope()
+  })
+
+  afterEach(() => {
+    scope.stop()
+    vi.restoreAllMocks()
+  })
+
+  it('should save the current timing as a preset', () => {
+    storeSettings({ workDuration: 15, shortBreakDuration: 3, theme: 'dark' })
+    const presets = scope.run(() => useSettingsPresets())!
+
+    const preset = presets.savePreset(' Meetings day ')
+
+    expect(preset).toMatchObject({ name: 'Meetings day', timing: { workDuration: 15, shortBreakDuration: 3 } })
+    expect(presets.activePresetId.value).toBe(preset!.id)
+    expect(getStoredSettings().presets).toEqual([preset])
+  })
+
+  it('should not save invalid, duplicate or too many presets', () => {
+    storeSettings({ presets: [DEEP_WORK] })
+    const presets = scope.run(() => useSettingsPresets())!
+
+    expect(presets.savePreset('')).toBeNull()
+    expect(presets.savePreset('deep work')).toBeNull()
+
+    storeSettings({
+      presets: Array.from({ length: MAX_SETTINGS_PRESETS }, (_, index) => ({
+        ...DEEP_WORK,
+        id: `0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8c${String(index).padStart(2, '0')}`,
+        name: `Preset ${index}`
+      }))
+    })
+    const full = scope.run(() => useSettingsPresets())!
+    expect(full.canSavePreset.value).toBe(false)
+    expect(full.savePreset('One more')).toBeNull()
+  })
+
+  it('should switch presets in one call and keep the other settings', () => {
+    storeSettings({ presets: [DEEP_WORK], theme: 'dark' })
+    const presets = scope.run(() => useSettingsPresets())!
+    const { settings } = scope.run(() => useTimerSettings())!
+    expect(presets.activePresetId.value).toBe(DEFAULT_PRESET_ID)
+
+    expect(presets.applyPreset(DEEP_WORK.id)).toBe(true)
+
+    expect(presets.activePresetId.value).toBe(DEEP_WORK.id)
+    expect(settings.value).toMatchObject({ ...DEEP_WORK.timing, theme: 'dark' })
+  })
+
+  it('should restore the built-in default timing', () => {
+    storeSettings({ ...DEEP_WORK.timing, presets: [DEEP_WORK] })
+    const presets = scope.run(() => useSettingsPresets())!
+
+    expect(presets.applyPreset(DEFAULT_PRESET_ID)).toBe(true)
+
+    expect(presets.activePresetId.value).toBe(DEFAULT_PRESET_ID)
+    expect(getStoredSettings()).toMatchObject({ workDuration: 25, shortBreakDuration: 5, presets: [DEEP_WORK] })
+  })
+
+  it('should report no active preset for custom timing', () => {
+    storeSettings({ workDuration: 40 })
+    const presets = scope.run(() => useSettingsPresets())!
+
+    expect(presets.activePresetId.value).toBeNull()
+    expect(presets.applyPreset('0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8bff')).toBe(false)
+  })
+
+  it('should delete a preset', () => {
+    storeSettings({ presets: [DEEP_WORK] })
+    const presets = scope.run(() => useSettingsPresets())!
+
+    expect(presets.deletePreset(DEEP_WORK.id)).toBe(true)
+
+    expect(presets.presets.value).toEqual([])
+    expect(getStoredSettings().presets).toEqual([])
+    expect(presets.deletePreset(DEEP_WORK.id)).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+/**
+ * AudioParamのモック
+ * スケジュールされたゲインの変化を記録する
+ */
+const createMockParam = () => ({
+  setValueAtTime: vi.fn(),
+  linearRampToValueAtTime: vi.fn(),
+  exponentialRampToValueAtTime: vi.fn()
+})
+
+/** オシレーターのモック */
+const createMockOscillator = () => ({
+  type: 'sine' as OscillatorType,
+  frequency: createMockParam(),
+  connect: vi.fn(),
+  start: vi.fn(),
+  stop: vi.fn()
+})
+
+/** ゲインノードのモック */
+const createMockGain = () => ({ gain: createMockParam(), connect: vi.fn() })
+
+/**
+ * Web Audio APIのAudioContextのモック
+ * 生成したオシレーター・ゲインノードを記録し、自動再生制限の状態を切り替えられるようにする
+ */
+class MockAudioContext {
+  static instances: MockAudioContext[] = []
+  static resumeSucceeds = true
+
+  state: AudioContextState = 'suspended'
+  currentTime = 0
+  destination = {}
+  oscillators: Array<ReturnType<typeof createMockOscillator>> = []
+  gains: Array<ReturnType<typeof createMockGain>> = []
+
+  constructor() {
+    MockAudioContext.instances.push(this)
+  }
+
+  resume = vi.fn(async () => {
+    if (MockAudioContext.resumeSucceeds) {
+      this.state = 'running'
+    }
+  })
+
+  createOscillator() {
+    const oscillator = createMockOscillator()
+    this.oscillators.push(oscillator)
+    return oscillator
+  }
+
+  createGain() {
+    const gainNode = createMockGain()
+    this.gains.push(gainNode)
+    return gainNode
+  }
+}
+
+/**
+ * 共有のAudioContextと有効化状態をリセットするため、テストごとにモジュールを読み込み直す
+ */
+const loadSoundEngine = async () => {
+  vi.resetModules()
+  const { useSoundEngine } = await import('../../../composables/useSoundEngine')
+  return useSoundEngine()
+}
+
+describe('useSoundEngine', () => {
+  beforeEach(() => {
+    MockAudioContext.instances = []
+    MockAudioContext.resumeSucceeds = true
+    vi.stubGlobal('AudioContext', MockAudioContext)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('unlock', () => {
+    it('should resume a suspended context and mark audio as unlocked', async () => {
+      const { unlock, isUnlocked } = await loadSoundEngine()
+
+      expect(await unlock()).toBe(true)
+      expect(isUnlocked.value).toBe(true)
+      expect(MockAudioContext.instances[0].resume).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stay locked when the browser refuses to resume', async () => {
+      MockAudioContext.resumeSucceeds = false
+      const { unlock, isUnlocked } = await loadSoundEngine()
+
+      expect(await unlock()).toBe(false)
+      expect(isUnlocked.value).toBe(false)
+    })
+
+    it('should report unsupported browsers', async () => {
+      vi.stubGlobal('AudioContext', undefined)
+      const { unlock, isAudioSupported } = await loadSoundEngine()
+
+      expect(isAudioSupported()).toBe(false)
+      expect(await unlock()).toBe(false)
+    })
+  })
+
+  describe('play', () => {
+    it('should schedule the partials of the selected sound', async () => {
+      const { play } = await loadSoundEngine()
+
+      expect(await play('chime', 100)).toBe(true)
+
+      const context = MockAudioContext.instances[0]
+      expect(context.oscillators).toHaveLength(3)
+      expect(context.oscillators.every(oscillator => oscillator.start.mock.calls.length === 1)).toBe(true)
+      expect(context.gains.every(gainNode => gainNode.connect.mock.calls[0][0] === context.destination)).toBe(true)
+    })
+
+    it('should scale the peak gain with the volume', async () => {
+      const { play } = await loadSoundEngine()
+
+      await play('ding', 100)
+      const context = MockAudioContext.instances[0]
+      const partialCount = context.gains.length
+      await play('ding', 50)
+
+      const loud = context.gains[0]
+      const quiet = context.gains[partialCount]
+      const loudPeak = loud.gain.linearRampToValueAtTime.mock.calls[0][0]
+      const quietPeak = quiet.gain.linearRampToValueAtTime.mock.calls[0][0]
+      expect(quietPeak).toBeCloseTo(loudPeak / 2)
+    })
+
+    it('should not play when the sound is none or the volume is zero', async () => {
+      const { play } = await loadSoundEngine()
+
+      expect(await play('none', 100)).toBe(false)
+      expect(await play('bell', 0)).toBe(false)
+      expect(MockAudioContext.instances).toHaveLength(0)
+    })
+
+    it('should not play while autoplay is still blocked', async () => {
+      MockAudioContext.resumeSucceeds = false
+      const { play } = await loadSoundEngine()
+
+      expect(await play('bell', 70)).toBe(false)
+      expect(MockAudioContext.instances[0].oscillators).toHaveLength(0)
+    })
+  })
+
+  describe('registerUnlockListeners', () => {
+    it('should unlock audio on the first user gesture and remove the listeners', async () => {
+      const removeSpy = vi.spyOn(window, 'removeEventListener')
+      const { registerUnlockListeners, isUnlocked } = await loadSoundEngine()
+
+      registerUnlockListeners()
+      window.dispatchEvent(new Event('pointerdown'))
+      await vi.waitFor(() => expect(isUnlocked.value).toBe(true))
+
+      const removedEvents = removeSpy.mock.calls.map(([event]) => event)
+      expect(removedEvents).toEqual(expect.arrayContaining(['pointerdown', 'keydown', 'touchstart']))
+    })
+
+    it('should keep listening when the gesture did not unlock audio', async () => {
+      MockAudioContext.resumeSucceeds = false
+      const { registerUnlockListeners, isUnlocked } = await loadSoundEngine()
+
+      const removeListeners = registerUnlockListeners()
+      window.dispatchEvent(new Event('keydown'))
+      await vi.waitFor(() => expect(MockAudioContext.instances[0].resume).toHaveBeenCalled())
+
+      MockAudioContext.resumeSucceeds = true
+      window.dispatchEvent(new Event('keydown'))
+      await vi.waitFor(() => expect(isUnlocked.value).toBe(true))
+      removeListeners()
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useTabLeader } from '../../../composables/useTabLeader'
+
+describe('useTabLeader', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should generate a unique id per tab', () => {
+    const tabA = useTabLeader()
+    const tabB = useTabLeader()
+
+    expect(tabA.tabId).toBeTruthy()
+    expect(tabA.tabId).not.toBe(tabB.tabId)
+  })
+
+  it('should take leadership when no leader exists', () => {
+    const tab = useTabLeader()
+
+    expect(tab.isLeader()).toBe(false)
+    expect(tab.maintain(1000)).toBe(true)
+    expect(tab.isLeader()).toBe(true)
+  })
+
+  it('should not take over while the leader is alive', () => {
+    const tabA = useTabLeader()
+    const tabB = useTabLeader()
+
+    tabA.claim(1000)
+
+    expect(tabB.maintain(3000)).toBe(false)
+    expect(tabA.isLeader()).toBe(true)
+  })
+
+  it('should take over when the leader heartbeat stops', () => {
+    const tabA = useTabLeader()
+    const tabB = useTabLeader()
+
+    tabA.claim(1000)
+
+    expect(tabB.maintain(10000)).toBe(true)
+    expect(tabA.isLeader()).toBe(false)
+    expect(tabA.maintain(10500)).toBe(false)
+  })
+
+  it('should keep the heartbeat fresh while leading', () => {
+    const tabA = useTabLeader()
+    const tabB = useTabLeader()
+
+    tabA.claim(1000)
+    tabA.maintain(4000)
+    tabA.maintain(8000)
+
+    expect(tabB.maintain(10000)).toBe(false)
+  })
+
+  it('should release leadership only when leading', () => {
+    const tabA = useTabLeader()
+    const tabB = useTabLeader()
+
+    tabA.claim(1000)
+    tabB.release()
+    expect(tabA.isLeader()).toBe(true)
+
+    tabA.release()
+    expect(tabA.isLeader()).toBe(false)
+    expect(tabB.maintain(2000)).toBe(true)
+  })
+
+  it('should ignore malformed leader data', () => {
+    localStorage.setItem('pomodoro-timer-leader', 'not json')
+    const tab = useTabLeader()
+
+    expect(tab.isLeader()).toBe(false)
+    expect(tab.maintain(1000)).toBe(true)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useTasks, getTaskFieldErrors } from '../../../composables/useTasks'
+import { useTimerStore } from '../../../stores/timer'
+
+describe('getTaskFieldErrors', () => {
+  it('should report errors per field', () => {
+    expect(getTaskFieldErrors({ title: 'Plan', estimatedPomodoros: 2 })).toEqual({})
+    expect(getTaskFieldErrors({ title: ' ', estimatedPomodoros: 21 })).toEqual({
+      title: { key: 'validation.required' },
+      estimatedPomodoros: { key: 'validation.max', params: { max: 20 } }
+    })
+    expect(getTaskFieldErrors({ title: 'x'.repeat(101), estimatedPomodoros: 1.5 })).toEqual({
+      title: { key: 'validation.maxLength', params: { max: 100 } },
+      estimatedPomodoros: { key: 'validation.integer' }
+    })
+  })
+})
+
+describe('useTasks', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should create and edit tasks only with valid input', () => {
+    const { saveTask, taskProgress } = useTasks()
+
+    expect(saveTask({ title: '', estimatedPomodoros: 1 })).toBeNull()
+    const task = saveTask({ title: 'Plan', estimatedPomodoros: 1 })!
+    expect(saveTask({ title: 'Plan sprint', estimatedPomodoros: 2 }, task.id)).toMatchObject({ title: 'Plan sprint' })
+    expect(saveTask({ title: 'Plan', estimatedPomodoros: 1 }, 'missing')).toBeNull()
+
+    expect(taskProgress.value.map(progress => progress.task.title)).toEqual(['Plan sprint'])
+  })
+
+  it('should count pomodoros recorded for each task', () => {
+    const { saveTask, openTaskProgress, completedTaskProgress, completeTask, getTaskTitle } = useTasks()
+    const task = saveTask({ title: 'Plan', estimatedPomodoros: 1 })!
+
+    useTimerStore().addSessionToHistory({
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      completed: true,
+      interrupted: false,
+      taskId: task.id
+    })
+
+    expect(openTaskProgress.value[0]).toMatchObject({ actualPomodoros: 1, overEstimate: false })
+
+    completeTask(task.id)
+    expect(openTaskProgress.value).toHaveLength(0)
+    expect(completedTaskProgress.value[0].task.id).toBe(task.id)
+    expect(getTaskTitle(task.id)).toBe('Plan')
+    expect(getTaskTitle('0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8bff')).toBeNull()
+  })
+
+  it('should toggle the active task', () => {
+    const { saveTask, activeTask, toggleActiveTask } = useTasks()
+    const task = saveTask({ title: 'Plan', estimatedPomodoros: 1 })!
+
+    toggleActiveTask(task.id)
+    expect(activeTask.value?.id).toBe(task.id)
+
+    toggleActiveTask(task.id)
+    expect(activeTask.value).toBeNull()
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { nextTick, ref } from 'vue'
+import { setActivePinia, createPinia } from 'pinia'
 import { useTimer } from '../../../composables/useTimer'
+import { useTimerStore } from '../../../stores/timer'
+import { useTaskStore } from '../../../stores/tasks'
+import { useLabelStore } from '../../../stores/labels'
+import type { CyclePlan } from '../../../types'
 
 // Mock onUnmounted to avoid Vue warnings in tests
 vi.mock('vue', async () => {
@@ -12,6 +18,8 @@ vi.mock('vue', async () => {
 
 describe('useTimer', () => {
   beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
     vi.useFakeTimers()
   })
 
@@ -124,6 +132,32 @@ describe('useTimer', () => {
     expect(session?.id).toBeTruthy()
   })
 
+  it('should link work sessions to the active task', () => {
+    const task = useTaskStore().addTask({ title: 'Write report', estimatedPomodoros: 2 })
+    useTaskStore().setActiveTask(task.id)
+    const timer = useTimer(25, 5, 15)
+
+    expect(timer.createSession()?.taskId).toBe(task.id)
+
+    timer.switchMode('shortBreak')
+    expect(timer.createSession()?.taskId).toBeUndefined()
+  })
+
+  it('should record the selected project and tags on work sessions', () => {
+    const labelStore = useLabelStore()
+    const project = labelStore.addProject('Website')
+    labelStore.selectProject(project.id)
+    labelStore.selectTags(['writing', 'review'])
+    const timer = useTimer(25, 5, 15)
+
+    expect(timer.createSession()).toMatchObject({ projectId: project.id, tags: ['writing', 'review'] })
+
+    timer.switchMode('longBreak')
+    const breakSession = timer.createSession()
+    expect(breakSession?.projectId).toBeUndefined()
+    expect(breakSession?.tags).toBeUndefined()
+  })
+
   it('should advance time when running', () => {
     const timer = useTimer(25, 5, 15)
     
@@ -165,6 +199,7 @@ describe('useTimer', () => {
       })
       
       // Mock crypto.randomUUID if it exists
+      const originalCrypto = Object.getOwnPropertyDescriptor(global, 'crypto')
       const mockCrypto = {
         randomUUID: vi.fn().mockImplementation(() => {
           throw new Error('UUID generation failed')
@@ -184,6 +219,9 @@ describe('useTimer', () => {
       
       // Restore mocks
       Math.random = originalRandom
+      if (originalCrypto) {
+        Object.defineProperty(global, 'crypto', originalCrypto)
+      }
     })
 
     it('should clear timer error', () => {
@@ -199,17 +237,17 @@ describe('useTimer', () => {
       expect(timer.timerError.value).toBeNull()
     })
 
-    it('should mark session as interrupted when paused', () => {
+    it('should keep the session open when paused', () => {
       const timer = useTimer(25, 5, 15)
       
       timer.start()
       expect(timer.currentSession.value).toBeTruthy()
-      expect(timer.currentSession.value?.interrupted).toBe(false)
       
       timer.pause()
       
-      expect(timer.currentSession.value?.interrupted).toBe(true)
-      expect(timer.currentSession.value?.endTime).toBeTruthy()
+      expect(timer.currentSession.value?.interrupted).toBe(false)
+      expect(timer.currentSession.value?.pauses).toEqual([{ start: new Date().toISOString() }])
+      expect(useTimerStore().history.sessions).toHaveLength(0)
     })
 
     it('should handle cleanup on unmount correctly', () => {
@@ -235,4 +273,645 @@ describe('useTimer', () => {
       expect(pauseResult).toBe(true)
     })
   })
-})
\ No newline at end of file
+
+  describe('History Recording', () => {
+    it('should share state with the timer store', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+
+      expect(store.isRunning).toBe(true)
+      expect(store.currentSession?.id).toBeTruthy()
+      expect(store.currentSession?.id).toBe(timer.currentSession.value?.id)
+      expect(store.remainingTime).toBe(1500)
+    })
+
+    it('should record a completed work session on natural completion', () => {
+      const timer = useTimer(1, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].type).toBe('work')
+      expect(store.history.sessions[0].completed).toBe(true)
+      expect(store.history.sessions[0].interrupted).toBe(false)
+      expect(store.history.stats.completedSessions).toBe(1)
+      expect(store.history.stats.totalWorkTime).toBe(60)
+      expect(timer.sessionsCompleted.value).toBe(1)
+      expect(timer.currentMode.value).toBe('shortBreak')
+      expect(timer.timeLeft.value).toBe(300)
+    })
+
+    it('should record exactly one interrupted entry for pause followed by reset', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      vi.advanceTimersByTime(5000)
+      timer.pause()
+      timer.reset()
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].interrupted).toBe(true)
+      expect(store.history.stats.completedSessions).toBe(0)
+      expect(timer.timeLeft.value).toBe(1500)
+    })
+
+    it('should record an interrupted entry when switching modes while running', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      timer.switchMode('longBreak')
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].type).toBe('work')
+      expect(store.history.sessions[0].interrupted).toBe(true)
+      expect(timer.currentSession.value).toBeNull()
+    })
+
+    it('should not record anything when resetting an idle timer', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.reset()
+      timer.switchMode('shortBreak')
+
+      expect(store.history.sessions).toHaveLength(0)
+    })
+
+    it('should resume the same session after a pause', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      const firstId = timer.currentSession.value?.id
+      vi.advanceTimersByTime(10000)
+      timer.pause()
+      vi.setSystemTime(Date.now() + 30000)
+      timer.start()
+
+      expect(timer.currentSession.value?.id).toBe(firstId)
+      expect(timer.timeLeft.value).toBe(1490)
+      expect(timer.currentSession.value?.pausedSeconds).toBe(30)
+      expect(store.history.sessions).toHaveLength(0)
+    })
+
+    it('should record a paused and resumed session as completed with its pauses', () => {
+      const timer = useTimer(1, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      vi.advanceTimersByTime(20000)
+      timer.pause()
+      const pausedAt = new Date().toISOString()
+      vi.setSystemTime(Date.now() + 90000)
+      const resumedAt = new Date().toISOString()
+      timer.start()
+      vi.advanceTimersByTime(40000)
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0]).toMatchObject({
+        completed: true,
+        interrupted: false,
+        pauses: [{ start: pausedAt, end: resumedAt }],
+        pausedSeconds: 90
+      })
+    })
+
+    it('should close the open pause when a paused session is reset', () => {
+      const timer = useTimer(25, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      timer.pause()
+      vi.setSystemTime(Date.now() + 15000)
+      timer.reset()
+
+      expect(store.history.sessions[0].interrupted).toBe(true)
+      expect(store.history.sessions[0].pausedSeconds).toBe(15)
+      expect(store.history.sessions[0].pauses?.[0].end).toBe(store.history.sessions[0].endTime)
+    })
+  })
+
+  describe('Wall Clock Countdown', () => {
+    it('should catch up after throttled or missed ticks', () => {
+      const timer = useTimer(25, 5, 15)
+
+      timer.start()
+      // Simulate a throttled tab: ten minutes pass while no ticks fire
+      vi.setSystemTime(Date.now() + 10 * 60 * 1000)
+      vi.advanceTimersByTime(250)
+
+      expect(timer.timeLeft.value).toBe(900)
+      expect(timer.isRunning.value).toBe(true)
+    })
+
+    it('should complete at the true end time when the end was missed', () => {
+      const timer = useTimer(1, 5, 15)
+      const store = useTimerStore()
+      const startedAt = Date.now()
+
+      timer.start()
+      vi.setSystemTime(startedAt + 5 * 60 * 1000)
+      vi.advanceTimersByTime(250)
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].completed).toBe(true)
+      expect(store.history.sessions[0].endTime).toBe(new Date(startedAt + 60 * 1000).toISOString())
+      expect(timer.currentMode.value).toBe('shortBreak')
+    })
+
+    it('should exclude paused time from the countdown', () => {
+      const timer = useTimer(25, 5, 15)
+
+      timer.start()
+      vi.advanceTimersByTime(10000)
+      timer.pause()
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+      timer.start()
+      vi.advanceTimersByTime(1000)
+
+      expect(timer.timeLeft.value).toBe(1489)
+    })
+
+    it('should complete instead of interrupting when paused after the end time', () => {
+      const timer = useTimer(1, 5, 15)
+      const store = useTimerStore()
+
+      timer.start()
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000)
+      timer.pause()
+
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].completed).toBe(true)
+      expect(store.history.sessions[0].interrupted).toBe(false)
+    })
+
+    it('should sync immediately when the tab becomes visible', () => {
+      const timer = useTimer(25, 5, 15)
+
+      timer.start()
+      vi.setSystemTime(Date.now() + 60 * 1000)
+      document.dispatchEvent(new Event('visibilitychange'))
+
+      expect(timer.timeLeft.value).toBe(1440)
+    })
+  })
+
+  describe('Persistence', () => {
+    /**
+     * ページのリロードを模擬する
+     * 新しいPiniaインスタンスでストアとタイマーを再生成する
+     */
+    const reload = () => {
+      setActivePinia(createPinia())
+      return useTimer(25, 5, 15)
+    }
+
+    it('should resume a running countdown after a reload', async () => {
+      const timer = useTimer(25, 5, 15)
+      timer.start()
+      const sessionId = timer.currentSession.value?.id
+      vi.advanceTimersByTime(60000)
+      await nextTick()
+
+      // Five minutes pass while the page is closed
+      vi.setSystemTime(Date.now() + 5 * 60 * 1000)
+      const restored = reload()
+
+      expect(restored.isRunning.value).toBe(true)
+      expect(restored.currentSession.value?.id).toBe(sessionId)
+      expect(restored.timeLeft.value).toBe(1140)
+
+      vi.advanceTimersByTime(1000)
+      expect(restored.timeLeft.value).toBe(1139)
+    })
+
+    it('should finalize a session that ended while the page was closed', async () => {
+      const timer = useTimer(25, 5, 15)
+      const startedAt = Date.now()
+      timer.start()
+      await nextTick()
+
+      vi.setSystemTime(startedAt + 60 * 60 * 1000)
+      const restored = reload()
+      const store = useTimerStore()
+
+      expect(restored.isRunning.value).toBe(false)
+      expect(restored.currentMode.value).toBe('shortBreak')
+      expect(restored.sessionsCompleted.value).toBe(1)
+      expect(store.history.sessions).toHaveLength(1)
+      expect(store.history.sessions[0].completed).toBe(true)
+      expect(store.history.sessions[0].endTime).toBe(new Date(startedAt + 25 * 60 * 1000).toISOString())
+    })
+
+    it('should restore the mode and remaining time of a paused timer', async () => {
+      const timer = useTimer(25, 5, 15)
+      timer.switchMode('longBreak')
+      timer.start()
+      vi.advanceTimersByTime(30000)
+      timer.pause()
+      await nextTick()
+
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+      const restored = reload()
+
+      expect(restored.isRunning.value).toBe(false)
+      expect(restored.currentMode.value).toBe('longBreak')
+      expect(restored.timeLeft.value).toBe(870)
+    })
+
+    it('should ignore corrupt persisted state', () => {
+      localStorage.setItem('pomodoro-timer-state', JSON.stringify({ isRunning: 'yes' }))
+
+      const timer = reload()
+
+      expect(timer.isRunning.value).toBe(false)
+      expect(timer.timeLeft.value).toBe(1500)
+      expect(localStorage.getItem('pomodoro-timer-state')).toBeNull()
+    })
+  })
+
+  describe('Cross-tab Synchronization', () => {
+    /**
+     * 別タブとして新しいPiniaインスタンスでタイマーを開く
+     */
+    const openTab = () => {
+      setActivePinia(createPinia())
+      return { timer: useTimer(25, 5, 15), store: useTimerStore() }
+    }
+
+    /**
+     * 他のタブへ配信されるstorageイベントを模擬する
+     */
+    const broadcast = async (...keys: string[]) => {
+      await nextTick()
+      for (const key of keys) {
+        window.dispatchEvent(new StorageEvent('storage', { key, newValue: localStorage.getItem(key) }))
+      }
+      await nextTick()
+    }
+
+    it('should mirror a countdown started in another tab', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+
+      tabA.timer.start()
+      await broadcast('pomodoro-timer-state')
+
+      expect(tabB.timer.isRunning.value).toBe(true)
+      expect(tabB.timer.currentSession.value?.id).toBe(tabA.timer.currentSession.value?.id)
+
+      vi.advanceTimersByTime(60000)
+      expect(tabB.timer.timeLeft.value).toBe(1440)
+    })
+
+    it('should stop the countdown in every tab when paused in one', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+
+      tabA.timer.start()
+      await broadcast('pomodoro-timer-state')
+      vi.advanceTimersByTime(10000)
+      tabB.timer.pause()
+      await broadcast('pomodoro-timer-state', 'pomodoro-history')
+
+      expect(tabA.timer.isRunning.value).toBe(false)
+      expect(tabA.timer.timeLeft.value).toBe(1490)
+      expect(tabA.store.history.sessions).toHaveLength(0)
+      expect(tabA.timer.currentSession.value?.pauses).toHaveLength(1)
+    })
+
+    it('should mirror mode changes made in another tab', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+
+      tabA.timer.switchMode('longBreak')
+      await broadcast('pomodoro-timer-state')
+
+      expect(tabB.timer.currentMode.value).toBe('longBreak')
+      expect(tabB.timer.timeLeft.value).toBe(900)
+    })
+
+    it('should let only the leader tab record a completion', async () => {
+      const tabA = openTab()
+      const tabB = openTab()
+
+      tabA.timer.start()
+      await broadcast('pomodoro-timer-state')
+      vi.advanceTimersByTime(25 * 60 * 1000)
+
+      // The follower waits at zero until the leader's result arrives
+      expect(tabB.timer.isRunning.value).toBe(true)
+      expect(tabB.timer.timeLeft.value).toBe(0)
+
+      await broadcast('pomodoro-timer-state', 'pomodoro-history')
+
+      expect(tabB.timer.isRunning.value).toBe(false)
+      expect(tabB.timer.currentMode.value).toBe('shortBreak')
+      expect(tabA.store.history.sessions).toHaveLength(1)
+      expect(tabB.store.history.sessions).toHaveLength(1)
+      expect(JSON.parse(localStorage.getItem('pomodoro-history') ?? '{}').data.sessions).toHaveLength(1)
+    })
+  })
+
+  describe('Reactive Settings', () => {
+    it('should apply duration changes immediately while idle', async () => {
+      const workDuration = ref(25)
+      const timer = useTimer(workDuration, 5, 15)
+
+      workDuration.value = 50
+      await nextTick()
+
+      expect(timer.timeLeft.value).toBe(3000)
+      expect(timer.formattedTime.value).toBe('50:00')
+    })
+
+    it('should keep the running countdown length and apply changes to the next session', async () => {
+      const workDuration = ref(25)
+      const shortBreakDuration = ref(5)
+      const timer = useTimer(workDuration, shortBreakDuration, 15)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      workDuration.value = 50
+      shortBreakDuration.value = 10
+      await nextTick()
+
+      expect(timer.timeLeft.value).toBe(1440)
+      expect(timer.progress.value).toBe(4)
+
+      vi.advanceTimersByTime(24 * 60 * 1000)
+
+      expect(timer.currentMode.value).toBe('shortBreak')
+      expect(timer.timeLeft.value).toBe(600)
+    })
+
+    it('should keep the paused countdown length until reset', async () => {
+      const workDuration = ref(25)
+      const timer = useTimer(workDuration, 5, 15)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.pause()
+      workDuration.value = 30
+      await nextTick()
+
+      expect(timer.timeLeft.value).toBe(1440)
+
+      timer.reset()
+      expect(timer.timeLeft.value).toBe(1800)
+    })
+
+    it('should follow the configured long break cadence', () => {
+      const sessionsBeforeLongBreak = ref(2)
+      const timer = useTimer(1, 1, 15, sessionsBeforeLongBreak)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      expect(timer.currentMode.value).toBe('shortBreak')
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      expect(timer.sessionsCompleted.value).toBe(2)
+      expect(timer.currentMode.value).toBe('longBreak')
+    })
+
+    it('should accept getters for settings', () => {
+      const settings = ref({ workDuration: 40 })
+      const timer = useTimer(() => settings.value.workDuration, 5, 15)
+
+      expect(timer.timeLeft.value).toBe(2400)
+    })
+  })
+
+  describe('Auto Start', () => {
+    const autoStart = { enabled: true, breaks: true, work: true, delay: 3 }
+
+    it('should start the next session after the grace countdown', () => {
+      const timer = useTimer(1, 1, 15, 4, autoStart)
+      const store = useTimerStore()
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+
+      expect(timer.currentMode.value).toBe('shortBreak')
+      expect(timer.isRunning.value).toBe(false)
+      expect(timer.isAutoStartPending.value).toBe(true)
+      expect(timer.autoStartCountdown.value).toBe(3)
+
+      vi.advanceTimersByTime(1000)
+      expect(timer.autoStartCountdown.value).toBe(2)
+
+      vi.advanceTimersByTime(2000)
+      expect(timer.isRunning.value).toBe(true)
+      expect(timer.isAutoStartPending.value).toBe(false)
+      expect(timer.currentSession.value?.autoStarted).toBe(true)
+
+      vi.advanceTimersByTime(60000)
+      expect(store.history.sessions[1].type).toBe('shortBreak')
+      expect(store.history.sessions[1].autoStarted).toBe(true)
+      expect(store.history.sessions[0].autoStarted).toBeUndefined()
+    })
+
+    it('should respect per-transition auto start settings', () => {
+      const timer = useTimer(1, 1, 15, 4, { ...autoStart, work: false })
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      vi.advanceTimersByTime(3000)
+      expect(timer.isRunning.value).toBe(true)
+
+      vi.advanceTimersByTime(60000)
+      expect(timer.currentMode.value).toBe('work')
+      expect(timer.isAutoStartPending.value).toBe(false)
+
+      vi.advanceTimersByTime(10000)
+      expect(timer.isRunning.value).toBe(false)
+    })
+
+    it('should not auto start when disabled', () => {
+      const timer = useTimer(1, 1, 15, 4, { ...autoStart, enabled: false })
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      vi.advanceTimersByTime(10000)
+
+      expect(timer.isAutoStartPending.value).toBe(false)
+      expect(timer.isRunning.value).toBe(false)
+    })
+
+    it('should cancel a pending auto start', () => {
+      const timer = useTimer(1, 1, 15, 4, autoStart)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.cancelAutoStart()
+      vi.advanceTimersByTime(10000)
+
+      expect(timer.isAutoStartPending.value).toBe(false)
+      expect(timer.autoStartCountdown.value).toBe(0)
+      expect(timer.isRunning.value).toBe(false)
+    })
+
+    it('should start immediately without the auto start mark when started manually', () => {
+      const timer = useTimer(1, 1, 15, 4, autoStart)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.start()
+
+      expect(timer.isRunning.value).toBe(true)
+      expect(timer.isAutoStartPending.value).toBe(false)
+      expect(timer.currentSession.value?.autoStarted).toBeUndefined()
+    })
+
+    it('should cancel a pending auto start when switching modes', () => {
+      const timer = useTimer(1, 1, 15, 4, autoStart)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.switchMode('work')
+      vi.advanceTimersByTime(10000)
+
+      expect(timer.isRunning.value).toBe(false)
+      expect(timer.currentMode.value).toBe('work')
+    })
+  })
+
+  describe('Cycle Plans', () => {
+    /** 10分のウォームアップの後、52分の作業と17分の休憩を繰り返すプラン */
+    const plan: CyclePlan = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      name: 'Warm-up 52/17',
+      intervals: [
+        { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02', name: 'Warm-up', type: 'work', duration: 10, color: '#8e24aa', emoji: '🔥' },
+        { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b03', name: 'Focus', type: 'work', duration: 52, color: '#1976d2', emoji: '🎯' },
+        { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b04', name: 'Break', type: 'shortBreak', duration: 17, color: '#388e3c', emoji: '☕' }
+      ],
+      repeatFrom: 1
+    }
+
+    it('should start with the first interval of the plan', () => {
+      const timer = useTimer(25, 5, 15, 4, undefined, plan)
+
+      expect(timer.currentInterval.value.name).toBe('Warm-up')
+      expect(timer.timeLeft.value).toBe(600)
+    })
+
+    it('should run the intervals in order and skip the warm-up when repeating', () => {
+      const timer = useTimer(25, 5, 15, 4, undefined, plan)
+
+      timer.start()
+      vi.advanceTimersByTime(10 * 60000)
+      expect(timer.currentInterval.value.name).toBe('Focus')
+      expect(timer.timeLeft.value).toBe(52 * 60)
+
+      timer.start()
+      vi.advanceTimersByTime(52 * 60000)
+      expect(timer.currentMode.value).toBe('shortBreak')
+
+      timer.start()
+      vi.advanceTimersByTime(17 * 60000)
+      expect(timer.currentInterval.value.name).toBe('Focus')
+      expect(timer.sessionsCompleted.value).toBe(1)
+      expect(useTimerStore().history.sessions.map(session => session.type)).toEqual(['work', 'work', 'shortBreak'])
+    })
+
+    it('should count completed work sessions from the position in the cycle', () => {
+      const timer = useTimer(1, 1, 1, 2)
+
+      for (const completed of [1, 1, 2, 0]) {
+        timer.start()
+        vi.advanceTimersByTime(60000)
+        expect(timer.sessionsCompleted.value).toBe(completed)
+      }
+    })
+
+    it('should record the interval each session ran', () => {
+      const timer = useTimer(25, 5, 15, 4, undefined, plan)
+
+      timer.start()
+      vi.advanceTimersByTime(10 * 60000)
+
+      expect(useTimerStore().history.sessions[0]).toMatchObject({ type: 'work', intervalId: plan.intervals[0].id, intervalName: 'Warm-up' })
+    })
+
+    it('should not record an interval for the classic cycle', () => {
+      const timer = useTimer(1, 5, 15, 4)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+
+      expect(useTimerStore().history.sessions[0]).not.toHaveProperty('intervalId')
+    })
+
+    it('should switch to a selected interval', () => {
+      const timer = useTimer(25, 5, 15, 4, undefined, plan)
+
+      timer.selectInterval(plan.intervals[2].id)
+
+      expect(timer.currentMode.value).toBe('shortBreak')
+      expect(timer.timeLeft.value).toBe(17 * 60)
+    })
+
+    it('should follow a plan change while idle', async () => {
+      const activePlan = ref<CyclePlan | null>(null)
+      const timer = useTimer(25, 5, 15, 4, undefined, activePlan)
+
+      activePlan.value = plan
+      await nextTick()
+
+      expect(timer.currentInterval.value.name).toBe('Warm-up')
+      expect(timer.timeLeft.value).toBe(600)
+    })
+  })
+
+  describe('Session Complete Handlers', () => {
+    it('should notify handlers with the completed and next modes', () => {
+      const timer = useTimer(1, 1, 15, 2)
+      const handler = vi.fn()
+      timer.onSessionComplete(handler)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.start()
+      vi.advanceTimersByTime(60000)
+      timer.start()
+      vi.advanceTimersByTime(60000)
+
+      expect(handler).toHaveBeenNthCalledWith(1, 'work', 'shortBreak', expect.any(String))
+      expect(handler).toHaveBeenNthCalledWith(2, 'shortBreak', 'work', expect.any(String))
+      expect(handler).toHaveBeenNthCalledWith(3, 'work', 'longBreak', expect.any(String))
+    })
+
+    it('should pass the id of the session recorded in the history', () => {
+      const timer = useTimer(1, 1, 15)
+      const handler = vi.fn()
+      timer.onSessionComplete(handler)
+
+      timer.start()
+      vi.advanceTimersByTime(60000)
+
+      const [recorded] = useTimerStore().history.sessions
+      expect(handler).toHaveBeenCalledWith('work', 'shortBreak', recorded.id)
+    })
+
+    it('should not notify handlers for interrupted sessions', () => {
+      const timer = useTimer(25, 5, 15)
+      const handler = vi.fn()
+      timer.onSessionComplete(handler)
+
+      timer.start()
+      timer.reset()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { effectScope } from 'vue'
 import type { PomodoroSettings } from '~/types'
 
 // Mock localStorage
@@ -392,4 +393,54 @@ describe('useTimerSettings', () => {
       expect(settings.language.value).toBe('ja')
     })
   })
-})
\ No newline at end of file
+
+  describe('Cross-tab Synchronization', () => {
+    it('should apply settings saved in another tab', async () => {
+      const actual = await vi.importActual<typeof import('../../../composables/useTimerSettings')>('../../../composables/useTimerSettings')
+      const scope = effectScope()
+      const settings = scope.run(() => actual.useTimerSettings())!
+
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        workDuration: 50,
+        shortBreakDuration: 10,
+        longBreakDuration: 30,
+        sessionsBeforeLongBreak: 3,
+        autoStartNextSession: false,
+        notifications: { visual: true, audio: true, sound: 'bell' },
+        theme: 'dark',
+        language: 'en'
+      }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'pomodoro-settings' }))
+
+      expect(settings.workDuration.value).toBe(50)
+      expect(settings.sessionsBeforeLongBreak.value).toBe(3)
+
+      // Listeners are removed with the owning scope
+      scope.stop()
+      localStorageMock.getItem.mockReturnValue(null)
+      localStorageMock.getItem.mockClear()
+      window.dispatchEvent(new StorageEvent('storage', { key: 'pomodoro-settings' }))
+      expect(localStorageMock.getItem).not.toHaveBeenCalled()
+    })
+
+    it('should apply settings saved by another instance in the same tab', async () => {
+      const actual = await vi.importActual<typeof import('../../../composables/useTimerSettings')>('../../../composables/useTimerSettings')
+      const scope = effectScope()
+      const [editor, viewer] = scope.run(() => [actual.useTimerSettings(), actual.useTimerSettings()])!
+      const stored = new Map<string, string>()
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => stored.set(key, value))
+      localStorageMock.getItem.mockImplementation((key: string) => stored.get(key) ?? null)
+      localStorageMock.getItem.mockClear()
+
+      expect(editor.updateSettings({ workDuration: 45 })).toBe(true)
+
+      // Only the other instance reloads the saved settings
+      expect(viewer.workDuration.value).toBe(45)
+      expect(localStorageMock.getItem).toHaveBeenCalledTimes(1)
+
+      scope.stop()
+      localStorageMock.setItem.mockReset()
+      localStorageMock.getItem.mockReset()
+    })
+  })
+})
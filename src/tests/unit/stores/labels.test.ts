@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useLabelStore } from '../../../stores/labels'
+
+describe('useLabelStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should create, rename and persist projects', () => {
+    const store = useLabelStore()
+
+    const project = store.addProject('  Website  ')
+    expect(project.name).toBe('Website')
+    expect(store.renameProject(project.id, 'Website redesign')).toBe(true)
+    expect(store.renameProject('missing', 'Other')).toBe(false)
+
+    expect(JSON.parse(localStorage.getItem('pomodoro-labels')!).data.projects).toEqual([
+      { id: project.id, name: 'Website redesign' }
+    ])
+    expect(() => store.addProject(' ')).toThrow()
+  })
+
+  it('should only select known projects and clear the selection when the project is deleted', () => {
+    const store = useLabelStore()
+    const project = store.addProject('Website')
+
+    store.selectProject('0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8bff')
+    expect(store.selectedProjectId).toBeNull()
+
+    store.selectProject(project.id)
+    expect(store.selectedProject?.name).toBe('Website')
+
+    store.deleteProject(project.id)
+    expect(store.projects).toHaveLength(0)
+    expect(store.selectedProjectId).toBeNull()
+  })
+
+  it('should normalize selected tags and register new ones', () => {
+    const store = useLabelStore()
+    store.addTag('review')
+
+    store.selectTags([' writing ', 'writing', '', 'x'.repeat(31), 'review'])
+
+    expect(store.selectedTags).toEqual(['writing', 'review'])
+    expect(store.tags).toEqual(['review', 'writing'])
+  })
+
+  it('should cap the number of selected tags', () => {
+    const store = useLabelStore()
+
+    store.selectTags(Array.from({ length: 12 }, (_, index) => `tag${index}`))
+
+    expect(store.selectedTags).toHaveLength(10)
+  })
+
+  it('should drop a removed tag from the selection', () => {
+    const store = useLabelStore()
+    store.selectTags(['writing', 'review'])
+
+    store.removeTag('writing')
+
+    expect(store.tags).toEqual(['review'])
+    expect(store.selectedTags).toEqual(['review'])
+  })
+
+  it('should restore labels and reload changes from another tab', () => {
+    const project = useLabelStore().addProject('Website')
+    setActivePinia(createPinia())
+    const store = useLabelStore()
+    expect(store.projects).toEqual([project])
+
+    localStorage.setItem('pomodoro-labels', JSON.stringify({
+      version: 0,
+      data: { projects: [], tags: ['review'], selectedProjectId: null, selectedTags: [] }
+    }))
+    store.handleStorageEvent(new StorageEvent('storage', { key: 'pomodoro-labels' }))
+
+    expect(store.projects).toEqual([])
+    expect(store.tags).toEqual(['review'])
+  })
+
+  it('should keep valid labels from partially broken data', () => {
+    localStorage.setItem('pomodoro-labels', JSON.stringify({
+      version: 0,
+      data: {
+        projects: [{ id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1', name: 'Website' }, { id: 'broken', name: '' }],
+        tags: ['review', 42],
+        selectedProjectId: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba2',
+        selectedTags: ['review']
+      }
+    }))
+
+    const store = useLabelStore()
+
+    expect(store.projects.map(project => project.name)).toEqual(['Website'])
+    expect(store.tags).toEqual(['review'])
+    expect(store.selectedProjectId).toBeNull()
+    expect(store.selectedTags).toEqual(['review'])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useTaskStore } from '../../../stores/tasks'
+
+describe('useTaskStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('should create tasks with a UUID and persist them', () => {
+    const store = useTaskStore()
+
+    const task = store.addTask({ title: '  Write report  ', estimatedPomodoros: 3 })
+
+    expect(task).toMatchObject({ title: 'Write report', estimatedPomodoros: 3, completed: false, completedAt: null })
+    expect(task.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(JSON.parse(localStorage.getItem('pomodoro-tasks')!).data.tasks).toEqual([task])
+  })
+
+  it('should reject invalid input', () => {
+    const store = useTaskStore()
+
+    expect(() => store.addTask({ title: ' ', estimatedPomodoros: 1 })).toThrow()
+    expect(() => store.addTask({ title: 'Plan', estimatedPomodoros: 0 })).toThrow()
+    expect(store.tasks).toHaveLength(0)
+  })
+
+  it('should edit, complete and reopen tasks', () => {
+    const store = useTaskStore()
+    const task = store.addTask({ title: 'Plan', estimatedPomodoros: 1 })
+
+    expect(store.updateTask(task.id, { title: 'Plan sprint', estimatedPomodoros: 2 })).toBe(true)
+    expect(store.getTask(task.id)).toMatchObject({ title: 'Plan sprint', estimatedPomodoros: 2 })
+
+    store.completeTask(task.id)
+    expect(store.getTask(task.id)?.completed).toBe(true)
+    expect(store.getTask(task.id)?.completedAt).not.toBeNull()
+
+    store.reopenTask(task.id)
+    expect(store.getTask(task.id)).toMatchObject({ completed: false, completedAt: null })
+  })
+
+  it('should only select open tasks and clear the selection when the task is done', () => {
+    const store = useTaskStore()
+    const task = store.addTask({ title: 'Plan', estimatedPomodoros: 1 })
+
+    store.setActiveTask(task.id)
+    expect(store.activeTask?.id).toBe(task.id)
+
+    store.completeTask(task.id)
+    expect(store.activeTaskId).toBeNull()
+
+    store.setActiveTask(task.id)
+    expect(store.activeTask).toBeNull()
+  })
+
+  it('should clear the selection when the active task is deleted', () => {
+    const store = useTaskStore()
+    const task = store.addTask({ title: 'Plan', estimatedPomodoros: 1 })
+    store.setActiveTask(task.id)
+
+    store.deleteTask(task.id)
+
+    expect(store.tasks).toHaveLength(0)
+    expect(store.activeTaskId).toBeNull()
+  })
+
+  it('should restore tasks and reload changes from another tab', () => {
+    const task = useTaskStore().addTask({ title: 'Plan', estimatedPomodoros: 1 })
+    setActivePinia(createPinia())
+    const store = useTaskStore()
+    expect(store.tasks).toEqual([task])
+
+    localStorage.setItem('pomodoro-tasks', JSON.stringify({ version: 0, data: { tasks: [], activeTaskId: null } }))
+    store.handleStorageEvent(new StorageEvent('storage', { key: 'pomodoro-tasks' }))
+
+    expect(store.tasks).toEqual([])
+  })
+
+  it('should keep valid tasks when the stored list is partly invalid', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const task = useTaskStore().addTask({ title: 'Plan', estimatedPomodoros: 1 })
+    localStorage.setItem('pomodoro-tasks', JSON.stringify({
+      version: 0,
+      data: { tasks: [task, { id: 'broken' }], activeTaskId: 'broken' }
+    }))
+    setActivePinia(createPinia())
+
+    const store = useTaskStore()
+
+    expect(store.tasks).toEqual([task])
+    expect(store.activeTaskId).toBeNull()
+  })
+})
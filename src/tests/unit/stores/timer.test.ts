@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
+import { IDBFactory } from 'fake-indexeddb'
 import { useTimerStore } from '../../../stores/timer'
 import type { PomodoroSession } from '../../../types'
+import { setHistoryStorage } from '../../../utils/historyStorage'
+import { createIndexedDbHistoryStorage } from '../../../utils/indexedDbHistoryStorage'
 
 // Mock localStorage
 const mockLocalStorage = {
@@ -29,7 +32,7 @@ describe('useTimerStore', () => {
     expect(store.isPaused).toBe(false)
     expect(store.remainingTime).toBe(0)
     expect(store.currentSessionType).toBe('work')
-    expect(store.sessionsCompleted).toBe(0)
+    expect(store.cycleIndex).toBe(0)
     expect(store.history.sessions).toEqual([])
     expect(store.history.stats.totalSessions).toBe(0)
     expect(store.history.stats.completedSessions).toBe(0)
@@ -97,6 +100,34 @@ describe('useTimerStore', () => {
     expect(store.isPaused).toBe(false)
   })
 
+  it('should record pause intervals without interrupting the session', () => {
+    const store = useTimerStore()
+    const session: PomodoroSession = {
+      id: '1',
+      type: 'work',
+      duration: 1500,
+      startTime: '2025-03-20T09:00:00.000Z',
+      endTime: '',
+      completed: false,
+      interrupted: false
+    }
+
+    store.startSession(session)
+    store.pauseSession('2025-03-20T09:05:00.000Z')
+    store.pauseSession('2025-03-20T09:05:30.000Z')
+    store.resumeSession('2025-03-20T09:06:00.000Z')
+    store.pauseSession('2025-03-20T09:10:00.000Z')
+    store.resumeSession('2025-03-20T09:10:15.000Z')
+
+    expect(store.currentSession?.interrupted).toBe(false)
+    expect(store.currentSession?.pauses).toEqual([
+      { start: '2025-03-20T09:05:00.000Z', end: '2025-03-20T09:06:00.000Z' },
+      { start: '2025-03-20T09:10:00.000Z', end: '2025-03-20T09:10:15.000Z' }
+    ])
+    expect(store.currentSession?.pausedSeconds).toBe(75)
+    expect(store.history.sessions).toHaveLength(0)
+  })
+
   it('should stop session correctly', () => {
     const store = useTimerStore()
     const session: PomodoroSession = {
@@ -120,7 +151,7 @@ describe('useTimerStore', () => {
     expect(store.history.sessions[0].interrupted).toBe(true)
   })
 
-  it('should complete session correctly', () => {
+  it('should record a paused session only once when stopped afterwards', () => {
     const store = useTimerStore()
     const session: PomodoroSession = {
       id: '1',
@@ -133,19 +164,117 @@ describe('useTimerStore', () => {
     }
     
     store.startSession(session)
+    store.pauseSession()
+    store.stopSession()
     store.completeSession()
     
+    expect(store.history.sessions).toHaveLength(1)
+    expect(store.history.sessions[0].interrupted).toBe(true)
+    expect(store.history.stats.totalSessions).toBe(1)
+    expect(store.history.stats.completedSessions).toBe(0)
+  })
+
+  it('should complete session correctly', () => {
+    const store = useTimerStore()
+    const session: PomodoroSession = {
+      id: '1',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: '',
+      completed: false,
+      interrupted: false
+    }
+    
+    store.startSession(session)
+    store.completeSession(new Date(Date.parse(session.startTime) + 1500 * 1000).toISOString())
+    
     expect(store.currentSession).toBe(null)
     expect(store.isRunning).toBe(false)
     expect(store.isPaused).toBe(false)
     expect(store.remainingTime).toBe(0)
     expect(store.history.sessions).toHaveLength(1)
     expect(store.history.sessions[0].completed).toBe(true)
-    expect(store.sessionsCompleted).toBe(1)
     expect(store.history.stats.completedSessions).toBe(1)
     expect(store.history.stats.totalWorkTime).toBe(1500)
   })
 
+  it('should record the actual focused time instead of the planned duration', () => {
+    const store = useTimerStore()
+    const startTime = '2025-03-20T09:00:00.000Z'
+    store.startSession({
+      id: '1',
+      type: 'work',
+      duration: 1500,
+      startTime,
+      endTime: '',
+      completed: false,
+      interrupted: false
+    })
+    store.pauseSession('2025-03-20T09:10:00.000Z')
+    store.resumeSession('2025-03-20T09:12:00.000Z')
+    store.stopSession()
+
+    const [recorded] = store.history.sessions
+    expect(recorded.pausedSeconds).toBe(120)
+    expect(recorded.focusSeconds).toBe(Math.round((Date.parse(recorded.endTime) - Date.parse(startTime)) / 1000) - 120)
+    expect(store.history.stats.totalWorkTime).toBe(recorded.focusSeconds)
+  })
+
+  it('should persist stats that match the stored sessions', () => {
+    const store = useTimerStore()
+    const startTime = new Date()
+    store.startSession({
+      id: '1',
+      type: 'work',
+      duration: 1500,
+      startTime: startTime.toISOString(),
+      endTime: '',
+      completed: false,
+      interrupted: false
+    })
+    store.completeSession(new Date(startTime.getTime() + 1500 * 1000).toISOString())
+
+    const savedHistory = mockLocalStorage.setItem.mock.calls
+      .filter(([key]) => key === 'pomodoro-history')
+      .at(-1)![1]
+    expect(JSON.parse(savedHistory).data.stats).toEqual({
+      totalSessions: 1,
+      completedSessions: 1,
+      totalWorkTime: 1500,
+      streakDays: 1
+    })
+  })
+
+  it('should recompute drifted stats when loading history', async () => {
+    const today = new Date()
+    mockLocalStorage.getItem.mockImplementation((key: string) => key === 'pomodoro-history'
+      ? JSON.stringify({
+          sessions: [{
+            id: '1',
+            type: 'work',
+            duration: 1500,
+            startTime: today.toISOString(),
+            endTime: new Date(today.getTime() + 1500 * 1000).toISOString(),
+            completed: true,
+            interrupted: false
+          }],
+          stats: { totalSessions: 7, completedSessions: 5, totalWorkTime: 99999, streakDays: 0 }
+        })
+      : null)
+
+    const store = useTimerStore()
+    await store.historyLoaded
+
+    expect(store.history.stats).toEqual({
+      totalSessions: 1,
+      completedSessions: 1,
+      totalWorkTime: 1500,
+      streakDays: 1
+    })
+    mockLocalStorage.getItem.mockReset()
+  })
+
   it('should reset timer correctly', () => {
     const store = useTimerStore()
     const session: PomodoroSession = {
@@ -252,6 +381,28 @@ describe('useTimerStore', () => {
     expect(weeklyStats[0].id).toBe('1')
   })
 
+  it('should get sessions of the current calendar month', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 2, 3, 12, 0, 0))
+    const store = useTimerStore()
+    const session = (id: string, startTime: Date): PomodoroSession => ({
+      id,
+      type: 'work',
+      duration: 1500,
+      startTime: startTime.toISOString(),
+      endTime: startTime.toISOString(),
+      completed: true,
+      interrupted: false
+    })
+
+    store.addSessionToHistory(session('1', new Date(2025, 2, 1, 0, 30)))
+    store.addSessionToHistory(session('2', new Date(2025, 1, 28, 23, 30)))
+
+    const monthlySessions = store.getMonthlySessions()
+    expect(monthlySessions.map(s => s.id)).toEqual(['1'])
+    vi.useRealTimers()
+  })
+
   it('should compute timer state correctly', () => {
     const store = useTimerStore()
     const session: PomodoroSession = {
@@ -272,6 +423,258 @@ describe('useTimerStore', () => {
     expect(timerState.isPaused).toBe(false)
     expect(timerState.remainingTime).toBe(1500)
     expect(timerState.currentSessionType).toBe('work')
-    expect(timerState.sessionsCompleted).toBe(0)
   })
-})
\ No newline at end of file
+
+  it('should compute remaining time from the wall clock', () => {
+    const store = useTimerStore()
+    const startedAt = 1_700_000_000_000
+
+    store.startClock(1500, startedAt)
+    expect(store.getRemainingTime(startedAt + 100_000)).toBe(1400)
+
+    store.pauseClock(startedAt + 100_000)
+    expect(store.getRemainingTime(startedAt + 400_000)).toBe(1400)
+
+    store.resumeClock(startedAt + 400_000)
+    expect(store.clock?.pausedTime).toBe(300_000)
+    expect(store.getRemainingTime(startedAt + 500_000)).toBe(1300)
+    expect(store.getClockEndTime(startedAt + 500_000)).toBe(startedAt + 1_800_000)
+    expect(store.getRemainingTime(startedAt + 2_000_000)).toBe(0)
+  })
+
+  it('should clear the clock when the timer is reset', () => {
+    const store = useTimerStore()
+
+    store.startClock(1500)
+    store.resetTimer()
+
+    expect(store.clock).toBe(null)
+    expect(store.getClockEndTime()).toBe(null)
+  })
+
+  it('should not add the same session to history twice', () => {
+    const store = useTimerStore()
+    const session: PomodoroSession = {
+      id: '1',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      completed: true,
+      interrupted: false
+    }
+
+    store.addSessionToHistory(session)
+    store.addSessionToHistory(session)
+
+    expect(store.history.sessions).toHaveLength(1)
+    expect(store.history.stats.totalSessions).toBe(1)
+  })
+
+  it('should update the reflection of a recorded session', async () => {
+    const store = useTimerStore()
+    await store.historyLoaded
+    const session: PomodoroSession = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      completed: true,
+      interrupted: false
+    }
+    store.addSessionToHistory(session)
+
+    expect(store.updateSessionReflection(session.id, { note: 'Drafted the intro', focusRating: 4 })).toBe(true)
+    expect(store.history.sessions[0]).toEqual({ ...session, note: 'Drafted the intro', focusRating: 4 })
+
+    expect(store.updateSessionReflection(session.id, { note: '' })).toBe(true)
+    expect(store.history.sessions[0]).toEqual(session)
+    const saved = mockLocalStorage.setItem.mock.calls.filter(([key]) => key === 'pomodoro-history').at(-1)
+    expect(JSON.parse(saved![1]).data.sessions).toEqual([session])
+
+    expect(store.updateSessionReflection('missing', { focusRating: 2 })).toBe(false)
+  })
+
+  it('should update and delete recorded sessions and recompute the stats', async () => {
+    const store = useTimerStore()
+    await store.historyLoaded
+    const session: PomodoroSession = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: '2025-03-01T09:00:00.000Z',
+      endTime: '2025-03-01T09:25:00.000Z',
+      completed: true,
+      interrupted: false,
+      focusSeconds: 1500
+    }
+    store.addSessionToHistory(session)
+    expect(store.history.stats.completedSessions).toBe(1)
+
+    const edited = { ...session, completed: false, interrupted: true, focusSeconds: 600 }
+    expect(store.updateSession(edited)).toBe(true)
+    expect(store.history.sessions).toEqual([edited])
+    expect(store.history.stats).toMatchObject({ completedSessions: 0, totalWorkTime: 600 })
+    expect(store.updateSession({ ...edited, id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02' })).toBe(false)
+
+    expect(store.deleteSession('0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02')).toBe(false)
+    expect(store.deleteSession(session.id)).toBe(true)
+    expect(store.history.sessions).toEqual([])
+    expect(store.history.stats.totalSessions).toBe(0)
+    const saved = mockLocalStorage.setItem.mock.calls.filter(([key]) => key === 'pomodoro-history').at(-1)
+    expect(JSON.parse(saved![1]).data.sessions).toEqual([])
+  })
+
+  it('should log interruptions only on an open work session', () => {
+    const store = useTimerStore()
+    const interruption = { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1', kind: 'internal' as const, at: new Date().toISOString() }
+
+    expect(store.logInterruption(interruption)).toBe(false)
+
+    store.startSession({
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'shortBreak',
+      duration: 300,
+      startTime: new Date().toISOString(),
+      endTime: '',
+      completed: false,
+      interrupted: false
+    })
+    expect(store.logInterruption(interruption)).toBe(false)
+
+    store.startSession({
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: '',
+      completed: false,
+      interrupted: false
+    })
+    expect(store.logInterruption(interruption)).toBe(true)
+    expect(store.currentSession?.interruptions).toEqual([interruption])
+
+    expect(store.updateInterruptionReason(interruption.id, 'Remembered an email')).toBe(true)
+    expect(store.currentSession?.interruptions).toEqual([{ ...interruption, reason: 'Remembered an email' }])
+    expect(store.updateInterruptionReason(interruption.id, undefined)).toBe(true)
+    expect(store.currentSession?.interruptions).toEqual([interruption])
+    expect(store.updateInterruptionReason('missing', 'Phone call')).toBe(false)
+  })
+
+  it('should keep history written by another tab when adding a session', async () => {
+    const store = useTimerStore()
+    await store.historyLoaded
+    const otherTabSession: PomodoroSession = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      completed: true,
+      interrupted: false
+    }
+    mockLocalStorage.getItem.mockImplementation((key: string) => key === 'pomodoro-history'
+      ? JSON.stringify({
+          sessions: [otherTabSession],
+          stats: { totalSessions: 1, completedSessions: 1, totalWorkTime: 1500, streakDays: 0 }
+        })
+      : null)
+
+    store.addSessionToHistory({ ...otherTabSession, id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02' })
+
+    const saved = mockLocalStorage.setItem.mock.calls.filter(([key]) => key === 'pomodoro-history').at(-1)
+    expect(JSON.parse(saved![1]).data.sessions.map((session: PomodoroSession) => session.id)).toEqual([
+      '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02'
+    ])
+    mockLocalStorage.getItem.mockReset()
+  })
+
+  it('should reload history when another tab updates it', async () => {
+    const store = useTimerStore()
+    await store.historyLoaded
+    const otherTabSession: PomodoroSession = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: new Date().toISOString(),
+      endTime: new Date().toISOString(),
+      completed: true,
+      interrupted: false
+    }
+    mockLocalStorage.getItem.mockImplementation((key: string) => key === 'pomodoro-history'
+      ? JSON.stringify({ version: 1, data: { sessions: [otherTabSession], stats: store.history.stats } })
+      : null)
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'pomodoro-history' }))
+
+    await vi.waitFor(() => expect(store.history.sessions).toEqual([otherTabSession]))
+    expect(store.history.stats.totalSessions).toBe(1)
+    mockLocalStorage.getItem.mockReset()
+  })
+
+  it('should reload timer state when another tab updates it', () => {
+    const store = useTimerStore()
+    mockLocalStorage.getItem.mockImplementation((key: string) => key === 'pomodoro-timer-state'
+      ? JSON.stringify({
+          currentSession: null,
+          isRunning: false,
+          isPaused: false,
+          remainingTime: 300,
+          currentSessionType: 'shortBreak',
+          cycleIndex: 3,
+          clock: null
+        })
+      : null)
+
+    store.handleStorageEvent(new StorageEvent('storage', { key: 'pomodoro-timer-state' }))
+
+    expect(store.currentSessionType).toBe('shortBreak')
+    expect(store.remainingTime).toBe(300)
+    expect(store.cycleIndex).toBe(3)
+    mockLocalStorage.getItem.mockReset()
+  })
+})
+
+describe('useTimerStore with IndexedDB history', () => {
+  let factory: IDBFactory
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    factory = new IDBFactory()
+    setHistoryStorage(createIndexedDbHistoryStorage(factory))
+  })
+
+  afterEach(() => {
+    setHistoryStorage(null)
+    vi.restoreAllMocks()
+  })
+
+  it('should save sessions held in reactive state to IndexedDB', async () => {
+    const errorSpy = vi.spyOn(console, 'error')
+    const store = useTimerStore()
+    await store.historyLoaded
+    const session: PomodoroSession = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+      type: 'work',
+      duration: 1500,
+      startTime: '2025-03-01T09:00:00.000Z',
+      endTime: '2025-03-01T09:25:00.000Z',
+      completed: true,
+      interrupted: false,
+      tags: ['writing'],
+      interruptions: [{ id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1', kind: 'internal', at: '2025-03-01T09:10:00.000Z' }]
+    }
+    store.startSession(session)
+    store.addSessionToHistory(store.currentSession!)
+    store.updateSessionReflection(session.id, { note: 'Drafted the intro', focusRating: 4 })
+    store.updateSession({ ...store.history.sessions[0], tags: [...store.history.sessions[0].tags!, 'review'] })
+    await store.loadHistoryFromStorage()
+
+    expect(errorSpy).not.toHaveBeenCalled()
+    expect(await createIndexedDbHistoryStorage(factory).load()).toEqual([
+      { ...session, tags: ['writing', 'review'], note: 'Drafted the intro', focusRating: 4 }
+    ])
+  })
+})
@@ -3,6 +3,8 @@ import {
   PomodoroSettingsSchema, 
   PomodoroSessionSchema,
   PomodoroHistorySchema,
+  PersistedTimerStateSchema,
+  CyclePlanSchema,
   validatePomodoroSettings,
   isValidPomodoroSettings
 } from '../../../types'
@@ -234,7 +236,18 @@ describe('Type Validation', () => {
 
       expect(() => validatePomodoroSettings(validSettings)).not.toThrow()
       const result = validatePomodoroSettings(validSettings)
-      expect(result).toEqual(validSettings)
+      // Fields added after the first release are filled with their defaults
+      expect(result).toEqual({
+        ...validSettings,
+        notifications: { ...validSettings.notifications, volume: 70 },
+        autoStartBreaks: true,
+        autoStartWorkSessions: true,
+        autoStartDelay: 5,
+        reflectionPrompt: true,
+        cyclePlans: [],
+        activePlanId: null,
+        presets: []
+      })
     })
 
     it('should throw on invalid settings using validatePomodoroSettings', () => {
@@ -323,4 +336,89 @@ describe('Type Validation', () => {
       expect(result.success).toBe(false)
     })
   })
-})
\ No newline at end of file
+
+  describe('PersistedTimerStateSchema', () => {
+    it('should validate a running timer state', () => {
+      const validState = {
+        currentSession: {
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          type: 'work',
+          duration: 1500,
+          startTime: '2023-07-19T10:00:00.000Z',
+          endTime: '2023-07-19T10:00:00.000Z',
+          completed: false,
+          interrupted: false
+        },
+        isRunning: true,
+        isPaused: false,
+        remainingTime: 1200,
+        currentSessionType: 'work',
+        cycleIndex: 2,
+        clock: {
+          startedAt: 1689760800000,
+          duration: 1500,
+          pausedAt: null,
+          pausedTime: 0
+        }
+      }
+
+      const result = PersistedTimerStateSchema.safeParse(validState)
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a state with an invalid clock', () => {
+      const invalidState = {
+        currentSession: null,
+        isRunning: true,
+        isPaused: false,
+        remainingTime: 1200,
+        currentSessionType: 'work',
+        clock: {
+          startedAt: 'yesterday', // Not a timestamp
+          duration: 1500,
+          pausedAt: null,
+          pausedTime: -1 // Negative paused time
+        }
+      }
+
+      const result = PersistedTimerStateSchema.safeParse(invalidState)
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('CyclePlanSchema', () => {
+    const interval = {
+      id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02',
+      name: 'Deep work',
+      type: 'work',
+      duration: 90,
+      color: '#1976d2',
+      emoji: '🧠'
+    }
+
+    it('should validate a plan with a repeat position inside the plan', () => {
+      const result = CyclePlanSchema.safeParse({
+        id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+        name: 'Ultradian',
+        intervals: [interval],
+        repeatFrom: 0
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a repeat position past the last interval and invalid colors', () => {
+      const result = CyclePlanSchema.safeParse({
+        id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+        name: 'Ultradian',
+        intervals: [{ ...interval, color: 'blue' }],
+        repeatFrom: 1
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.path.join('.'))).toEqual(['intervals.0.color', 'repeatFrom'])
+      }
+    })
+  })
+})
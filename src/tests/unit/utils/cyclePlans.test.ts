@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createClassicPlan,
+  createCyclePlan,
+  getNextIntervalIndex,
+  findIntervalIndex,
+  getDistinctIntervals,
+  removeInterval,
+  moveInterval
+} from '../../../utils/cyclePlans'
+import { CyclePlanSchema } from '../../../types'
+
+const DURATIONS = { work: 25, shortBreak: 5, longBreak: 15 }
+
+/**
+ * i18nキーの最後の部分を返す翻訳関数
+ * @param key - i18nキー
+ */
+const translate = (key: string) => key.split('.').pop() ?? key
+
+describe('createClassicPlan', () => {
+  it('should alternate work and short breaks and end the round with a long break', () => {
+    const plan = createClassicPlan(DURATIONS, 3)
+
+    expect(plan.intervals.map(interval => interval.type)).toEqual([
+      'work', 'shortBreak', 'work', 'shortBreak', 'work', 'longBreak'
+    ])
+    expect(plan.intervals.map(interval => interval.duration)).toEqual([25, 5, 25, 5, 25, 15])
+    expect(plan.repeatFrom).toBe(0)
+  })
+
+  it('should share one id per session type', () => {
+    const plan = createClassicPlan(DURATIONS, 4)
+
+    expect(getDistinctIntervals(plan).map(interval => interval.id)).toEqual(['work', 'shortBreak', 'longBreak'])
+  })
+})
+
+describe('createCyclePlan', () => {
+  it('should build a valid plan from a template with translated names', () => {
+    const plan = createCyclePlan('warmUp', translate)
+
+    expect(CyclePlanSchema.safeParse(plan).success).toBe(true)
+    expect(plan.name).toBe('warmUp')
+    expect(plan.intervals[0]).toMatchObject({ type: 'work', duration: 10, name: 'warmUp' })
+    expect(plan.repeatFrom).toBe(2)
+  })
+
+  it('should give every interval a new id', () => {
+    const first = createCyclePlan('fiftyTwoSeventeen', translate)
+    const second = createCyclePlan('fiftyTwoSeventeen', translate)
+
+    expect(first.id).not.toBe(second.id)
+    expect(new Set([...first.intervals, ...second.intervals].map(interval => interval.id)).size).toBe(4)
+  })
+})
+
+describe('getNextIntervalIndex', () => {
+  it('should loop back to the repeat position after the last interval', () => {
+    const plan = createCyclePlan('warmUp', translate)
+
+    expect(getNextIntervalIndex(plan, 0)).toBe(1)
+    expect(getNextIntervalIndex(plan, 3)).toBe(2)
+  })
+})
+
+describe('findIntervalIndex', () => {
+  it('should search from the given position and wrap around', () => {
+    const plan = createClassicPlan(DURATIONS, 2)
+
+    expect(findIntervalIndex(plan, 1, interval => interval.type === 'work')).toBe(2)
+    expect(findIntervalIndex(plan, 3, interval => interval.type === 'shortBreak')).toBe(1)
+    expect(findIntervalIndex(plan, 0, interval => interval.id === 'missing')).toBe(-1)
+  })
+})
+
+describe('removeInterval', () => {
+  it('should keep the repeat position on the same interval', () => {
+    const plan = createCyclePlan('warmUp', translate)
+
+    const result = removeInterval(plan, 0)
+
+    expect(result.intervals).toHaveLength(3)
+    expect(result.intervals[result.repeatFrom]).toBe(plan.intervals[2])
+  })
+
+  it('should keep the repeat position within the plan', () => {
+    const plan = { ...createCyclePlan('warmUp', translate), repeatFrom: 3 }
+
+    expect(removeInterval(plan, 3).repeatFrom).toBe(2)
+  })
+})
+
+describe('moveInterval', () => {
+  it('should swap an interval with its neighbour', () => {
+    const plan = createCyclePlan('fiftyTwoSeventeen', translate)
+
+    const result = moveInterval(plan, 0, 1)
+
+    expect(result.intervals).toEqual([plan.intervals[1], plan.intervals[0]])
+  })
+
+  it('should leave the plan unchanged at the edges', () => {
+    const plan = createCyclePlan('fiftyTwoSeventeen', translate)
+
+    expect(moveInterval(plan, 0, -1)).toBe(plan)
+    expect(moveInterval(plan, 1, 1)).toBe(plan)
+  })
+})
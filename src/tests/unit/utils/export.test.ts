@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CSV_COLUMNS,
+  formatLocalDateTime,
+  filterSessionsByDateRange,
+  createHistoryExport,
+  serializeSessionsCsv,
+  serializeHistoryExport,
+  getExportFileName,
+  createSettingsExport,
+  getSettingsExportFileName
+} from '../../../utils/export'
+import { HistoryExportSchema, HISTORY_EXPORT_VERSION, DefaultPomodoroSettings } from '../../../types'
+import { createSession, sessionId } from '../../helpers/session'
+
+const sessions = [
+  createSession({ id: sessionId(1), start: new Date(2025, 2, 1, 9, 0) }),
+  createSession({ id: sessionId(2), start: new Date(2025, 2, 10, 23, 30), type: 'shortBreak', completed: false, elapsed: 1500 }),
+  createSession({ id: sessionId(3), start: new Date(2025, 2, 20, 8, 0) })
+]
+
+describe('export', () => {
+  describe('formatLocalDateTime', () => {
+    it('should include the local time zone offset', () => {
+      const date = new Date(2025, 2, 20, 9, 5, 7)
+      const formatted = formatLocalDateTime(date)
+
+      expect(formatted).toMatch(/^2025-03-20T09:05:07[+-]\d{2}:\d{2}$/)
+      // The offset makes the local time refer to the same instant
+      expect(new Date(formatted).getTime()).toBe(date.getTime())
+    })
+  })
+
+  describe('filterSessionsByDateRange', () => {
+    it('should keep every session without a range', () => {
+      expect(filterSessionsByDateRange(sessions, { from: null, to: null })).toHaveLength(3)
+    })
+
+    it('should include both ends of the range by local start day', () => {
+      const result = filterSessionsByDateRange(sessions, { from: '2025-03-10', to: '2025-03-20' })
+      expect(result.map(session => session.id.slice(-2))).toEqual(['02', '03'])
+    })
+
+    it('should support open-ended ranges', () => {
+      expect(filterSessionsByDateRange(sessions, { from: null, to: '2025-03-09' })).toHaveLength(1)
+      expect(filterSessionsByDateRange(sessions, { from: '2025-03-11', to: null })).toHaveLength(1)
+    })
+  })
+
+  describe('createHistoryExport', () => {
+    it('should create a schema-valid versioned export', () => {
+      const now = new Date(2025, 2, 20, 12, 0)
+      const data = createHistoryExport(sessions, { from: null, to: null }, now)
+
+      expect(HistoryExportSchema.safeParse(data).success).toBe(true)
+      expect(data.app).toBe('pomodoro-timer')
+      expect(data.version).toBe(HISTORY_EXPORT_VERSION)
+      expect(data.exportedAt).toBe(now.toISOString())
+      expect(data.history.sessions).toHaveLength(3)
+    })
+
+    it('should include the actual focused time of every session', () => {
+      const data = createHistoryExport([sessions[0], { ...sessions[2], focusSeconds: 1380 }], { from: null, to: null })
+
+      expect(data.history.sessions.map(session => session.focusSeconds)).toEqual([1500, 1380])
+      expect(data.history.stats.totalWorkTime).toBe(2880)
+    })
+
+    it('should recompute stats for the exported range', () => {
+      const now = new Date(2025, 2, 20, 12, 0)
+      const data = createHistoryExport(sessions, { from: '2025-03-10', to: null }, now)
+
+      expect(data.range).toEqual({ from: '2025-03-10', to: null })
+      expect(data.history.stats).toEqual({
+        totalSessions: 2,
+        completedSessions: 1,
+        totalWorkTime: 1500,
+        streakDays: 1
+      })
+    })
+
+    it('should reject sessions that do not match the schema', () => {
+      const invalid = [{ ...sessions[0], id: 'not-a-uuid' }]
+      expect(() => createHistoryExport(invalid, { from: null, to: null })).toThrow()
+    })
+  })
+
+  describe('serializeSessionsCsv', () => {
+    it('should write a header and one row per session', () => {
+      const lines = serializeSessionsCsv(sessions).split('\r\n')
+
+      expect(lines[0]).toBe(CSV_COLUMNS.join(','))
+      expect(lines).toHaveLength(sessions.length + 2) // header, rows and the trailing line break
+      expect(lines.at(-1)).toBe('')
+    })
+
+    it('should write UTC and local timestamps and the session flags', () => {
+      const [, row] = serializeSessionsCsv([sessions[1]]).split('\r\n')
+      const values = row.split(',')
+      const start = new Date(sessions[1].startTime)
+
+      expect(values).toEqual([
+        sessions[1].id,
+        'shortBreak',
+        '300',
+        sessions[1].startTime,
+        formatLocalDateTime(start),
+        sessions[1].endTime,
+        formatLocalDateTime(new Date(sessions[1].endTime)),
+        'false',
+        'true',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '1500',
+        '1200'
+      ])
+    })
+
+    it('should write the task, project, tags and reflection of work sessions', () => {
+      const taskId = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1'
+      const projectId = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba2'
+      const [, row] = serializeSessionsCsv([{
+        ...sessions[0],
+        taskId,
+        projectId,
+        tags: ['writing', 'review'],
+        focusRating: 4,
+        note: 'Drafted the intro'
+      }]).split('\r\n')
+      expect(row.split(',').slice(-10)).toEqual([taskId, projectId, 'writing;review', '4', 'Drafted the intro', '', '', '', '1500', '0'])
+    })
+
+    it('should write the interruptions of a work session as a JSON array', () => {
+      const interruptions = [
+        { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba3', kind: 'external' as const, reason: 'Phone call', at: sessions[0].startTime }
+      ]
+      const [, row] = serializeSessionsCsv([{ ...sessions[0], interruptions }]).split('\r\n')
+      expect(row.endsWith(`,"${JSON.stringify(interruptions).replaceAll('"', '""')}",,,1500,0`)).toBe(true)
+    })
+
+    it('should write the actual focused time and the difference from the planned duration', () => {
+      const [, row] = serializeSessionsCsv([{ ...sessions[0], focusSeconds: 1380, pausedSeconds: 120 }]).split('\r\n')
+      expect(row.split(',').slice(-4)).toEqual(['120', '', '1380', '-120'])
+    })
+
+    it('should keep notes and tags from running as spreadsheet formulas', () => {
+      const [, row] = serializeSessionsCsv([{
+        ...sessions[0],
+        tags: ['@home', 'review'],
+        note: '=HYPERLINK("http://example.com")'
+      }]).split('\r\n')
+      expect(row).toContain(`,'@home;review,,"'=HYPERLINK(""http://example.com"")",`)
+
+      for (const note of ['+1 idea', '-draft', '\t=1+1', 'plain text']) {
+        const [, guarded] = serializeSessionsCsv([{ ...sessions[0], note }]).split('\r\n')
+        expect(guarded.split(',').at(-6)).toBe(note === 'plain text' ? note : `'${note}`)
+      }
+      const [, carriageReturn] = serializeSessionsCsv([{ ...sessions[0], tags: ['\r=1+1'] }]).split('\r\n')
+      expect(carriageReturn).toContain(`,"'\r=1+1",`)
+    })
+
+    it('should quote values containing separators', () => {
+      const csv = serializeSessionsCsv([{ ...sessions[0], id: 'a,"b"' }])
+      expect(csv.split('\r\n')[1].startsWith('"a,""b"""')).toBe(true)
+    })
+  })
+
+  describe('serializeHistoryExport', () => {
+    it('should serialize JSON that parses back into the export', () => {
+      const data = createHistoryExport(sessions, { from: null, to: null })
+      expect(JSON.parse(serializeHistoryExport('json', data))).toEqual(data)
+    })
+
+    it('should serialize the exported sessions as CSV', () => {
+      const data = createHistoryExport(sessions, { from: '2025-03-20', to: null })
+      expect(serializeHistoryExport('csv', data)).toBe(serializeSessionsCsv(data.history.sessions))
+    })
+  })
+
+  describe('getExportFileName', () => {
+    const now = new Date(2025, 2, 20, 12, 0)
+
+    it('should name full exports after the export date', () => {
+      expect(getExportFileName('json', { from: null, to: null }, now)).toBe('pomodoro-history-2025-03-20.json')
+    })
+
+    it('should include the date range', () => {
+      expect(getExportFileName('csv', { from: '2025-03-01', to: '2025-03-10' }, now))
+        .toBe('pomodoro-history-2025-03-01_2025-03-10.csv')
+      expect(getExportFileName('csv', { from: '2025-03-01', to: null }, now))
+        .toBe('pomodoro-history-2025-03-01_2025-03-20.csv')
+    })
+  })
+
+  describe('createSettingsExport', () => {
+    it('should include the presets with the settings', () => {
+      const settings = {
+        ...new DefaultPomodoroSettings(),
+        presets: [{
+          id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+          name: 'Meetings day',
+          timing: { workDuration: 15, shortBreakDuration: 3, longBreakDuration: 15, sessionsBeforeLongBreak: 4, activePlanId: null }
+        }]
+      }
+      const now = new Date('2025-03-20T12:00:00.000Z')
+
+      expect(createSettingsExport(settings, now)).toEqual({
+        app: 'pomodoro-timer',
+        version: 1,
+        exportedAt: '2025-03-20T12:00:00.000Z',
+        settings
+      })
+    })
+
+    it('should reject invalid settings', () => {
+      expect(() => createSettingsExport({ ...new DefaultPomodoroSettings(), workDuration: 0 })).toThrow()
+    })
+  })
+
+  describe('getSettingsExportFileName', () => {
+    it('should name the file after the export date', () => {
+      expect(getSettingsExportFileName(new Date(2025, 2, 20, 12, 0))).toBe('pomodoro-settings-2025-03-20.json')
+    })
+  })
+})
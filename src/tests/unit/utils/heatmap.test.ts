@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  HEATMAP_LEVELS,
+  getWeekStartDay,
+  countPomodorosByDay,
+  computeHeatmapThresholds,
+  getHeatmapLevel,
+  buildHeatmapWeeks
+} from '../../../utils/heatmap'
+import { createSession } from '../../helpers/session'
+
+describe('heatmap', () => {
+  describe('getWeekStartDay', () => {
+    it('should start the week on Sunday for Sunday-first locales', () => {
+      expect(getWeekStartDay('en')).toBe(0)
+      expect(getWeekStartDay('ja')).toBe(0)
+    })
+
+    it('should start the week on Monday for Monday-first locales', () => {
+      expect(getWeekStartDay('de')).toBe(1)
+      expect(getWeekStartDay('fr')).toBe(1)
+    })
+
+    it('should fall back to Monday for invalid locales', () => {
+      expect(getWeekStartDay('not a locale')).toBe(1)
+    })
+  })
+
+  describe('countPomodorosByDay', () => {
+    it('should count completed work sessions per local day', () => {
+      const counts = countPomodorosByDay([
+        createSession({ start: new Date(2025, 2, 20, 9) }),
+        createSession({ start: new Date(2025, 2, 20, 23, 30) }),
+        createSession({ start: new Date(2025, 2, 21, 0, 30) }),
+        createSession({ start: new Date(2025, 2, 21, 10), completed: false }),
+        createSession({ start: new Date(2025, 2, 21, 11), type: 'shortBreak' })
+      ])
+
+      expect(Object.fromEntries(counts)).toEqual({ '2025-03-20': 2, '2025-03-21': 1 })
+    })
+  })
+
+  describe('color scaling', () => {
+    it('should derive thresholds from the user distribution', () => {
+      expect(computeHeatmapThresholds([1, 2, 3, 4, 5])).toEqual([2, 3, 4])
+      expect(computeHeatmapThresholds([0, 0])).toEqual([])
+    })
+
+    it('should scale levels to the user distribution', () => {
+      const thresholds = computeHeatmapThresholds([1, 2, 3, 4, 5])
+
+      expect(getHeatmapLevel(0, thresholds, 5)).toBe(0)
+      expect(getHeatmapLevel(1, thresholds, 5)).toBe(1)
+      expect(getHeatmapLevel(3, thresholds, 5)).toBe(2)
+      expect(getHeatmapLevel(4, thresholds, 5)).toBe(3)
+      expect(getHeatmapLevel(5, thresholds, 5)).toBe(HEATMAP_LEVELS)
+    })
+
+    it('should show the busiest days at the darkest level regardless of absolute counts', () => {
+      const light = computeHeatmapThresholds([1, 1, 2])
+      const heavy = computeHeatmapThresholds([8, 8, 16])
+
+      expect(getHeatmapLevel(2, light, 2)).toBe(HEATMAP_LEVELS)
+      expect(getHeatmapLevel(16, heavy, 16)).toBe(HEATMAP_LEVELS)
+      expect(getHeatmapLevel(8, heavy, 16)).toBe(1)
+    })
+  })
+
+  describe('buildHeatmapWeeks', () => {
+    const end = new Date(2025, 2, 20, 15, 0)
+
+    it('should align every column to the week start', () => {
+      const mondayWeeks = buildHeatmapWeeks(new Map(), end, 1)
+      const sundayWeeks = buildHeatmapWeeks(new Map(), end, 0)
+
+      expect(mondayWeeks.every(week => week.length === 7 && week[0].date.getDay() === 1)).toBe(true)
+      expect(sundayWeeks.every(week => week[0].date.getDay() === 0)).toBe(true)
+    })
+
+    it('should cover exactly one year ending on the given day', () => {
+      const days = buildHeatmapWeeks(new Map(), end, 1).flat().filter(day => day.inRange)
+
+      expect(days).toHaveLength(365)
+      expect(days[0].key).toBe('2024-03-21')
+      expect(days.at(-1)!.key).toBe('2025-03-20')
+    })
+
+    it('should mark days outside the year as out of range', () => {
+      const weeks = buildHeatmapWeeks(new Map([['2025-03-22', 3]]), end, 1)
+      const lastWeek = weeks.at(-1)!
+
+      // 2025-03-20 is a Thursday, so Friday to Sunday are in the future
+      expect(lastWeek.map(day => day.inRange)).toEqual([true, true, true, true, false, false, false])
+      expect(lastWeek[5].count).toBe(0)
+    })
+
+    it('should attach counts and levels to each day', () => {
+      const counts = new Map([['2025-03-18', 1], ['2025-03-19', 4]])
+      const days = buildHeatmapWeeks(counts, end, 1).flat()
+
+      expect(days.find(day => day.key === '2025-03-18')).toMatchObject({ count: 1, level: 1 })
+      expect(days.find(day => day.key === '2025-03-19')).toMatchObject({ count: 4, level: HEATMAP_LEVELS })
+      expect(days.find(day => day.key === '2025-03-17')).toMatchObject({ count: 0, level: 0 })
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { reactive } from 'vue'
+import type { PomodoroSession } from '../../../types'
+import { createKeyValueHistoryStorage, createMemoryHistoryStorage } from '../../../utils/historyStorage'
+import { createIndexedDbHistoryStorage } from '../../../utils/indexedDbHistoryStorage'
+import { createMemoryStorage } from '../../../utils/storageAdapters'
+import { createSession, sessionId } from '../../helpers/session'
+
+/** 保存するセッション（番号順に1日ずつ後に開始する） */
+const [first, second, third, fourth] = [1, 2, 3, 4].map(n =>
+  createSession({ id: sessionId(n), start: new Date(2025, 2, n, 9, 0) })
+)
+
+describe('createKeyValueHistoryStorage', () => {
+  it('should upsert sessions without dropping ones written by another tab', async () => {
+    const storage = createMemoryStorage()
+    const thisTab = createKeyValueHistoryStorage(storage)
+    const otherTab = createKeyValueHistoryStorage(storage)
+
+    await thisTab.put(first)
+    await otherTab.put(second)
+    await thisTab.put({ ...first, completed: false, interrupted: true })
+
+    const sessions = await thisTab.load()
+    expect(sessions.map(session => session.id)).toEqual([first.id, second.id])
+    expect(sessions[0].interrupted).toBe(true)
+    expect(JSON.parse(storage.getItem('pomodoro-history')!).data.stats.totalSessions).toBe(2)
+  })
+
+  it('should replace, remove and clear the stored history', async () => {
+    const adapter = createMemoryHistoryStorage([first])
+
+    await adapter.replaceAll([second, third])
+    expect((await adapter.load()).map(session => session.id)).toEqual([second.id, third.id])
+
+    await adapter.remove(second.id)
+    expect((await adapter.load()).map(session => session.id)).toEqual([third.id])
+
+    await adapter.clear()
+    expect(await adapter.load()).toEqual([])
+  })
+})
+
+describe('createIndexedDbHistoryStorage', () => {
+  let factory: IDBFactory
+
+  beforeEach(() => {
+    factory = new IDBFactory()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should store each session as its own record', async () => {
+    const adapter = createIndexedDbHistoryStorage(factory)
+
+    await adapter.put(second)
+    await adapter.putMany([first, third])
+    await adapter.put({ ...second, completed: false, interrupted: true })
+
+    const sessions = await adapter.load()
+    expect(sessions.map(session => session.id)).toEqual([first.id, second.id, third.id])
+    expect(sessions[1].interrupted).toBe(true)
+
+    await adapter.remove(first.id)
+    expect(sessions.length - (await adapter.load()).length).toBe(1)
+
+    await adapter.replaceAll([fourth])
+    expect(await adapter.load()).toEqual([fourth])
+
+    await adapter.clear()
+    expect(await adapter.load()).toEqual([])
+  })
+
+  it('should share records between adapters opened on the same database', async () => {
+    await createIndexedDbHistoryStorage(factory).put(first)
+
+    expect(await createIndexedDbHistoryStorage(factory).load()).toEqual([first])
+  })
+
+  it('should move the localStorage history into the database once', async () => {
+    const legacyStorage = createMemoryStorage({
+      'pomodoro-history': JSON.stringify({
+        sessions: [first, second],
+        stats: { totalSessions: 2, completedSessions: 2, totalWorkTime: 3000, streakDays: 0 }
+      })
+    })
+    const edited = { ...second, completed: false, interrupted: true }
+    await createIndexedDbHistoryStorage(factory).put(edited)
+
+    const adapter = createIndexedDbHistoryStorage(factory, { legacyStorage })
+    const sessions = await adapter.load()
+
+    expect(sessions).toEqual([first, edited])
+    expect(legacyStorage.getItem('pomodoro-history')).toBeNull()
+  })
+
+  it('should skip invalid records when loading', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const adapter = createIndexedDbHistoryStorage(factory)
+    await adapter.putMany([first, { ...second, duration: -1 }])
+
+    expect(await adapter.load()).toEqual([first])
+    expect(console.warn).toHaveBeenCalled()
+  })
+
+  it('should store reactive sessions with nested pauses and interruptions', async () => {
+    const adapter = createIndexedDbHistoryStorage(factory)
+    const session: PomodoroSession = {
+      ...first,
+      pauses: [{ start: new Date(2025, 2, 1, 9, 5).toISOString(), end: new Date(2025, 2, 1, 9, 8).toISOString() }],
+      interruptions: [{ id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1', kind: 'external', at: new Date(2025, 2, 1, 9, 5).toISOString() }]
+    }
+    const state = reactive({ sessions: [structuredClone(session)] })
+
+    await adapter.put(state.sessions[0])
+    await adapter.putMany([{ ...state.sessions[0] }])
+    await adapter.replaceAll(state.sessions)
+
+    expect(await adapter.load()).toEqual([session])
+  })
+
+  it('should keep the stored sessions when replacing them fails', async () => {
+    const adapter = createIndexedDbHistoryStorage(factory)
+    await adapter.put(first)
+    const unreadable = Object.defineProperty({ ...third }, 'note', {
+      enumerable: true,
+      get: () => {
+        throw new Error('Unreadable note')
+      }
+    })
+
+    await expect(adapter.replaceAll([second, unreadable])).rejects.toThrow('Unreadable note')
+
+    expect(await adapter.load()).toEqual([first])
+  })
+
+  it('should use the fallback when the database cannot be opened', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(factory, 'open').mockImplementation(() => {
+      throw new DOMException('Blocked', 'SecurityError')
+    })
+    const fallback = createMemoryHistoryStorage()
+    const adapter = createIndexedDbHistoryStorage(factory, { fallback })
+
+    await adapter.put(first)
+
+    expect(await fallback.load()).toEqual([first])
+    expect(await adapter.load()).toEqual([first])
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseHistoryImport, mergeSessions, previewImport } from '../../../utils/import'
+import { createHistoryExport, serializeSessionsCsv } from '../../../utils/export'
+import { getSessionFocusSeconds } from '../../../utils/stats'
+import { createSession, sessionId } from '../../helpers/session'
+
+const sessions = [
+  createSession({ id: sessionId(1), start: new Date(2025, 2, 1, 9, 0) }),
+  createSession({ id: sessionId(2), start: new Date(2025, 2, 2, 9, 0), type: 'shortBreak', completed: false }),
+  createSession({ id: sessionId(3), start: new Date(2025, 2, 3, 9, 0) })
+]
+
+/** エクスポート時に実際に集中した時間を補ったセッション */
+const measuredSessions = sessions.map(session => ({ ...session, focusSeconds: getSessionFocusSeconds(session) }))
+
+/**
+ * 読み取りに成功した結果の内容を取り出す
+ * @param text - ファイルの内容
+ */
+const parseOk = (text: string) => {
+  const result = parseHistoryImport(text)
+  if (!result.success) throw new Error(`Unexpected import error: ${result.error.key}`)
+  return result.data
+}
+
+describe('import', () => {
+  describe('parseCsv', () => {
+    it('should split quoted values containing separators and line breaks', () => {
+      expect(parseCsv('a,b\r\n"x,""y""","line\nbreak"\r\n\r\n')).toEqual([
+        ['a', 'b'],
+        ['x,"y"', 'line\nbreak']
+      ])
+    })
+  })
+
+  describe('parseHistoryImport', () => {
+    it('should read a versioned JSON export', () => {
+      const text = JSON.stringify(createHistoryExport(sessions, { from: null, to: null }))
+      const data = parseOk(text)
+
+      expect(data.sessions).toEqual(measuredSessions)
+      expect(data.rowErrors).toEqual([])
+      expect(data.totalRows).toBe(3)
+    })
+
+    it('should read the stored history format and plain session arrays', () => {
+      expect(parseOk(JSON.stringify({ sessions })).sessions).toHaveLength(3)
+      expect(parseOk(JSON.stringify(sessions)).sessions).toHaveLength(3)
+    })
+
+    it('should read an exported CSV file', () => {
+      const data = parseOk(serializeSessionsCsv(sessions))
+
+      expect(data.sessions).toEqual(measuredSessions)
+      expect(data.rowErrors).toEqual([])
+    })
+
+    it('should read the task, project, tag, reflection, interruption and pause columns and accept CSV files written without them', () => {
+      const taskId = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1'
+      const projectId = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba2'
+      const labelled = [{
+        ...sessions[0],
+        taskId,
+        projectId,
+        tags: ['writing', 'review'],
+        focusRating: 4,
+        note: 'Drafted the intro, then "polished" it,\nand sent it',
+        interruptions: [
+          { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba3', kind: 'internal' as const, at: sessions[0].startTime },
+          { id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba4', kind: 'external' as const, reason: 'Phone, "urgent"', at: sessions[0].endTime }
+        ],
+        pauses: [{ start: '2025-03-01T00:05:00.000Z', end: '2025-03-01T00:07:00.000Z' }],
+        pausedSeconds: 120
+      }]
+      expect(parseOk(serializeSessionsCsv(labelled)).sessions).toEqual([{ ...labelled[0], focusSeconds: 1380 }])
+
+      const withoutColumns = serializeSessionsCsv(sessions)
+        .replace(/,task_id,project_id,tags,focus_rating,note,interruptions,paused_seconds,pauses,actual_focus_seconds,overrun_seconds\r\n/, '\r\n')
+        .replaceAll(/,,,,,,,,,\d+,-?\d+\r\n/g, '\r\n')
+      expect(parseOk(withoutColumns).sessions).toEqual(sessions)
+    })
+
+    it('should remove the formula guard from exported notes and tags', () => {
+      const guarded = [{ ...sessions[0], tags: ['@home', 'review'], note: '=SUM(A1:A2)' }]
+
+      expect(parseOk(serializeSessionsCsv(guarded)).sessions).toEqual([{ ...guarded[0], focusSeconds: 1500 }])
+
+      // Leading tabs and carriage returns are guarded too; the schema then trims them away
+      const whitespace = [{ ...sessions[0], tags: ['\rhome'], note: '\t=SUM(A1:A2)' }]
+      expect(parseOk(serializeSessionsCsv(whitespace)).sessions).toEqual([
+        { ...sessions[0], tags: ['home'], note: '=SUM(A1:A2)', focusSeconds: 1500 }
+      ])
+    })
+
+    it('should report invalid rows by index and reason without failing the import', () => {
+      const rows = [
+        sessions[0],
+        { ...sessions[1], id: 'not-a-uuid' },
+        { ...sessions[2], duration: -5 },
+        { ...sessions[2], completed: undefined },
+        'garbage'
+      ]
+      const data = parseOk(JSON.stringify(rows))
+
+      expect(data.sessions).toEqual([sessions[0]])
+      expect(data.totalRows).toBe(5)
+      expect(data.rowErrors).toEqual([
+        { index: 1, field: 'id', reason: { key: 'validation.invalidFormat' } },
+        { index: 2, field: 'duration', reason: { key: 'validation.min', params: { min: 0 } } },
+        { index: 3, field: 'completed', reason: { key: 'validation.required' } },
+        { index: 4, field: null, reason: { key: 'validation.invalid' } }
+      ])
+    })
+
+    it('should report invalid CSV rows by data row index', () => {
+      const csv = serializeSessionsCsv(sessions).replace(',shortBreak,', ',nap,').replace(/,true,false,(?=,*1500,0\r\n$)/, ',yes,false,')
+      const data = parseOk(csv)
+
+      expect(data.sessions).toEqual([measuredSessions[0]])
+      expect(data.rowErrors).toEqual([
+        { index: 1, field: 'type', reason: { key: 'validation.invalidOption' } },
+        { index: 2, field: 'completed', reason: { key: 'validation.invalid' } }
+      ])
+    })
+
+    it('should skip sessions that appear twice in the file', () => {
+      const data = parseOk(JSON.stringify([sessions[0], sessions[1], sessions[0]]))
+
+      expect(data.sessions).toHaveLength(2)
+      expect(data.rowErrors).toEqual([{ index: 2, field: 'id', reason: { key: 'import.errors.duplicateId' } }])
+    })
+
+    it('should reject files that cannot be read as a history', () => {
+      expect(parseHistoryImport('')).toEqual({ success: false, error: { key: 'import.errors.empty' } })
+      expect(parseHistoryImport('{ broken')).toEqual({ success: false, error: { key: 'import.errors.invalidJson' } })
+      expect(parseHistoryImport('{"foo": 1}')).toEqual({ success: false, error: { key: 'import.errors.unsupportedFormat' } })
+      expect(parseHistoryImport('{"app": "pomodoro-timer", "version": 99}'))
+        .toEqual({ success: false, error: { key: 'import.errors.unsupportedVersion' } })
+      expect(parseHistoryImport('id,type\r\nx,work')).toEqual({
+        success: false,
+        error: {
+          key: 'import.errors.missingColumns',
+          params: { columns: 'planned_duration_seconds, start_utc, end_utc, completed, interrupted' }
+        }
+      })
+    })
+  })
+
+  describe('mergeSessions', () => {
+    it('should add only sessions with new ids in merge mode', () => {
+      const changed = { ...sessions[0], completed: false }
+      const merged = mergeSessions([sessions[0], sessions[1]], [changed, sessions[2]], 'merge')
+
+      expect(merged).toEqual(sessions)
+    })
+
+    it('should keep only the imported sessions in replace mode', () => {
+      const merged = mergeSessions([sessions[0], sessions[1]], [sessions[2]], 'replace')
+      expect(merged).toEqual([sessions[2]])
+    })
+
+    it('should order the result by start time', () => {
+      const merged = mergeSessions([sessions[2]], [sessions[0]], 'merge')
+      expect(merged.map(session => session.id)).toEqual([sessions[0].id, sessions[2].id])
+    })
+  })
+
+  describe('previewImport', () => {
+    const now = new Date(2025, 2, 3, 12, 0)
+
+    it('should count added and duplicate sessions and recompute stats for merge mode', () => {
+      expect(previewImport([sessions[0]], sessions, 'merge', now)).toEqual({
+        added: 2,
+        duplicates: 1,
+        removed: 0,
+        stats: { totalSessions: 3, completedSessions: 2, totalWorkTime: 3000, streakDays: 1 }
+      })
+    })
+
+    it('should count removed sessions for replace mode', () => {
+      expect(previewImport([sessions[0], sessions[1]], [sessions[1], sessions[2]], 'replace', now)).toEqual({
+        added: 1,
+        duplicates: 1,
+        removed: 1,
+        stats: { totalSessions: 2, completedSessions: 1, totalWorkTime: 1500, streakDays: 1 }
+      })
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { getWeekStart, computeInterruptionStats, TOP_REASONS_LIMIT } from '../../../utils/interruptions'
+import type { Interruption, InterruptionKind } from '../../../types'
+import { createSession } from '../../helpers/session'
+
+/**
+ * テスト用の中断を作成する
+ * @param kind - 中断の種類
+ * @param reason - 理由
+ */
+const createInterruption = (kind: InterruptionKind, reason?: string): Interruption => ({
+  id: `${kind}-${reason ?? 'none'}`,
+  kind,
+  ...(reason ? { reason } : {}),
+  at: new Date(2025, 2, 20, 9, 10).toISOString()
+})
+
+describe('interruptions', () => {
+  describe('getWeekStart', () => {
+    it('should return the first day of the week at midnight', () => {
+      // 2025-03-20 is a Thursday
+      expect(getWeekStart(new Date(2025, 2, 20, 15, 30))).toEqual(new Date(2025, 2, 17))
+      expect(getWeekStart(new Date(2025, 2, 20, 15, 30), 0)).toEqual(new Date(2025, 2, 16))
+      expect(getWeekStart(new Date(2025, 2, 17, 8, 0))).toEqual(new Date(2025, 2, 17))
+    })
+  })
+
+  describe('computeInterruptionStats', () => {
+    const now = new Date(2025, 2, 20, 12, 0)
+
+    it('should count interruptions per kind and per work session', () => {
+      const stats = computeInterruptionStats([
+        createSession({ start: new Date(2025, 2, 20, 9, 0), interruptions: [createInterruption('internal'), createInterruption('external')] }),
+        createSession({ start: new Date(2025, 2, 19, 9, 0), interruptions: [createInterruption('internal')] }),
+        createSession({ start: new Date(2025, 2, 18, 9, 0) }),
+        createSession({ start: new Date(2025, 2, 18, 9, 30), interruptions: [createInterruption('external')], type: 'shortBreak' })
+      ], now)
+
+      expect(stats.total).toBe(3)
+      expect(stats.internal).toBe(2)
+      expect(stats.external).toBe(1)
+      expect(stats.perPomodoro).toBe(1)
+    })
+
+    it('should return zeros without work sessions', () => {
+      const stats = computeInterruptionStats([], now)
+
+      expect(stats).toMatchObject({ total: 0, internal: 0, external: 0, perPomodoro: 0, topReasons: [] })
+    })
+
+    it('should rank reasons regardless of case', () => {
+      const stats = computeInterruptionStats([
+        createSession({
+          start: new Date(2025, 2, 20, 9, 0),
+          interruptions: [createInterruption('external', 'Phone call'), createInterruption('internal', 'Email')]
+        }),
+        createSession({
+          start: new Date(2025, 2, 19, 9, 0),
+          interruptions: [createInterruption('external', 'phone call'), createInterruption('internal')]
+        })
+      ], now)
+
+      expect(stats.topReasons).toEqual([
+        { reason: 'Phone call', count: 2 },
+        { reason: 'Email', count: 1 }
+      ])
+    })
+
+    it('should keep only the most frequent reasons', () => {
+      const reasons = Array.from({ length: TOP_REASONS_LIMIT + 2 }, (_, index) => createInterruption('internal', `Reason ${index}`))
+      const stats = computeInterruptionStats([createSession({ start: new Date(2025, 2, 20, 9, 0), interruptions: reasons })], now)
+
+      expect(stats.topReasons).toHaveLength(TOP_REASONS_LIMIT)
+    })
+
+    it('should bucket the trend by week, oldest first', () => {
+      const stats = computeInterruptionStats([
+        createSession({ start: new Date(2025, 2, 20, 9, 0), interruptions: [createInterruption('internal'), createInterruption('external')] }),
+        createSession({ start: new Date(2025, 2, 17, 9, 0) }),
+        createSession({ start: new Date(2025, 2, 12, 9, 0), interruptions: [createInterruption('internal')] }),
+        createSession({ start: new Date(2024, 11, 1, 9, 0), interruptions: [createInterruption('internal')] })
+      ], now, 1, 3)
+
+      expect(stats.trend).toEqual([
+        { weekStart: '2025-03-03', interruptions: 0, workSessions: 0, perPomodoro: 0 },
+        { weekStart: '2025-03-10', interruptions: 1, workSessions: 1, perPomodoro: 1 },
+        { weekStart: '2025-03-17', interruptions: 2, workSessions: 2, perPomodoro: 1 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { computeLabelBreakdown, collectSessionTags } from '../../../utils/labels'
+import { createSession } from '../../helpers/session'
+
+const PROJECT_A = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1'
+const PROJECT_B = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba2'
+
+describe('computeLabelBreakdown', () => {
+  const sessions = [
+    createSession({ projectId: PROJECT_A, tags: ['writing', 'review'] }),
+    createSession({ projectId: PROJECT_B, tags: ['writing'] }),
+    createSession({ projectId: PROJECT_B, completed: false, elapsed: 600 }),
+    createSession({ projectId: PROJECT_B }),
+    createSession(),
+    createSession({ type: 'shortBreak', projectId: PROJECT_A })
+  ]
+
+  it('should total focus time and pomodoros per project with unlabelled sessions last', () => {
+    expect(computeLabelBreakdown(sessions, 'project')).toEqual([
+      { key: PROJECT_B, pomodoros: 2, focusMinutes: 60 },
+      { key: PROJECT_A, pomodoros: 1, focusMinutes: 25 },
+      { key: null, pomodoros: 1, focusMinutes: 25 }
+    ])
+  })
+
+  it('should count sessions with several tags under each tag', () => {
+    expect(computeLabelBreakdown(sessions, 'tag')).toEqual([
+      { key: 'writing', pomodoros: 2, focusMinutes: 50 },
+      { key: 'review', pomodoros: 1, focusMinutes: 25 },
+      { key: null, pomodoros: 2, focusMinutes: 60 }
+    ])
+  })
+
+  it('should return an empty breakdown without work sessions', () => {
+    expect(computeLabelBreakdown([createSession({ type: 'longBreak' })], 'tag')).toEqual([])
+  })
+})
+
+describe('collectSessionTags', () => {
+  it('should list each tag once in alphabetical order', () => {
+    expect(collectSessionTags([
+      createSession({ tags: ['writing', 'review'] }),
+      createSession({ tags: ['admin', 'writing'] }),
+      createSession()
+    ])).toEqual(['admin', 'review', 'writing'])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toDateTimeLocal,
+  parseDateTimeLocal,
+  findOverlappingSession,
+  buildSessionFromEntry
+} from '../../../utils/sessionEntry'
+import type { PomodoroSession, SessionEntryInput } from '../../../types'
+
+/** 09:00から09:25まで（ローカルタイム）の作業セッション */
+const SESSION: PomodoroSession = {
+  id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+  type: 'work',
+  duration: 1500,
+  startTime: new Date(2025, 2, 1, 9, 0, 12).toISOString(),
+  endTime: new Date(2025, 2, 1, 9, 25, 12).toISOString(),
+  completed: true,
+  interrupted: false,
+  tags: ['deep'],
+  note: 'Drafted the intro',
+  pauses: [{ start: new Date(2025, 2, 1, 9, 10).toISOString(), end: new Date(2025, 2, 1, 9, 11).toISOString() }],
+  pausedSeconds: 60,
+  focusSeconds: 1440
+}
+
+/** SESSIONと同じ内容の入力 */
+const INPUT: SessionEntryInput = {
+  type: 'work',
+  start: '2025-03-01T09:00',
+  end: '2025-03-01T09:25',
+  completed: true,
+  taskId: null,
+  projectId: null,
+  tags: ['deep']
+}
+
+describe('toDateTimeLocal / parseDateTimeLocal', () => {
+  it('should convert between ISO strings and local datetime-local values', () => {
+    expect(toDateTimeLocal(SESSION.startTime)).toBe('2025-03-01T09:00')
+    expect(parseDateTimeLocal('2025-03-01T09:00')).toBe(new Date(2025, 2, 1, 9, 0).toISOString())
+    expect(parseDateTimeLocal('')).toBeNull()
+    expect(parseDateTimeLocal('2025-03-01')).toBeNull()
+    expect(parseDateTimeLocal('2025-13-45T09:00')).toBeNull()
+  })
+})
+
+describe('findOverlappingSession', () => {
+  it('should find sessions whose ranges overlap', () => {
+    const at = (minutes: number) => new Date(2025, 2, 1, 9, minutes).toISOString()
+    const other = { ...SESSION, id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02', startTime: at(0), endTime: at(25) }
+
+    expect(findOverlappingSession([other], { id: SESSION.id, startTime: at(20), endTime: at(30) })).toBe(other)
+    expect(findOverlappingSession([other], { id: SESSION.id, startTime: at(25), endTime: at(30) })).toBeNull()
+    expect(findOverlappingSession([other], { id: other.id, startTime: at(20), endTime: at(30) })).toBeNull()
+  })
+})
+
+describe('buildSessionFromEntry', () => {
+  it('should create a manual session with labels only for work', () => {
+    const id = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02'
+    const session = buildSessionFromEntry(
+      { ...INPUT, completed: false, tags: [' deep ', 'deep', ''], projectId: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b11' },
+      { id, duration: 1500 }
+    )
+    expect(session).toEqual({
+      id,
+      type: 'work',
+      duration: 1500,
+      startTime: new Date(2025, 2, 1, 9, 0).toISOString(),
+      endTime: new Date(2025, 2, 1, 9, 25).toISOString(),
+      completed: false,
+      interrupted: true,
+      manual: true,
+      projectId: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b11',
+      tags: ['deep'],
+      focusSeconds: 1500
+    })
+
+    const rest = buildSessionFromEntry({ ...INPUT, type: 'shortBreak' }, { id, duration: 300 })
+    expect(rest?.tags).toBeUndefined()
+    expect(buildSessionFromEntry({ ...INPUT, end: '' }, { id, duration: 1500 })).toBeNull()
+  })
+
+  it('should keep the recorded times, pauses and focus time when the range is unchanged', () => {
+    expect(buildSessionFromEntry(INPUT, { id: SESSION.id, duration: 1500, base: SESSION })).toEqual(SESSION)
+  })
+
+  it('should recompute the focus time and drop pauses outside a changed range', () => {
+    const longer = buildSessionFromEntry({ ...INPUT, end: '2025-03-01T09:30' }, { id: SESSION.id, duration: 1500, base: SESSION })
+    expect(longer).toMatchObject({ pausedSeconds: 60, focusSeconds: 1728 })
+
+    const later = buildSessionFromEntry({ ...INPUT, start: '2025-03-01T09:15' }, { id: SESSION.id, duration: 1500, base: SESSION })
+    expect(later?.pauses).toBeUndefined()
+    expect(later?.focusSeconds).toBe(612)
+  })
+
+  it('should keep the recorded interval only while the type is unchanged', () => {
+    const base = { ...SESSION, intervalId: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b09', intervalName: 'Warm-up' }
+    expect(buildSessionFromEntry(INPUT, { id: SESSION.id, duration: 1500, base })).toEqual(base)
+
+    const rest = buildSessionFromEntry({ ...INPUT, type: 'shortBreak' }, { id: SESSION.id, duration: 300, base })
+    expect(rest).not.toHaveProperty('intervalId')
+    expect(rest).not.toHaveProperty('intervalName')
+  })
+
+  it('should drop the reflection when a work session becomes a break', () => {
+    const session = buildSessionFromEntry({ ...INPUT, type: 'longBreak' }, { id: SESSION.id, duration: 900, base: SESSION })
+    expect(session).toMatchObject({ type: 'longBreak', duration: 900 })
+    expect(session?.note).toBeUndefined()
+    expect(session?.tags).toBeUndefined()
+  })
+})
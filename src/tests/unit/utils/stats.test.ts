@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toDayKey,
+  getSessionFocusSeconds,
+  getSessionOverrunSeconds,
+  computeStreaks,
+  computeHistoryStats,
+  computeSessionStats
+} from '../../../utils/stats'
+import { createSession } from '../../helpers/session'
+
+/** 基準日時（2025年3月20日 12:00、ローカルタイム） */
+const NOW = new Date(2025, 2, 20, 12, 0, 0)
+
+/**
+ * 基準日から指定日数前の9時を返す
+ * @param days - 日数
+ */
+const daysAgo = (days: number) => new Date(2025, 2, 20 - days, 9, 0, 0)
+
+describe('stats', () => {
+  describe('toDayKey', () => {
+    it('should use the local calendar date', () => {
+      expect(toDayKey(new Date(2025, 0, 5, 23, 59))).toBe('2025-01-05')
+      expect(toDayKey(new Date(2025, 11, 31, 0, 0))).toBe('2025-12-31')
+    })
+  })
+
+  describe('getSessionFocusSeconds', () => {
+    it('should use the focused time measured when the session ended', () => {
+      expect(getSessionFocusSeconds(createSession({ start: NOW, elapsed: 2000, focusSeconds: 1400 }))).toBe(1400)
+    })
+
+    it('should derive the focused time from the elapsed time without the paused time', () => {
+      expect(getSessionFocusSeconds(createSession({ start: NOW, elapsed: 2000 }))).toBe(2000)
+      expect(getSessionFocusSeconds(createSession({ start: NOW, completed: false, elapsed: 600 }))).toBe(600)
+      expect(getSessionFocusSeconds(createSession({ start: NOW, elapsed: 1800, pausedSeconds: 300 }))).toBe(1500)
+    })
+
+    it('should fall back to the planned duration for completed sessions without a usable end time', () => {
+      expect(getSessionFocusSeconds(createSession({ start: NOW, endTime: '' }))).toBe(1500)
+      expect(getSessionFocusSeconds(createSession({ start: NOW, completed: false, endTime: '' }))).toBe(0)
+    })
+  })
+
+  describe('getSessionOverrunSeconds', () => {
+    it('should report overruns as positive and underruns as negative', () => {
+      expect(getSessionOverrunSeconds(createSession({ start: NOW, elapsed: 1620 }))).toBe(120)
+      expect(getSessionOverrunSeconds(createSession({ start: NOW, completed: false, elapsed: 600 }))).toBe(-900)
+      expect(getSessionOverrunSeconds(createSession({ start: NOW }))).toBe(0)
+    })
+  })
+
+  describe('computeStreaks', () => {
+    it('should return zero without completed pomodoros', () => {
+      expect(computeStreaks([], NOW)).toEqual({ current: 0, longest: 0 })
+    })
+
+    it('should count consecutive days ending today', () => {
+      const sessions = [daysAgo(0), daysAgo(1), daysAgo(2)].map(day => createSession({ start: day }))
+      expect(computeStreaks(sessions, NOW)).toEqual({ current: 3, longest: 3 })
+    })
+
+    it('should keep the streak alive until the end of today', () => {
+      const sessions = [daysAgo(1), daysAgo(2)].map(day => createSession({ start: day }))
+      expect(computeStreaks(sessions, NOW).current).toBe(2)
+    })
+
+    it('should break the streak after a missed day', () => {
+      const sessions = [daysAgo(2), daysAgo(3), daysAgo(4), daysAgo(5)].map(day => createSession({ start: day }))
+      expect(computeStreaks(sessions, NOW)).toEqual({ current: 0, longest: 4 })
+    })
+
+    it('should ignore breaks and interrupted work sessions', () => {
+      const sessions = [
+        createSession({ start: daysAgo(0) }),
+        createSession({ start: daysAgo(1), type: 'shortBreak' }),
+        createSession({ start: daysAgo(2), completed: false })
+      ]
+      expect(computeStreaks(sessions, NOW)).toEqual({ current: 1, longest: 1 })
+    })
+
+    it('should count several pomodoros on one day once', () => {
+      const sessions = [createSession({ start: daysAgo(0) }), createSession({ start: new Date(2025, 2, 20, 10, 0) })]
+      expect(computeStreaks(sessions, NOW).current).toBe(1)
+    })
+
+    it('should follow streaks across month boundaries', () => {
+      const now = new Date(2025, 2, 1, 12, 0)
+      const sessions = [new Date(2025, 2, 1, 9), new Date(2025, 1, 28, 9), new Date(2025, 1, 27, 9)]
+        .map(day => createSession({ start: day }))
+      expect(computeStreaks(sessions, now)).toEqual({ current: 3, longest: 3 })
+    })
+  })
+
+  describe('computeHistoryStats', () => {
+    it('should derive the stored stats from the sessions', () => {
+      const sessions = [
+        createSession({ start: daysAgo(0) }),
+        createSession({ start: daysAgo(0), type: 'shortBreak' }),
+        createSession({ start: daysAgo(1), completed: false, elapsed: 600 })
+      ]
+
+      expect(computeHistoryStats(sessions, NOW)).toEqual({
+        totalSessions: 3,
+        completedSessions: 1,
+        totalWorkTime: 2100,
+        streakDays: 1
+      })
+    })
+
+    it('should return empty stats without sessions', () => {
+      expect(computeHistoryStats([], NOW)).toEqual({
+        totalSessions: 0,
+        completedSessions: 0,
+        totalWorkTime: 0,
+        streakDays: 0
+      })
+    })
+  })
+
+  describe('computeSessionStats', () => {
+    it('should count pomodoros per period', () => {
+      const sessions = [
+        createSession({ start: daysAgo(0) }),
+        createSession({ start: daysAgo(3) }),
+        createSession({ start: daysAgo(10) }),
+        createSession({ start: daysAgo(40) }),
+        createSession({ start: daysAgo(0), type: 'longBreak', duration: 900 })
+      ]
+
+      const stats = computeSessionStats(sessions, NOW)
+      expect(stats.todayPomodoros).toBe(1)
+      expect(stats.weeklyPomodoros).toBe(2)
+      expect(stats.monthlyPomodoros).toBe(3)
+    })
+
+    it('should compute focus minutes, completion rate and average length', () => {
+      const sessions = [
+        createSession({ start: daysAgo(0) }),
+        createSession({ start: daysAgo(0), completed: false, elapsed: 300 }),
+        createSession({ start: daysAgo(1), duration: 3000 }),
+        createSession({ start: daysAgo(1), type: 'shortBreak' })
+      ]
+
+      const stats = computeSessionStats(sessions, NOW)
+      expect(stats.focusMinutes).toBe(80)
+      expect(stats.completionRate).toBeCloseTo(2 / 3)
+      expect(stats.averageSessionMinutes).toBeCloseTo(80 / 3)
+      expect(stats.currentStreak).toBe(2)
+      expect(stats.longestStreak).toBe(2)
+    })
+
+    it('should return zeros without work sessions', () => {
+      const stats = computeSessionStats([createSession({ start: NOW, type: 'shortBreak' })], NOW)
+      expect(stats.completionRate).toBe(0)
+      expect(stats.averageSessionMinutes).toBe(0)
+      expect(stats.focusMinutes).toBe(0)
+      expect(stats.averageFocusRating).toBeNull()
+    })
+
+    it('should average the focus rating of rated work sessions only', () => {
+      const sessions = [
+        createSession({ start: daysAgo(0), focusRating: 4 }),
+        createSession({ start: daysAgo(1), focusRating: 3 }),
+        createSession({ start: daysAgo(2) }),
+        createSession({ start: daysAgo(0), type: 'shortBreak', focusRating: 1 })
+      ]
+
+      expect(computeSessionStats(sessions, NOW).averageFocusRating).toBe(3.5)
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { historyStorage, settingsStorage } from '../../../utils/storageMigrations'
+import { loadVersionedData } from '../../../utils/versionedStorage'
+import { DefaultPomodoroSettings } from '../../../types'
+import { createCyclePlan } from '../../../utils/cyclePlans'
+import type { PomodoroSession } from '../../../types'
+
+const session: PomodoroSession = {
+  id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b01',
+  type: 'work',
+  duration: 1500,
+  startTime: '2025-03-20T09:00:00.000Z',
+  endTime: '2025-03-20T09:25:00.000Z',
+  completed: true,
+  interrupted: false
+}
+
+/**
+ * ローカルストレージのバックアップのキーを取得する
+ * @param key - 元のキー名
+ */
+const getBackupKeys = (key: string) => Object.keys(localStorage).filter(name => name.startsWith(`${key}-backup-`))
+
+describe('storageMigrations', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('historyStorage', () => {
+    it('should upgrade the unversioned history format', () => {
+      localStorage.setItem('pomodoro-history', JSON.stringify({
+        sessions: [session],
+        stats: { totalSessions: 1, completedSessions: 1, totalWorkTime: 1500, streakDays: 1 }
+      }))
+
+      const result = loadVersionedData(historyStorage)
+
+      expect(result).toMatchObject({ status: 'loaded', migratedFrom: 0, data: { sessions: [session] } })
+      expect(JSON.parse(localStorage.getItem('pomodoro-history')!).version).toBe(1)
+    })
+
+    it('should give sessions with timestamp-based ids a UUID and fill in missing stats', () => {
+      localStorage.setItem('pomodoro-history', JSON.stringify({
+        sessions: [{ ...session, id: '1700000000000-abc123xyz' }]
+      }))
+
+      const result = loadVersionedData(historyStorage)
+
+      expect(result.status).toBe('loaded')
+      const data = (result as Extract<typeof result, { status: 'loaded' }>).data
+      expect(data.sessions[0].id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+      expect(data.stats.totalSessions).toBe(1)
+    })
+
+    it('should keep the valid sessions and back up the stored history when some are invalid', () => {
+      const stored = JSON.stringify({
+        version: 1,
+        data: {
+          sessions: [session, { ...session, id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02', type: 'nap' }],
+          stats: { totalSessions: 2, completedSessions: 2, totalWorkTime: 3000, streakDays: 1 }
+        }
+      })
+      localStorage.setItem('pomodoro-history', stored)
+
+      const result = loadVersionedData(historyStorage)
+
+      expect(result).toMatchObject({ status: 'recovered', error: 'invalid_data', data: { sessions: [session] } })
+      expect(getBackupKeys('pomodoro-history').map(key => localStorage.getItem(key))).toEqual([stored])
+    })
+
+    it('should back up a history that is not an object', () => {
+      localStorage.setItem('pomodoro-history', '"not a history"')
+
+      expect(loadVersionedData(historyStorage)).toMatchObject({ status: 'quarantined', error: 'invalid_data' })
+      expect(getBackupKeys('pomodoro-history')).toHaveLength(1)
+      expect(localStorage.getItem('pomodoro-history')).toBeNull()
+    })
+  })
+
+  describe('settingsStorage', () => {
+    it('should fill in fields added after unversioned settings were saved', () => {
+      localStorage.setItem('pomodoro-settings', JSON.stringify({
+        workDuration: 30,
+        shortBreakDuration: 10,
+        longBreakDuration: 20,
+        sessionsBeforeLongBreak: 4,
+        autoStartNextSession: true,
+        notifications: { visual: true, audio: false, sound: 'chime' },
+        theme: 'dark',
+        language: 'ja'
+      }))
+
+      const result = loadVersionedData(settingsStorage)
+
+      expect(result).toMatchObject({
+        status: 'loaded',
+        migratedFrom: 0,
+        data: { workDuration: 30, autoStartBreaks: true, autoStartDelay: 5, notifications: { sound: 'chime', volume: 70 } }
+      })
+    })
+
+    it('should reset only the invalid fields and back up the stored settings', () => {
+      const stored = JSON.stringify({
+        version: 1,
+        data: {
+          ...new DefaultPomodoroSettings(),
+          workDuration: 45,
+          shortBreakDuration: 'soon',
+          theme: 'neon',
+          notifications: { visual: false, audio: true, sound: 'gong', volume: 30 }
+        }
+      })
+      localStorage.setItem('pomodoro-settings', stored)
+
+      const result = loadVersionedData(settingsStorage)
+
+      expect(result).toMatchObject({
+        status: 'recovered',
+        data: {
+          workDuration: 45,
+          shortBreakDuration: 5,
+          theme: 'system',
+          notifications: { visual: false, audio: true, sound: 'bell', volume: 30 }
+        }
+      })
+      expect(getBackupKeys('pomodoro-settings').map(key => localStorage.getItem(key))).toEqual([stored])
+    })
+
+    it('should keep the valid cycle plans and leave an invalid active plan', () => {
+      const plan = createCyclePlan('ultradian', () => 'Plan')
+      const broken = { ...createCyclePlan('warmUp', () => 'Plan'), repeatFrom: 9 }
+      localStorage.setItem('pomodoro-settings', JSON.stringify({
+        version: 1,
+        data: { ...new DefaultPomodoroSettings(), cyclePlans: [plan, broken], activePlanId: broken.id }
+      }))
+
+      const result = loadVersionedData(settingsStorage)
+
+      expect(result).toMatchObject({ status: 'recovered', data: { cyclePlans: [plan], activePlanId: null } })
+    })
+
+    it('should keep only the valid presets', () => {
+      const preset = {
+        id: '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8b02',
+        name: 'Deep work',
+        timing: { workDuration: 50, shortBreakDuration: 10, longBreakDuration: 30, sessionsBeforeLongBreak: 3, activePlanId: null }
+      }
+      localStorage.setItem('pomodoro-settings', JSON.stringify({
+        version: 1,
+        data: { ...new DefaultPomodoroSettings(), presets: [preset, { ...preset, name: '' }] }
+      }))
+
+      const result = loadVersionedData(settingsStorage)
+
+      expect(result).toMatchObject({ status: 'recovered', data: { presets: [preset] } })
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import type { Task } from '../../../types'
+import { countPomodorosByTask, computeTaskProgress } from '../../../utils/tasks'
+import { createSession } from '../../helpers/session'
+
+const TASK_A = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba1'
+const TASK_B = '0b9a7a3e-1c1f-4f3e-9d2a-2f6f0c1a8ba2'
+
+/**
+ * テスト用のタスクを作成する
+ * @param id - タスクID
+ * @param estimatedPomodoros - 見積もりのポモドーロ数
+ */
+const createTask = (id: string, estimatedPomodoros: number): Task => ({
+  id,
+  title: `Task ${id.slice(-2)}`,
+  estimatedPomodoros,
+  completed: false,
+  createdAt: '2025-03-01T08:00:00.000Z',
+  completedAt: null
+})
+
+describe('countPomodorosByTask', () => {
+  it('should count only completed work sessions linked to a task', () => {
+    const counts = countPomodorosByTask([
+      createSession({ taskId: TASK_A }),
+      createSession({ taskId: TASK_A }),
+      createSession({ taskId: TASK_A, completed: false }),
+      createSession({ taskId: TASK_B, type: 'shortBreak' }),
+      createSession()
+    ])
+
+    expect([...counts]).toEqual([[TASK_A, 2]])
+  })
+})
+
+describe('computeTaskProgress', () => {
+  it('should compare actual pomodoros with the estimate', () => {
+    const progress = computeTaskProgress(
+      [createTask(TASK_A, 1), createTask(TASK_B, 3)],
+      [createSession({ taskId: TASK_A }), createSession({ taskId: TASK_A }), createSession({ taskId: TASK_B })]
+    )
+
+    expect(progress.map(({ task, actualPomodoros, overEstimate }) => [task.id, actualPomodoros, overEstimate])).toEqual([
+      [TASK_A, 2, true],
+      [TASK_B, 1, false]
+    ])
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { z } from 'zod'
+import {
+  getStorageVersion,
+  migrateData,
+  loadVersionedData,
+  saveVersionedData,
+  type VersionedStorageDefinition
+} from '../../../utils/versionedStorage'
+
+const CounterSchema = z.object({ count: z.number().int().nonnegative(), label: z.string() })
+type Counter = z.infer<typeof CounterSchema>
+
+/** テスト用の保存データの定義（v0: 数値のみ → v1: count → v2: label追加） */
+const counterStorage: VersionedStorageDefinition<Counter> = {
+  key: 'counter',
+  migrations: [
+    { version: 1, description: 'Wrap the number', migrate: data => ({ count: data }) },
+    { version: 2, description: 'Add a label', migrate: data => ({ ...(data as object), label: 'default' }) }
+  ],
+  schema: CounterSchema,
+  recover: data => {
+    const label = (data as Partial<Counter>)?.label
+    return typeof label === 'string' ? { count: 0, label } : null
+  }
+}
+
+/**
+ * ローカルストレージのバックアップのキーを取得する
+ */
+const getBackupKeys = () => Object.keys(localStorage).filter(key => key.startsWith('counter-backup-'))
+
+describe('versionedStorage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should use the last migration as the current version', () => {
+    expect(getStorageVersion(counterStorage)).toBe(2)
+  })
+
+  it('should apply only the migrations after the stored version in order', () => {
+    expect(migrateData(counterStorage, 3, 0)).toEqual({ count: 3, label: 'default' })
+    expect(migrateData(counterStorage, { count: 3 }, 1)).toEqual({ count: 3, label: 'default' })
+    expect(migrateData(counterStorage, { count: 3, label: 'x' }, 2)).toEqual({ count: 3, label: 'x' })
+  })
+
+  it('should save data with the current version', () => {
+    saveVersionedData(counterStorage, { count: 1, label: 'a' })
+    expect(JSON.parse(localStorage.getItem('counter')!)).toEqual({ version: 2, data: { count: 1, label: 'a' } })
+  })
+
+  it('should report missing data as empty', () => {
+    expect(loadVersionedData(counterStorage)).toEqual({ status: 'empty' })
+  })
+
+  it('should load data saved with the current version', () => {
+    saveVersionedData(counterStorage, { count: 1, label: 'a' })
+    expect(loadVersionedData(counterStorage)).toEqual({ status: 'loaded', data: { count: 1, label: 'a' }, migratedFrom: null })
+  })
+
+  it('should upgrade unversioned and older data and save the result', () => {
+    localStorage.setItem('counter', '5')
+
+    expect(loadVersionedData(counterStorage)).toEqual({ status: 'loaded', data: { count: 5, label: 'default' }, migratedFrom: 0 })
+    expect(JSON.parse(localStorage.getItem('counter')!)).toEqual({ version: 2, data: { count: 5, label: 'default' } })
+
+    localStorage.setItem('counter', JSON.stringify({ version: 1, data: { count: 2 } }))
+    expect(loadVersionedData(counterStorage)).toMatchObject({ status: 'loaded', migratedFrom: 1 })
+  })
+
+  it('should back up unparsable data instead of discarding it', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1700000000000)
+    localStorage.setItem('counter', '{ broken')
+
+    expect(loadVersionedData(counterStorage)).toEqual({
+      status: 'quarantined',
+      error: 'parse_error',
+      backupKey: 'counter-backup-1700000000000'
+    })
+    expect(localStorage.getItem('counter-backup-1700000000000')).toBe('{ broken')
+    expect(localStorage.getItem('counter')).toBeNull()
+  })
+
+  it('should leave data written by a newer version unchanged', () => {
+    const newer = JSON.stringify({ version: 3, data: { count: 1, label: 'a', extra: true } })
+    localStorage.setItem('counter', newer)
+
+    expect(loadVersionedData(counterStorage)).toEqual({ status: 'unsupported', error: 'unsupported_version', version: 3 })
+    expect(loadVersionedData(counterStorage)).toMatchObject({ status: 'unsupported' })
+    expect(localStorage.getItem('counter')).toBe(newer)
+    expect(getBackupKeys()).toEqual([])
+  })
+
+  it('should back up data that fails to migrate', () => {
+    const failing: VersionedStorageDefinition<Counter> = {
+      ...counterStorage,
+      migrations: [{ version: 1, description: 'Fail', migrate: () => { throw new Error('boom') } }]
+    }
+    localStorage.setItem('counter', '5')
+
+    expect(loadVersionedData(failing)).toMatchObject({ status: 'quarantined', error: 'migration_failed' })
+    expect(getBackupKeys()).toHaveLength(1)
+  })
+
+  it('should replace invalid data with the recovered part after backing it up', () => {
+    const invalid = JSON.stringify({ version: 2, data: { count: -1, label: 'kept' } })
+    localStorage.setItem('counter', invalid)
+
+    expect(loadVersionedData(counterStorage)).toMatchObject({
+      status: 'recovered',
+      data: { count: 0, label: 'kept' },
+      error: 'invalid_data'
+    })
+    expect(getBackupKeys().map(key => localStorage.getItem(key))).toEqual([invalid])
+    expect(JSON.parse(localStorage.getItem('counter')!).data).toEqual({ count: 0, label: 'kept' })
+  })
+
+  it('should keep the original data when the backup cannot be written', () => {
+    localStorage.setItem('counter', '{ broken')
+    vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError')
+    })
+
+    expect(loadVersionedData(counterStorage)).toEqual({ status: 'quarantined', error: 'parse_error', backupKey: null })
+    expect(localStorage.getItem('counter')).toBe('{ broken')
+  })
+})
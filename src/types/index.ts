@@ -2,24 +2,86 @@ import { z } from 'zod';
 
 /**
  * 通知設定のスキーマ定義
- * ビジュアル通知、オーディオ通知、通知音の設定を管理
+ * ビジュアル通知、オーディオ通知、通知音、音量の設定を管理
  */
 const NotificationSchema = z.object({
   visual: z.boolean(),
   audio: z.boolean(),
-  sound: z.enum(['bell', 'chime', 'ding', 'none'])
+  sound: z.enum(['bell', 'chime', 'ding', 'none']),
+  volume: z.number().int().min(0).max(100).default(70) // 0-100 percent
 });
 
+/** サイクルプランに含められるインターバルの上限 */
+export const MAX_PLAN_INTERVALS = 12;
+
+/** 保存できるサイクルプランの上限 */
+export const MAX_CYCLE_PLANS = 20;
+
+/** 保存できる設定プリセットの上限 */
+export const MAX_SETTINGS_PRESETS = 10;
+
 /**
- * ポモドーロタイマーの設定項目スキーマ
- * 作業時間、休憩時間、通知設定、テーマなどの全設定を定義
+ * サイクルプランのインターバルのスキーマ定義
+ * 名前、作業・休憩のどちらとして記録するか、時間、表示色と絵文字を管理
  */
-export const PomodoroSettingsSchema = z.object({
+export const CycleIntervalSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(30),
+  type: z.enum(['work', 'shortBreak', 'longBreak']), // Recorded session type, used by stats and auto start
+  duration: z.number().int().min(1).max(120), // 1-120 minutes
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  emoji: z.string().trim().min(1).max(8)
+});
+
+/**
+ * サイクルプランのスキーマ定義
+ * インターバルを順に実行し、最後まで進んだらrepeatFrom番目のインターバルから繰り返す
+ */
+export const CyclePlanSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(40),
+  intervals: z.array(CycleIntervalSchema).min(1).max(MAX_PLAN_INTERVALS),
+  repeatFrom: z.number().int().min(0) // Index to loop back to, so a warm-up block runs only once
+}).refine(plan => plan.repeatFrom < plan.intervals.length, {
+  path: ['repeatFrom'],
+  message: 'repeatFrom must point at an interval of the plan'
+});
+
+/**
+ * タイミングの設定項目のスキーマ定義
+ * 作業・休憩の時間、長い休憩までのセッション数と実行するサイクルプランを定義し、設定プリセットにも使う
+ */
+export const TimingSettingsSchema = z.object({
   workDuration: z.number().min(1).max(120), // 1-120 minutes
   shortBreakDuration: z.number().min(1).max(60), // 1-60 minutes
   longBreakDuration: z.number().min(1).max(120), // 1-120 minutes
   sessionsBeforeLongBreak: z.number().min(2).max(10), // 2-10 sessions
+  activePlanId: z.string().uuid().nullable().default(null) // null runs the classic work/break cycle
+});
+
+/**
+ * 設定プリセットのスキーマ定義
+ * 名前を付けて保存したタイミングの設定項目を管理
+ */
+export const SettingsPresetSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(40),
+  timing: TimingSettingsSchema
+});
+
+/**
+ * ポモドーロタイマーの設定項目スキーマ
+ * 作業時間、休憩時間、通知設定、テーマなどの全設定を定義
+ */
+export const PomodoroSettingsSchema = z.object({
+  ...TimingSettingsSchema.shape,
   autoStartNextSession: z.boolean(),
+  autoStartBreaks: z.boolean().default(true), // Auto start work → break transitions
+  autoStartWorkSessions: z.boolean().default(true), // Auto start break → work transitions
+  autoStartDelay: z.number().int().min(1).max(60).default(5), // 1-60 seconds grace countdown
+  reflectionPrompt: z.boolean().default(true), // Ask for a note and focus rating after work sessions
+  cyclePlans: z.array(CyclePlanSchema).max(MAX_CYCLE_PLANS).default([]), // User-defined interval sequences
+  presets: z.array(SettingsPresetSchema).max(MAX_SETTINGS_PRESETS).default([]), // Named timing settings for quick switching
   notifications: NotificationSchema,
   theme: z.enum(['light', 'dark', 'system']),
   language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/) // ISO language codes
@@ -28,18 +90,93 @@ export const PomodoroSettingsSchema = z.object({
 /** ポモドーロタイマーの設定型 */
 export type PomodoroSettings = z.infer<typeof PomodoroSettingsSchema>;
 
+/** 通知設定の型 */
+export type NotificationSettings = z.infer<typeof NotificationSchema>;
+
+/** サイクルプランのインターバルの型 */
+export type CycleInterval = z.infer<typeof CycleIntervalSchema>;
+
+/** サイクルプランの型 */
+export type CyclePlan = z.infer<typeof CyclePlanSchema>;
+
+/** タイミングの設定項目の型 */
+export type TimingSettings = z.infer<typeof TimingSettingsSchema>;
+
+/** 設定プリセットの型 */
+export type SettingsPreset = z.infer<typeof SettingsPresetSchema>;
+
+/**
+ * セッションに付けるタグのスキーマ定義
+ * 自由入力のラベル（前後の空白は取り除く）
+ */
+export const TagSchema = z.string().trim().min(1).max(30);
+
+/** 1つのセッションに付けられるタグの上限 */
+export const MAX_SESSION_TAGS = 10;
+
+/** 振り返りのメモの最大文字数 */
+export const NOTE_MAX_LENGTH = 500;
+
+/** 集中度の評価の最大値（1〜5の5段階） */
+export const FOCUS_RATING_MAX = 5;
+
+/**
+ * 作業セッションの振り返りのスキーマ定義
+ * 取り組んだ内容のメモと集中度の評価（どちらも任意）
+ */
+export const SessionReflectionSchema = z.object({
+  note: z.string().trim().max(NOTE_MAX_LENGTH).optional(),
+  focusRating: z.number().int().min(1).max(FOCUS_RATING_MAX).optional()
+});
+
+/** 中断の理由の最大文字数 */
+export const INTERRUPTION_REASON_MAX_LENGTH = 100;
+
+/**
+ * 作業セッション中の中断のスキーマ定義
+ * 内的中断（自分の思いつきなど）と外的中断（電話・声かけなど）を、任意の理由と記録した日時とともに管理
+ */
+export const InterruptionSchema = z.object({
+  id: z.string().uuid(),
+  kind: z.enum(['internal', 'external']),
+  reason: z.string().trim().min(1).max(INTERRUPTION_REASON_MAX_LENGTH).optional(),
+  at: z.string().datetime()
+});
+
+/**
+ * セッションの一時停止の区間のスキーマ定義
+ * 一時停止した日時と再開した日時（一時停止中の区間は再開した日時なし）を管理
+ */
+export const PauseIntervalSchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime().optional()
+});
+
 /**
  * ポモドーロセッション（作業・休憩の一単位）のスキーマ定義
- * セッションの開始・終了時刻、完了状態、中断状態を管理
+ * セッションの予定時間、開始・終了時刻、実際に集中した時間、完了状態、中断状態を管理
  */
 export const PomodoroSessionSchema = z.object({
   id: z.string().uuid(),
   type: z.enum(['work', 'shortBreak', 'longBreak']),
-  duration: z.number().positive(),
+  duration: z.number().positive(), // Planned length in seconds
   startTime: z.string().datetime(),
   endTime: z.string().datetime(),
   completed: z.boolean(),
-  interrupted: z.boolean()
+  interrupted: z.boolean(),
+  autoStarted: z.boolean().optional(), // Started by the auto start countdown
+  manual: z.boolean().optional(), // Added by hand from the history page
+  intervalId: CycleIntervalSchema.shape.id.optional(), // Cycle plan interval the session ran, absent for the classic cycle
+  intervalName: CycleIntervalSchema.shape.name.optional(), // Name of that interval when the session ran
+  taskId: z.string().uuid().optional(), // Task worked on during a work session
+  projectId: z.string().uuid().optional(), // Project the work session is reported under
+  tags: z.array(TagSchema).max(MAX_SESSION_TAGS).optional(), // Free-form labels for reporting
+  note: SessionReflectionSchema.shape.note, // What got done, written after a work session
+  focusRating: SessionReflectionSchema.shape.focusRating, // Self-rated focus from 1 to 5
+  interruptions: z.array(InterruptionSchema).optional(), // Interruptions logged during a work session
+  pauses: z.array(PauseIntervalSchema).optional(), // Pause and resume intervals in recorded order
+  pausedSeconds: z.number().int().min(0).optional(), // Total seconds of the closed pause intervals
+  focusSeconds: z.number().int().min(0).optional() // Actual focused seconds, measured when the session ended
 });
 
 /**
@@ -56,12 +193,157 @@ export const PomodoroHistorySchema = z.object({
   })
 });
 
+/**
+ * 壁時計ベースのカウントダウンの基準点スキーマ
+ * 残り時間は開始時刻と累積一時停止時間から算出し、インターバルの遅延に影響されない
+ */
+export const TimerClockSchema = z.object({
+  startedAt: z.number().nonnegative(), // epoch milliseconds
+  duration: z.number().nonnegative(), // seconds
+  pausedAt: z.number().nonnegative().nullable(), // epoch milliseconds, null while running
+  pausedTime: z.number().nonnegative() // accumulated milliseconds
+});
+
+/**
+ * リロードやブラウザ再起動をまたいで保持するタイマー状態のスキーマ
+ * 実行中のセッションとカウントダウンの基準点を含む
+ */
+export const PersistedTimerStateSchema = z.object({
+  currentSession: PomodoroSessionSchema.nullable(),
+  isRunning: z.boolean(),
+  isPaused: z.boolean(),
+  remainingTime: z.number().nonnegative(),
+  currentSessionType: z.enum(['work', 'shortBreak', 'longBreak']),
+  cycleIndex: z.number().int().nonnegative().default(0), // Position in the active cycle plan
+  clock: TimerClockSchema.nullable(),
+  autoStartAt: z.number().nonnegative().nullable().default(null) // epoch milliseconds of the pending auto start
+});
+
+/**
+ * タスクのスキーマ定義
+ * 作業内容、見積もりのポモドーロ数、完了状態を管理
+ */
+export const TaskSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().trim().min(1).max(100),
+  estimatedPomodoros: z.number().int().min(1).max(20),
+  completed: z.boolean(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable()
+});
+
+/**
+ * タスクの作成・編集時の入力スキーマ
+ * タスク名と見積もりのポモドーロ数のみを受け付ける
+ */
+export const TaskInputSchema = TaskSchema.pick({ title: true, estimatedPomodoros: true });
+
+/**
+ * 保存するタスク一覧のスキーマ
+ * タスクと、次の作業セッションに紐付ける選択中のタスクを保持
+ */
+export const TaskListSchema = z.object({
+  tasks: z.array(TaskSchema),
+  activeTaskId: z.string().uuid().nullable()
+});
+
+/**
+ * プロジェクトのスキーマ定義
+ * 作業セッションを集計する単位
+ */
+export const ProjectSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(50)
+});
+
+/**
+ * 保存するプロジェクトとタグのスキーマ
+ * 登録済みのプロジェクトとタグ、次の作業セッションに付ける選択中のプロジェクトとタグを保持
+ */
+export const LabelsSchema = z.object({
+  projects: z.array(ProjectSchema),
+  tags: z.array(TagSchema),
+  selectedProjectId: z.string().uuid().nullable(),
+  selectedTags: z.array(TagSchema).max(MAX_SESSION_TAGS)
+});
+
+/** 履歴エクスポートファイルの形式のバージョン（形式を変更した場合に増やす） */
+export const HISTORY_EXPORT_VERSION = 1;
+
+/**
+ * 履歴エクスポートファイル（JSON）のスキーマ定義
+ * バックアップ・インポート用に、形式のバージョン、出力日時、対象期間と履歴データを保持
+ */
+export const HistoryExportSchema = z.object({
+  app: z.literal('pomodoro-timer'),
+  version: z.literal(HISTORY_EXPORT_VERSION),
+  exportedAt: z.string().datetime(),
+  range: z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(), // YYYY-MM-DD in local time, inclusive
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable()
+  }),
+  history: PomodoroHistorySchema
+});
+
+/** 設定エクスポートファイルの形式のバージョン（形式を変更した場合に増やす） */
+export const SETTINGS_EXPORT_VERSION = 1;
+
+/**
+ * 設定エクスポートファイル（JSON）のスキーマ定義
+ * バックアップ用に、形式のバージョン、出力日時と設定プリセットを含む設定を保持
+ */
+export const SettingsExportSchema = z.object({
+  app: z.literal('pomodoro-timer'),
+  version: z.literal(SETTINGS_EXPORT_VERSION),
+  exportedAt: z.string().datetime(),
+  settings: PomodoroSettingsSchema
+});
+
 /** ポモドーロセッションの型 */
 export type PomodoroSession = z.infer<typeof PomodoroSessionSchema>;
 
 /** ポモドーロ履歴データの型 */
 export type PomodoroHistory = z.infer<typeof PomodoroHistorySchema>;
 
+/** 履歴エクスポートファイルの型 */
+export type HistoryExport = z.infer<typeof HistoryExportSchema>;
+
+/** 設定エクスポートファイルの型 */
+export type SettingsExport = z.infer<typeof SettingsExportSchema>;
+
+/** カウントダウンの基準点の型 */
+export type TimerClock = z.infer<typeof TimerClockSchema>;
+
+/** 永続化されるタイマー状態の型 */
+export type PersistedTimerState = z.infer<typeof PersistedTimerStateSchema>;
+
+/** 作業セッション中の中断の型 */
+export type Interruption = z.infer<typeof InterruptionSchema>;
+
+/** 中断の種類（internal: 内的中断、external: 外的中断） */
+export type InterruptionKind = Interruption['kind'];
+
+/** 一時停止の区間の型 */
+export type PauseInterval = z.infer<typeof PauseIntervalSchema>;
+
+/** 作業セッションの振り返りの型 */
+export type SessionReflection = z.infer<typeof SessionReflectionSchema>;
+
+/** タスクの型 */
+export type Task = z.infer<typeof TaskSchema>;
+
+/** タスクの作成・編集時の入力の型 */
+export type TaskInput = z.infer<typeof TaskInputSchema>;
+
+/** 保存するタスク一覧の型 */
+export type TaskList = z.infer<typeof TaskListSchema>;
+
+/** プロジェクトの型 */
+export type Project = z.infer<typeof ProjectSchema>;
+
+/** 保存するプロジェクトとタグの型 */
+export type Labels = z.infer<typeof LabelsSchema>;
+
 /**
  * タイマーの現在状態を表すインターフェース
  * 実行中セッション、動作状態、残り時間などを管理
@@ -72,7 +354,21 @@ export interface TimerState {
   isPaused: boolean;
   remainingTime: number;
   currentSessionType: 'work' | 'shortBreak' | 'longBreak';
-  sessionsCompleted: number;
+}
+
+/**
+ * セッション切り替え時の自動開始設定を表すインターフェース
+ * 遷移ごとの自動開始可否と、開始までの猶予カウントダウンを管理
+ */
+export interface AutoStartOptions {
+  /** 自動開始を有効にするかどうか */
+  enabled: boolean;
+  /** 作業セッション完了後に休憩を自動開始するかどうか */
+  breaks: boolean;
+  /** 休憩完了後に作業セッションを自動開始するかどうか */
+  work: boolean;
+  /** 自動開始までの猶予時間（秒） */
+  delay: number;
 }
 
 /** セッションの種類（作業・短い休憩・長い休憩） */
@@ -84,6 +380,178 @@ export type ThemeMode = 'light' | 'dark' | 'system';
 /** 通知音の種類 */
 export type NotificationSound = 'bell' | 'chime' | 'ding' | 'none';
 
+/** 履歴データに保存する統計情報の型 */
+export type HistoryStats = PomodoroHistory['stats'];
+
+/**
+ * セッション履歴から算出する統計情報
+ * 完了した作業セッションを「ポモドーロ」として数え、履歴からいつでも再計算できる
+ */
+export interface SessionStats {
+  /** 今日まで（今日が未達成なら昨日まで）ポモドーロを完了した連続日数 */
+  currentStreak: number;
+  /** ポモドーロを完了した最長の連続日数 */
+  longestStreak: number;
+  /** 今日完了したポモドーロ数 */
+  todayPomodoros: number;
+  /** 過去1週間に完了したポモドーロ数 */
+  weeklyPomodoros: number;
+  /** 今月完了したポモドーロ数 */
+  monthlyPomodoros: number;
+  /** 作業セッションに集中した合計時間（分） */
+  focusMinutes: number;
+  /** 作業セッションのうち完了したものの割合（0〜1） */
+  completionRate: number;
+  /** 作業セッション1回あたりの平均集中時間（分） */
+  averageSessionMinutes: number;
+  /** 振り返りで評価した集中度の平均（1〜5、評価がない場合はnull） */
+  averageFocusRating: number | null;
+}
+
+/**
+ * タスクの進捗（見積もりと実績のポモドーロ数）
+ * 実績はタスクに紐付いた完了済みの作業セッションから算出する
+ */
+export interface TaskProgress {
+  /** 対象のタスク */
+  task: Task;
+  /** 完了したポモドーロ数 */
+  actualPomodoros: number;
+  /** 見積もりを超えたかどうか */
+  overEstimate: boolean;
+}
+
+/** 集計の単位（プロジェクト・タグ） */
+export type LabelKind = 'project' | 'tag';
+
+/**
+ * プロジェクト・タグごとの集計結果
+ * 作業セッションの集中時間と完了したポモドーロ数を集計する
+ */
+export interface LabelBreakdown {
+  /** プロジェクトIDまたはタグ（nullの場合はプロジェクト・タグなし） */
+  key: string | null;
+  /** 完了したポモドーロ数 */
+  pomodoros: number;
+  /** 集中時間（分） */
+  focusMinutes: number;
+}
+
+/**
+ * 中断の理由ごとの件数
+ */
+export interface InterruptionReasonCount {
+  /** 中断の理由（最初に記録された表記） */
+  reason: string;
+  /** 件数 */
+  count: number;
+}
+
+/**
+ * 1週間分の中断の推移
+ */
+export interface InterruptionTrendPoint {
+  /** 週の始まりの日付キー（YYYY-MM-DD） */
+  weekStart: string;
+  /** 記録した中断の件数 */
+  interruptions: number;
+  /** 作業セッション数 */
+  workSessions: number;
+  /** 作業セッション1回あたりの中断の件数 */
+  perPomodoro: number;
+}
+
+/**
+ * 中断の統計情報
+ * 作業セッションに記録した中断を種類・理由・週ごとに集計する
+ */
+export interface InterruptionStats {
+  /** 中断の件数 */
+  total: number;
+  /** 内的中断の件数 */
+  internal: number;
+  /** 外的中断の件数 */
+  external: number;
+  /** 作業セッション1回あたりの中断の件数 */
+  perPomodoro: number;
+  /** 件数の多い中断の理由 */
+  topReasons: InterruptionReasonCount[];
+  /** 週ごとの中断の推移（古い順） */
+  trend: InterruptionTrendPoint[];
+}
+
+/** 履歴の表示期間（今日・過去1週間・今月・全期間） */
+export type HistoryPeriod = 'today' | 'thisWeek' | 'thisMonth' | 'allTime';
+
+/**
+ * 振り返りの入力フォームの値
+ * メモは空文字、集中度は未評価の場合にnullとする
+ */
+export interface ReflectionInput {
+  /** 取り組んだ内容のメモ */
+  note: string;
+  /** 集中度の評価（1〜5、未評価の場合はnull） */
+  focusRating: number | null;
+}
+
+/**
+ * 履歴のセッションを手動で追加・編集するフォームの値
+ * 開始・終了日時はdatetime-localの入力欄の形式（ローカルタイムのYYYY-MM-DDTHH:mm）とする
+ */
+export interface SessionEntryInput {
+  /** セッションタイプ */
+  type: SessionType;
+  /** 開始日時 */
+  start: string;
+  /** 終了日時 */
+  end: string;
+  /** 完了したかどうか（falseの場合は中断として記録する） */
+  completed: boolean;
+  /** タスクID（作業セッションのみ、なしの場合はnull） */
+  taskId: string | null;
+  /** プロジェクトID（作業セッションのみ、なしの場合はnull） */
+  projectId: string | null;
+  /** タグ（作業セッションのみ） */
+  tags: string[];
+}
+
+/** 履歴の状態フィルター（すべて・完了・中断） */
+export type SessionStatusFilter = 'all' | 'completed' | 'interrupted';
+
+/** 履歴のエクスポート形式 */
+export type ExportFormat = 'json' | 'csv';
+
+/** 履歴のインポート方法（merge: 既存の履歴に追加、replace: 既存の履歴を置き換え） */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * 日付の範囲（ローカルタイムのYYYY-MM-DD、両端を含む）
+ * nullの端は制限なしを表す
+ */
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * 履歴一覧の絞り込み条件
+ * 表示期間、セッションタイプ、完了・中断の状態、プロジェクト、タグ、振り返りのメモで絞り込む
+ */
+export interface HistoryFilters {
+  /** 表示期間 */
+  period: HistoryPeriod;
+  /** セッションタイプ（allの場合は全タイプ） */
+  type: SessionType | 'all';
+  /** 完了・中断の状態 */
+  status: SessionStatusFilter;
+  /** プロジェクトID（nullの場合は全プロジェクト） */
+  projectId: string | null;
+  /** タグ（nullの場合は全タグ） */
+  tag: string | null;
+  /** 振り返りのメモの検索語（空文字の場合は検索しない） */
+  query: string;
+}
+
 /**
  * ポモドーロタイマーのデフォルト設定クラス
  * アプリケーション初回起動時や設定リセット時に使用される標準値を定義
@@ -94,10 +562,18 @@ export class DefaultPomodoroSettings implements PomodoroSettings {
   longBreakDuration: number = 15; // Default 15 minutes for long break
   sessionsBeforeLongBreak: number = 4;
   autoStartNextSession: boolean = false;
+  autoStartBreaks: boolean = true;
+  autoStartWorkSessions: boolean = true;
+  autoStartDelay: number = 5; // Default 5 seconds before auto start
+  reflectionPrompt: boolean = true;
+  activePlanId: string | null = null; // Default to the classic cycle
+  cyclePlans: CyclePlan[] = [];
+  presets: SettingsPreset[] = [];
   notifications = {
     visual: true,
     audio: true,
-    sound: 'bell' as NotificationSound
+    sound: 'bell' as NotificationSound,
+    volume: 70 // Default 70% volume
   };
   theme: ThemeMode = 'system';
   language: string = 'en'; // Default to English
@@ -0,0 +1,201 @@
+import type { CycleInterval, CyclePlan, SessionType } from '~/types'
+import { createUuid } from '~/utils/id'
+
+/** 作業・短い休憩・長い休憩を繰り返す標準のサイクルのプランID */
+export const CLASSIC_PLAN_ID = 'classic'
+
+/** セッションタイプごとの標準の表示色と絵文字 */
+export const DEFAULT_INTERVAL_APPEARANCE: Record<SessionType, Pick<CycleInterval, 'color' | 'emoji'>> = {
+  work: { color: '#1976d2', emoji: '💼' },
+  shortBreak: { color: '#388e3c', emoji: '☕' },
+  longBreak: { color: '#f57c00', emoji: '🏖️' }
+}
+
+/** 新しいインターバルのセッションタイプごとの時間（分） */
+const DEFAULT_INTERVAL_DURATIONS: Record<SessionType, number> = {
+  work: 25,
+  shortBreak: 5,
+  longBreak: 15
+}
+
+/**
+ * 設定の時間と長い休憩までの作業セッション数から標準のサイクルのプランを作成する
+ * インターバルのIDはセッションタイプとし、同じタイプのインターバルは同じIDを共有する
+ * 名前は空文字とし、表示時にセッションタイプのラベルを使う
+ * @param durations - セッションタイプごとの時間（分）
+ * @param sessionsBeforeLongBreak - 長い休憩までの作業セッション数
+ * @returns 作業と短い休憩を繰り返し、最後の作業の後に長い休憩を取るプラン
+ */
+export function createClassicPlan(durations: Record<SessionType, number>, sessionsBeforeLongBreak: number): CyclePlan {
+  const interval = (type: SessionType): CycleInterval => ({
+    id: type,
+    name: '',
+    type,
+    duration: durations[type],
+    ...DEFAULT_INTERVAL_APPEARANCE[type]
+  })
+  const work = interval('work')
+  const shortBreak = interval('shortBreak')
+  const longBreak = interval('longBreak')
+  return {
+    id: CLASSIC_PLAN_ID,
+    name: '',
+    intervals: Array.from({ length: sessionsBeforeLongBreak }, (_, index) =>
+      [work, index === sessionsBeforeLongBreak - 1 ? longBreak : shortBreak]
+    ).flat(),
+    repeatFrom: 0
+  }
+}
+
+/**
+ * 新しいインターバルを作成する
+ * @param type - 記録するセッションタイプ
+ * @param name - インターバルの名前
+ * @returns セッションタイプの標準の時間・表示色・絵文字のインターバル
+ */
+export function createCycleInterval(type: SessionType, name: string): CycleInterval {
+  return {
+    id: createUuid(),
+    name,
+    type,
+    duration: DEFAULT_INTERVAL_DURATIONS[type],
+    ...DEFAULT_INTERVAL_APPEARANCE[type]
+  }
+}
+
+/**
+ * 完了したインターバルの次に実行するインターバルの位置を取得する
+ * 最後のインターバルの次は繰り返しの開始位置に戻る
+ * @param plan - サイクルプラン
+ * @param index - 完了したインターバルの位置
+ * @returns 次のインターバルの位置
+ */
+export function getNextIntervalIndex(plan: CyclePlan, index: number): number {
+  return index + 1 < plan.intervals.length ? index + 1 : plan.repeatFrom
+}
+
+/**
+ * 指定した位置以降（最後まで進んだら先頭に戻る）で条件に合う最初のインターバルの位置を探す
+ * @param plan - サイクルプラン
+ * @param from - 探し始める位置
+ * @param predicate - インターバルの条件
+ * @returns 見つかったインターバルの位置（ない場合は-1）
+ */
+export function findIntervalIndex(plan: CyclePlan, from: number, predicate: (interval: CycleInterval) => boolean): number {
+  const count = plan.intervals.length
+  for (let offset = 0; offset < count; offset++) {
+    const index = (from + offset) % count
+    if (predicate(plan.intervals[index])) return index
+  }
+  return -1
+}
+
+/**
+ * プランのインターバルをIDの重複を除いて取得する
+ * 標準のサイクルのように同じインターバルを繰り返すプランでは、最初に現れたもののみを残す
+ * @param plan - サイクルプラン
+ * @returns 実行順のインターバル
+ */
+export function getDistinctIntervals(plan: CyclePlan): CycleInterval[] {
+  const seen = new Set<string>()
+  return plan.intervals.filter(interval => {
+    if (seen.has(interval.id)) return false
+    seen.add(interval.id)
+    return true
+  })
+}
+
+/** 新しいプランの作成に使えるテンプレートの種類 */
+export type CyclePlanTemplate = 'blank' | 'fiftyTwoSeventeen' | 'ultradian' | 'warmUp'
+
+/** テンプレートのインターバルの定義（名前はi18nキーで指定し、作成時に翻訳する） */
+interface TemplateInterval {
+  type: SessionType
+  nameKey: string
+  duration: number
+}
+
+/** テンプレートごとのインターバルと繰り返しの開始位置 */
+const CYCLE_PLAN_TEMPLATES: Record<CyclePlanTemplate, { intervals: TemplateInterval[]; repeatFrom: number }> = {
+  blank: {
+    intervals: [
+      { type: 'work', nameKey: 'timer.workSession', duration: 25 },
+      { type: 'shortBreak', nameKey: 'timer.shortBreak', duration: 5 }
+    ],
+    repeatFrom: 0
+  },
+  fiftyTwoSeventeen: {
+    intervals: [
+      { type: 'work', nameKey: 'cyclePlans.intervalNames.focus', duration: 52 },
+      { type: 'shortBreak', nameKey: 'cyclePlans.intervalNames.break', duration: 17 }
+    ],
+    repeatFrom: 0
+  },
+  ultradian: {
+    intervals: [
+      { type: 'work', nameKey: 'cyclePlans.intervalNames.deepWork', duration: 90 },
+      { type: 'longBreak', nameKey: 'cyclePlans.intervalNames.recovery', duration: 20 }
+    ],
+    repeatFrom: 0
+  },
+  warmUp: {
+    intervals: [
+      { type: 'work', nameKey: 'cyclePlans.intervalNames.warmUp', duration: 10 },
+      { type: 'shortBreak', nameKey: 'timer.shortBreak', duration: 5 },
+      { type: 'work', nameKey: 'timer.workSession', duration: 25 },
+      { type: 'shortBreak', nameKey: 'timer.shortBreak', duration: 5 }
+    ],
+    repeatFrom: 2
+  }
+}
+
+/** テンプレートの種類（選択肢の表示順） */
+export const CYCLE_PLAN_TEMPLATE_IDS = Object.keys(CYCLE_PLAN_TEMPLATES) as CyclePlanTemplate[]
+
+/**
+ * テンプレートから新しいサイクルプランを作成する
+ * @param template - テンプレートの種類
+ * @param translate - プラン名・インターバル名の翻訳関数
+ * @returns 新しいIDを持つサイクルプラン
+ */
+export function createCyclePlan(template: CyclePlanTemplate, translate: (key: string) => string): CyclePlan {
+  const { intervals, repeatFrom } = CYCLE_PLAN_TEMPLATES[template]
+  return {
+    id: createUuid(),
+    name: translate(`cyclePlans.templates.${template}`),
+    intervals: intervals.map(({ type, nameKey, duration }) => ({
+      ...createCycleInterval(type, translate(nameKey)),
+      duration
+    })),
+    repeatFrom
+  }
+}
+
+/**
+ * プランからインターバルを削除する
+ * 繰り返しの開始位置は同じインターバルを指すように詰め、最後のインターバルを超えないようにする
+ * @param plan - サイクルプラン
+ * @param index - 削除するインターバルの位置
+ * @returns インターバルを削除したプラン
+ */
+export function removeInterval(plan: CyclePlan, index: number): CyclePlan {
+  const intervals = plan.intervals.filter((_, position) => position !== index)
+  const repeatFrom = index < plan.repeatFrom ? plan.repeatFrom - 1 : plan.repeatFrom
+  return { ...plan, intervals, repeatFrom: Math.max(0, Math.min(repeatFrom, intervals.length - 1)) }
+}
+
+/**
+ * プランのインターバルを隣の位置と入れ替える
+ * 繰り返しの開始位置は同じ位置のまま残す
+ * @param plan - サイクルプラン
+ * @param index - 移動するインターバルの位置
+ * @param offset - 移動する方向（-1で前、1で後ろ）
+ * @returns インターバルを移動したプラン（移動先がない場合は元のプラン）
+ */
+export function moveInterval(plan: CyclePlan, index: number, offset: -1 | 1): CyclePlan {
+  const target = index + offset
+  if (target < 0 || target >= plan.intervals.length) return plan
+  const intervals = [...plan.intervals]
+  intervals.splice(target, 0, ...intervals.splice(index, 1))
+  return { ...plan, intervals }
+}
@@ -0,0 +1,20 @@
+/** ダウンロードの開始後にオブジェクトURLを解放するまでの時間（ミリ秒） */
+const REVOKE_DELAY = 1000
+
+/**
+ * ファイルをダウンロードさせる
+ * ブラウザによってはクリック直後にオブジェクトURLを解放するとダウンロードが中止されるため、時間をおいて解放する
+ * @param content - ファイルの内容
+ * @param fileName - ファイル名
+ * @param mimeType - MIMEタイプ
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY)
+}
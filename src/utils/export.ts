@@ -0,0 +1,233 @@
+import type { PomodoroSession, PomodoroSettings, HistoryExport, SettingsExport, DateRange, ExportFormat } from '~/types'
+import { HistoryExportSchema, HISTORY_EXPORT_VERSION, SettingsExportSchema, SETTINGS_EXPORT_VERSION } from '~/types'
+import { computeHistoryStats, toDayKey, getSessionFocusSeconds, getSessionOverrunSeconds } from '~/utils/stats'
+
+/** CSVの列名（順序は出力順） */
+export const CSV_COLUMNS = [
+  'id',
+  'type',
+  'planned_duration_seconds',
+  'start_utc',
+  'start_local',
+  'end_utc',
+  'end_local',
+  'completed',
+  'interrupted',
+  'task_id',
+  'project_id',
+  'tags',
+  'focus_rating',
+  'note',
+  'interruptions',
+  'paused_seconds',
+  'pauses',
+  'actual_focus_seconds',
+  'overrun_seconds'
+] as const
+
+/** CSVのtags列でタグを区切る文字 */
+export const CSV_TAG_SEPARATOR = ';'
+
+/** 表計算ソフトが数式として解釈する先頭の文字（タブと復帰文字は数式の前に置かれても無視される） */
+const CSV_FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/** 数式として解釈させないために値の先頭に付ける文字 */
+const CSV_FORMULA_GUARD = "'"
+
+/** 形式ごとのMIMEタイプ */
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv'
+}
+
+/**
+ * 日時をタイムゾーンのオフセット付きのローカルタイムで表記する
+ * @param date - 表記する日時
+ * @returns YYYY-MM-DDTHH:mm:ss±HH:MM形式の日時
+ */
+export function formatLocalDateTime(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  const offset = -date.getTimezoneOffset()
+  const sign = offset >= 0 ? '+' : '-'
+  const offsetText = `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  return `${toDayKey(date)}T${time}${offsetText}`
+}
+
+/**
+ * セッションを開始日（ローカルタイム）の範囲で絞り込む
+ * @param sessions - 絞り込み対象のセッション
+ * @param range - 日付の範囲（両端を含む、nullの端は制限なし）
+ * @returns 範囲内に開始したセッションの配列
+ */
+export function filterSessionsByDateRange(sessions: PomodoroSession[], range: DateRange): PomodoroSession[] {
+  return sessions.filter(session => {
+    const day = toDayKey(new Date(session.startTime))
+    if (range.from && day < range.from) return false
+    if (range.to && day > range.to) return false
+    return true
+  })
+}
+
+/**
+ * 履歴のエクスポートデータを作成する
+ * 各セッションには実際に集中した時間を含め、統計は対象のセッションから再計算し、スキーマで検証してから返す
+ * @param sessions - 全セッション
+ * @param range - 対象の日付の範囲
+ * @param now - 出力日時、デフォルト: 現在時刻
+ * @returns 検証済みのエクスポートデータ
+ * @throws Zodバリデーションエラー（スキーマに合わないセッションが含まれる場合）
+ */
+export function createHistoryExport(
+  sessions: PomodoroSession[],
+  range: DateRange,
+  now: Date = new Date()
+): HistoryExport {
+  const exportedSessions = filterSessionsByDateRange(sessions, range)
+    .map(session => ({ ...session, focusSeconds: getSessionFocusSeconds(session) }))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+
+  return HistoryExportSchema.parse({
+    app: 'pomodoro-timer',
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    range: { from: range.from, to: range.to },
+    history: {
+      sessions: exportedSessions,
+      stats: computeHistoryStats(exportedSessions, now)
+    }
+  })
+}
+
+/**
+ * ユーザーが入力した文字列が表計算ソフトで数式として実行されないようにする
+ * 数式の先頭の文字で始まる値の先頭にアポストロフィを付ける
+ * @param value - ユーザーが入力した値
+ * @returns 数式として解釈されない値
+ */
+export function guardCsvFormula(value: string): string {
+  return CSV_FORMULA_PREFIXES.some(prefix => value.startsWith(prefix)) ? `${CSV_FORMULA_GUARD}${value}` : value
+}
+
+/**
+ * guardCsvFormulaで付けたアポストロフィを取り除き、元の値に戻す
+ * @param value - CSVから読み込んだ値
+ * @returns 元の値
+ */
+export function unguardCsvFormula(value: string): string {
+  const guarded = value.startsWith(CSV_FORMULA_GUARD) &&
+    CSV_FORMULA_PREFIXES.some(prefix => value.startsWith(prefix, CSV_FORMULA_GUARD.length))
+  return guarded ? value.slice(CSV_FORMULA_GUARD.length) : value
+}
+
+/**
+ * CSVの1項目をエスケープする
+ * カンマ・ダブルクォート・改行を含む場合はダブルクォートで囲む
+ * @param value - 項目の値
+ * @returns エスケープ済みの値
+ */
+const escapeCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
+
+/**
+ * セッションをCSV（RFC 4180、CRLF改行）に変換する
+ * 開始・終了日時はUTCとローカルタイム（オフセット付き）の両方を出力し、タグはセミコロン区切り、中断と一時停止の区間はそれぞれJSONの配列で1列にまとめる
+ * タグとメモは表計算ソフトで数式として実行されないように、数式の先頭の文字で始まる場合はアポストロフィを付ける
+ * 時間は予定時間に加えて、実際に集中した時間と予定との差（超過は正、不足は負）を秒で出力する
+ * @param sessions - 出力するセッション
+ * @returns ヘッダー行を含むCSV文字列
+ */
+export function serializeSessionsCsv(sessions: PomodoroSession[]): string {
+  const rows = sessions.map(session => {
+    const start = new Date(session.startTime)
+    const end = new Date(session.endTime)
+    return [
+      session.id,
+      session.type,
+      String(session.duration),
+      start.toISOString(),
+      formatLocalDateTime(start),
+      end.toISOString(),
+      formatLocalDateTime(end),
+      String(session.completed),
+      String(session.interrupted),
+      session.taskId ?? '',
+      session.projectId ?? '',
+      guardCsvFormula(session.tags?.join(CSV_TAG_SEPARATOR) ?? ''),
+      session.focusRating !== undefined ? String(session.focusRating) : '',
+      guardCsvFormula(session.note ?? ''),
+      session.interruptions?.length ? JSON.stringify(session.interruptions) : '',
+      session.pausedSeconds !== undefined ? String(session.pausedSeconds) : '',
+      session.pauses?.length ? JSON.stringify(session.pauses) : '',
+      String(getSessionFocusSeconds(session)),
+      String(getSessionOverrunSeconds(session))
+    ]
+  })
+
+  return [[...CSV_COLUMNS], ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n') + '\r\n'
+}
+
+/**
+ * エクスポートファイルの内容を作成する
+ * @param format - 出力形式
+ * @param data - エクスポートデータ
+ * @returns ファイルの内容
+ */
+export function serializeHistoryExport(format: ExportFormat, data: HistoryExport): string {
+  if (format === 'csv') {
+    return serializeSessionsCsv(data.history.sessions)
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * エクスポートファイル名を作成する
+ * @param format - 出力形式
+ * @param range - 対象の日付の範囲
+ * @param now - 出力日時、デフォルト: 現在時刻
+ * @returns ファイル名（例: pomodoro-history-2025-03-01_2025-03-20.csv）
+ */
+export function getExportFileName(format: ExportFormat, range: DateRange, now: Date = new Date()): string {
+  const suffix = range.from || range.to
+    ? `${range.from ?? 'start'}_${range.to ?? toDayKey(now)}`
+    : toDayKey(now)
+  return `pomodoro-history-${suffix}.${format}`
+}
+
+/**
+ * 形式に対応するMIMEタイプを取得する
+ * @param format - 出力形式
+ * @returns MIMEタイプ（文字コードはUTF-8）
+ */
+export function getExportMimeType(format: ExportFormat): string {
+  return `${MIME_TYPES[format]};charset=utf-8`
+}
+
+/**
+ * 設定のエクスポートデータを作成する
+ * 設定プリセットとサイクルプランを含む設定全体をスキーマで検証してから返す
+ * @param settings - 保存済みの設定
+ * @param now - 出力日時、デフォルト: 現在時刻
+ * @returns 検証済みのエクスポートデータ
+ * @throws Zodバリデーションエラー（設定がスキーマに合わない場合）
+ */
+export function createSettingsExport(settings: PomodoroSettings, now: Date = new Date()): SettingsExport {
+  return SettingsExportSchema.parse({
+    app: 'pomodoro-timer',
+    version: SETTINGS_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    settings
+  })
+}
+
+/**
+ * 設定のエクスポートファイル名を作成する
+ * @param now - 出力日時、デフォルト: 現在時刻
+ * @returns ファイル名（例: pomodoro-settings-2025-03-20.json）
+ */
+export function getSettingsExportFileName(now: Date = new Date()): string {
+  return `pomodoro-settings-${toDayKey(now)}.json`
+}
@@ -0,0 +1,142 @@
+import type { PomodoroSession } from '~/types'
+import { toDayKey, isCompletedPomodoro } from '~/utils/stats'
+
+/** ヒートマップの色の段階数（0: 記録なし、1〜4: 少ない〜多い） */
+export const HEATMAP_LEVELS = 4
+
+/** Intl.Locale.getWeekInfoに対応していないブラウザで週の始まりを日曜日とする地域 */
+const SUNDAY_FIRST_REGIONS = new Set([
+  'US', 'CA', 'MX', 'BR', 'JP', 'KR', 'TW', 'HK', 'IL', 'IN', 'PH', 'ZA', 'AU', 'SA'
+])
+
+/**
+ * ヒートマップの1日分のセル
+ * 日付、完了したポモドーロ数、色の段階を保持する
+ */
+export interface HeatmapDay {
+  /** YYYY-MM-DD形式の日付キー */
+  key: string;
+  /** 日付（ローカルタイムの0時0分） */
+  date: Date;
+  /** 完了したポモドーロ数 */
+  count: number;
+  /** 色の段階（0〜HEATMAP_LEVELS） */
+  level: number;
+  /** 表示期間内の日かどうか（期間外は空白として描画する） */
+  inRange: boolean;
+}
+
+/** ヒートマップの1週間分の列（週の始まりから7日分） */
+export type HeatmapWeek = HeatmapDay[]
+
+/**
+ * Intl.Localeの週情報（ブラウザによりメソッドまたはプロパティで提供される）
+ */
+interface LocaleWithWeekInfo extends Intl.Locale {
+  getWeekInfo?: () => { firstDay: number };
+  weekInfo?: { firstDay: number };
+}
+
+/**
+ * ロケールの週の始まりの曜日を取得する
+ * Intl.Localeの週情報を優先し、対応していない場合は地域から判定する
+ * @param locale - ロケール（例: en, ja, zh-CN）
+ * @returns 週の始まりの曜日（0: 日曜日〜6: 土曜日、Date.getDayと同じ）
+ */
+export function getWeekStartDay(locale: string): number {
+  try {
+    const intlLocale = new Intl.Locale(locale) as LocaleWithWeekInfo
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo
+    if (weekInfo) {
+      // Intl uses 1 (Monday) to 7 (Sunday)
+      return weekInfo.firstDay % 7
+    }
+    const region = intlLocale.maximize().region
+    return region && SUNDAY_FIRST_REGIONS.has(region) ? 0 : 1
+  } catch {
+    return 1
+  }
+}
+
+/**
+ * 日ごとの完了したポモドーロ数を集計する
+ * @param sessions - 対象のセッション
+ * @returns 日付キーごとのポモドーロ数
+ */
+export function countPomodorosByDay(sessions: PomodoroSession[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const session of sessions) {
+    if (!isCompletedPomodoro(session)) continue
+    const key = toDayKey(new Date(session.startTime))
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * ユーザー自身の記録の分布から色の段階の閾値を算出する
+ * 記録のある日のポモドーロ数の四分位数を閾値とする
+ * @param counts - 日付キーごとのポモドーロ数
+ * @returns 段階1〜3の上限値の配列
+ */
+export function computeHeatmapThresholds(counts: Iterable<number>): number[] {
+  const values = [...counts].filter(count => count > 0).sort((a, b) => a - b)
+  if (values.length === 0) return []
+
+  const quantile = (q: number) => values[Math.floor(q * (values.length - 1))]
+  return [quantile(0.25), quantile(0.5), quantile(0.75)]
+}
+
+/**
+ * ポモドーロ数に対応する色の段階を取得する
+ * 最も多い日は常に最も濃い段階とし、それ以外は四分位数で段階を決める
+ * @param count - その日のポモドーロ数
+ * @param thresholds - computeHeatmapThresholdsで算出した閾値
+ * @param max - 期間内の1日あたりの最大ポモドーロ数
+ * @returns 色の段階（0〜HEATMAP_LEVELS）
+ */
+export function getHeatmapLevel(count: number, thresholds: number[], max: number): number {
+  if (count <= 0) return 0
+  if (count >= max) return HEATMAP_LEVELS
+  const level = 1 + thresholds.filter(threshold => count > threshold).length
+  return Math.min(level, HEATMAP_LEVELS)
+}
+
+/**
+ * 指定日までの1年分のヒートマップを週単位の列に分けて作成する
+ * 最初の列は週の始まりに揃え、期間外の日はinRange: falseとする
+ * @param counts - 日付キーごとのポモドーロ数
+ * @param end - 表示期間の最終日、デフォルト: 今日
+ * @param weekStartDay - 週の始まりの曜日（0: 日曜日〜6: 土曜日）
+ * @returns 週ごとの列の配列（古い順）
+ */
+export function buildHeatmapWeeks(
+  counts: Map<string, number>,
+  end: Date = new Date(),
+  weekStartDay: number = 1
+): HeatmapWeek[] {
+  const lastDay = new Date(end.getFullYear(), end.getMonth(), end.getDate())
+  const firstDay = new Date(lastDay.getFullYear() - 1, lastDay.getMonth(), lastDay.getDate() + 1)
+  const offset = (firstDay.getDay() - weekStartDay + 7) % 7
+  const gridStart = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() - offset)
+
+  const inRangeCounts = [...counts.entries()]
+    .filter(([key]) => key >= toDayKey(firstDay) && key <= toDayKey(lastDay))
+    .map(([, count]) => count)
+  const thresholds = computeHeatmapThresholds(inRangeCounts)
+  const max = Math.max(0, ...inRangeCounts)
+
+  const weeks: HeatmapWeek[] = []
+  for (let cursor = gridStart; cursor <= lastDay;) {
+    const week: HeatmapWeek = []
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const key = toDayKey(cursor)
+      const inRange = cursor >= firstDay && cursor <= lastDay
+      const count = inRange ? counts.get(key) ?? 0 : 0
+      week.push({ key, date: cursor, count, level: getHeatmapLevel(count, thresholds, max), inRange })
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+    }
+    weeks.push(week)
+  }
+  return weeks
+}
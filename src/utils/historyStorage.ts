@@ -0,0 +1,164 @@
+import type { PomodoroSession } from '~/types'
+import { computeHistoryStats } from '~/utils/stats'
+import { historyStorage, HISTORY_STORAGE_KEY } from '~/utils/storageMigrations'
+import { createMemoryStorage, getLocalStorage, type KeyValueStorage } from '~/utils/storageAdapters'
+import { loadVersionedData, saveVersionedData } from '~/utils/versionedStorage'
+import { createIndexedDbHistoryStorage } from '~/utils/indexedDbHistoryStorage'
+
+/**
+ * セッション履歴の保存先
+ * 保存先ごとの違い（IndexedDB・ローカルストレージ・メモリ）を隠蔽し、セッション単位での読み書きを提供する
+ */
+export interface HistoryStorageAdapter {
+  /**
+   * 保存されている全セッションを読み込む
+   * @returns スキーマの検証に成功したセッション
+   */
+  load(): Promise<PomodoroSession[]>;
+  /**
+   * セッションを1件保存する（同じIDのセッションは置き換える）
+   * @param session - 保存するセッション
+   */
+  put(session: PomodoroSession): Promise<void>;
+  /**
+   * 複数のセッションをまとめて保存する（同じIDのセッションは置き換える）
+   * @param sessions - 保存するセッション
+   */
+  putMany(sessions: PomodoroSession[]): Promise<void>;
+  /**
+   * 保存されている全セッションを置き換える
+   * @param sessions - 新しい全セッション
+   */
+  replaceAll(sessions: PomodoroSession[]): Promise<void>;
+  /**
+   * セッションを1件削除する（存在しないIDの場合は何もしない）
+   * @param sessionId - 削除するセッションのID
+   */
+  remove(sessionId: string): Promise<void>;
+  /**
+   * 保存されている全セッションを削除する
+   */
+  clear(): Promise<void>;
+  /**
+   * 他のタブでの変更を監視する
+   * @param listener - 変更時に呼び出す関数
+   * @returns 監視を解除する関数
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * セッションを同じIDのものを置き換えて追加する
+ * @param sessions - 既存のセッション
+ * @param updates - 追加・置き換えるセッション
+ * @returns 更新後のセッション（既存のセッションの順序を保ち、新しいセッションは末尾に追加）
+ */
+const upsertSessions = (sessions: PomodoroSession[], updates: PomodoroSession[]): PomodoroSession[] => {
+  const byId = new Map(sessions.map(session => [session.id, session]))
+  for (const session of updates) {
+    byId.set(session.id, session)
+  }
+  return [...byId.values()]
+}
+
+/**
+ * キーと値の保存先に履歴全体をバージョン付きのJSONで保存する履歴の保存先を作成する
+ * 書き込みのたびに最新の履歴を読み込んでから更新するため、他のタブで追加されたセッションを上書きしない
+ * @param storage - キーと値の保存先
+ * @param options.watch - 他のタブでの変更をstorageイベントで監視するかどうか（ローカルストレージの場合のみ有効）
+ * @returns 履歴の保存先
+ */
+export function createKeyValueHistoryStorage(
+  storage: KeyValueStorage,
+  { watch = false }: { watch?: boolean } = {}
+): HistoryStorageAdapter {
+  /**
+   * 保存されている全セッションを読み込む（読み込めないデータはバックアップに退避される）
+   */
+  const read = (): PomodoroSession[] => {
+    const result = loadVersionedData(historyStorage, storage)
+    return result.status === 'loaded' || result.status === 'recovered' ? result.data.sessions : []
+  }
+
+  /**
+   * 全セッションを統計とともに保存する
+   * @param sessions - 保存するセッション
+   */
+  const write = (sessions: PomodoroSession[]) => {
+    saveVersionedData(historyStorage, { sessions, stats: computeHistoryStats(sessions) }, storage)
+  }
+
+  // Writes happen synchronously before the returned promise settles
+  return {
+    load: async () => read(),
+    put: async (session) => write(upsertSessions(read(), [session])),
+    putMany: async (sessions) => write(upsertSessions(read(), sessions)),
+    replaceAll: async (sessions) => write(sessions),
+    remove: async (sessionId) => write(read().filter(session => session.id !== sessionId)),
+    clear: async () => write([]),
+    subscribe: (listener) => {
+      if (!watch || typeof window === 'undefined') return () => {}
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === HISTORY_STORAGE_KEY) listener()
+      }
+      window.addEventListener('storage', handleStorage)
+      return () => window.removeEventListener('storage', handleStorage)
+    }
+  }
+}
+
+/**
+ * メモリ上に履歴を保持する履歴の保存先を作成する
+ * 単体テストやSSRで使用し、他のタブとは同期しない
+ * @param sessions - 初期状態のセッション
+ * @returns 履歴の保存先
+ */
+export function createMemoryHistoryStorage(sessions: PomodoroSession[] = []): HistoryStorageAdapter {
+  const adapter = createKeyValueHistoryStorage(createMemoryStorage())
+  if (sessions.length > 0) {
+    void adapter.replaceAll(sessions)
+  }
+  return adapter
+}
+
+/**
+ * 実行環境に合った履歴の保存先を作成する
+ * ブラウザではIndexedDBを使用し、ローカルストレージに保存されていた履歴を初回に移行する
+ * IndexedDBを使用できない場合はローカルストレージ、サーバーサイドではメモリに保存する
+ * @returns 履歴の保存先
+ */
+export function createHistoryStorage(): HistoryStorageAdapter {
+  if (typeof window === 'undefined') {
+    return createMemoryHistoryStorage()
+  }
+  const localHistory = createKeyValueHistoryStorage(getLocalStorage(), { watch: true })
+  if (typeof indexedDB === 'undefined') {
+    return localHistory
+  }
+  return createIndexedDbHistoryStorage(indexedDB, {
+    legacyStorage: getLocalStorage(),
+    fallback: localHistory
+  })
+}
+
+/** アプリケーション全体で共有する履歴の保存先 */
+let sharedHistoryStorage: HistoryStorageAdapter | null = null
+
+/**
+ * アプリケーション全体で共有する履歴の保存先を取得する
+ * 初回の呼び出し時に実行環境に合った保存先を作成する
+ * @returns 履歴の保存先
+ */
+export function getHistoryStorage(): HistoryStorageAdapter {
+  sharedHistoryStorage ??= createHistoryStorage()
+  return sharedHistoryStorage
+}
+
+/**
+ * 共有する履歴の保存先を差し替える
+ * 単体テストでメモリ上の保存先を使用する場合などに使用する
+ * @param adapter - 新しい保存先（nullの場合は次回の取得時に実行環境に合った保存先を作成する）
+ */
+export function setHistoryStorage(adapter: HistoryStorageAdapter | null) {
+  sharedHistoryStorage = adapter
+}
@@ -0,0 +1,300 @@
+import type { PomodoroSession, HistoryStats, ImportMode } from '~/types'
+import { PomodoroSessionSchema, HISTORY_EXPORT_VERSION } from '~/types'
+import { CSV_COLUMNS, CSV_TAG_SEPARATOR, unguardCsvFormula } from '~/utils/export'
+import { computeHistoryStats } from '~/utils/stats'
+import { toValidationError, type ValidationError } from '~/utils/validation'
+
+/** CSVのインポートで任意の列名（タスク・プロジェクト・タグ・振り返り・中断・一時停止・実際の集中時間の列は各機能の追加前に出力したファイルにない） */
+const OPTIONAL_CSV_COLUMNS: string[] = ['task_id', 'project_id', 'tags', 'focus_rating', 'note', 'interruptions', 'paused_seconds', 'pauses', 'actual_focus_seconds', 'overrun_seconds']
+
+/** CSVのインポートに必須の列名（ローカルタイムの列はUTCの列から復元できるため任意） */
+const REQUIRED_CSV_COLUMNS = CSV_COLUMNS.filter(column =>
+  !column.endsWith('_local') && !OPTIONAL_CSV_COLUMNS.includes(column)
+)
+
+/**
+ * インポートできなかった行
+ * ファイル全体を失敗させず、行ごとに位置と理由を報告する
+ */
+export interface ImportRowError {
+  /** 行の位置（セッション配列・CSVのデータ行の0始まりの添字） */
+  index: number;
+  /** エラーのある項目（行全体のエラーの場合はnull） */
+  field: string | null;
+  /** エラーの理由 */
+  reason: ValidationError;
+}
+
+/** インポートファイルの読み取り結果 */
+export interface ParsedHistoryImport {
+  /** 検証に成功したセッション（ファイル内のID重複は除外済み） */
+  sessions: PomodoroSession[];
+  /** インポートできなかった行 */
+  rowErrors: ImportRowError[];
+  /** ファイル内の行数 */
+  totalRows: number;
+}
+
+/**
+ * インポートファイルの読み取り結果（ファイル自体が読めない場合はエラーのi18nキーを返す）
+ */
+export type HistoryImportResult =
+  | { success: true; data: ParsedHistoryImport }
+  | { success: false; error: ValidationError }
+
+/** インポートによる履歴の変化 */
+export interface ImportPreview {
+  /** 新たに追加されるセッション数 */
+  added: number;
+  /** 既に履歴にあるセッション数（mergeでは既存のセッションを残し、replaceでは置き換える） */
+  duplicates: number;
+  /** 削除されるセッション数（replaceのみ） */
+  removed: number;
+  /** インポート後の履歴の統計 */
+  stats: HistoryStats;
+}
+
+/**
+ * RFC 4180形式のCSVを行と項目に分割する
+ * ダブルクォートで囲まれた項目内のカンマ・改行・エスケープされたダブルクォートに対応
+ * @param text - CSV文字列
+ * @returns 行ごとの項目の配列（空行は除く）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(value)
+      rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+  if (value !== '' || row.length > 0) {
+    row.push(value)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+/**
+ * CSVの1行をセッションの形に変換する
+ * 空欄の項目は未入力として扱い、変換できない値はそのまま残してスキーマの検証で報告する
+ * @param record - 列名ごとの値
+ * @returns 検証前のセッション
+ */
+const csvRecordToSession = (record: Record<string, string>): Record<string, unknown> => {
+  const text = (column: string) => (record[column] ? record[column] : undefined)
+  const number = (column: string) => (record[column] ? Number(record[column]) : undefined)
+  const boolean = (column: string) => {
+    const value = record[column]?.toLowerCase()
+    if (value === 'true') return true
+    if (value === 'false') return false
+    return value || undefined
+  }
+  // Text the export guarded against spreadsheet formulas is read back without the guard
+  const userText = (column: string) => (record[column] ? unguardCsvFormula(record[column]) : undefined)
+  const list = (column: string) => userText(column)?.split(CSV_TAG_SEPARATOR)
+  const json = (column: string) => {
+    if (!record[column]) return undefined
+    try {
+      return JSON.parse(record[column]) as unknown
+    } catch {
+      return record[column]
+    }
+  }
+
+  return {
+    id: text('id'),
+    type: text('type'),
+    duration: number('planned_duration_seconds'),
+    startTime: text('start_utc'),
+    endTime: text('end_utc'),
+    completed: boolean('completed'),
+    interrupted: boolean('interrupted'),
+    taskId: text('task_id'),
+    projectId: text('project_id'),
+    tags: list('tags'),
+    focusRating: number('focus_rating'),
+    note: userText('note'),
+    interruptions: json('interruptions'),
+    pausedSeconds: number('paused_seconds'),
+    pauses: json('pauses'),
+    // overrun_seconds is derived from the planned and actual time, so it is not read back
+    focusSeconds: number('actual_focus_seconds')
+  }
+}
+
+/**
+ * 行をセッションのスキーマで検証し、有効なセッションと無効な行に分ける
+ * ファイル内で同じIDが複数回現れた場合は最初の行のみを採用する
+ * @param rows - 検証前の行
+ * @returns 読み取り結果
+ */
+const validateRows = (rows: unknown[]): ParsedHistoryImport => {
+  const sessions: PomodoroSession[] = []
+  const rowErrors: ImportRowError[] = []
+  const seenIds = new Set<string>()
+
+  rows.forEach((row, index) => {
+    const result = PomodoroSessionSchema.safeParse(row)
+    if (!result.success) {
+      const [issue] = result.error.issues
+      rowErrors.push({
+        index,
+        field: issue.path.length > 0 ? issue.path.join('.') : null,
+        reason: toValidationError(issue, row)
+      })
+      return
+    }
+    if (seenIds.has(result.data.id)) {
+      rowErrors.push({ index, field: 'id', reason: { key: 'import.errors.duplicateId' } })
+      return
+    }
+    seenIds.add(result.data.id)
+    sessions.push(result.data)
+  })
+
+  return { sessions, rowErrors, totalRows: rows.length }
+}
+
+/**
+ * JSONのインポートファイルからセッションの行を取り出す
+ * エクスポートファイル、ストレージと同じ形式の履歴データ、セッションの配列に対応
+ * @param data - JSONの値
+ * @returns セッションの行、または未対応の形式の場合のエラー
+ */
+const extractJsonRows = (data: unknown): { rows: unknown[] } | { error: ValidationError } => {
+  if (Array.isArray(data)) return { rows: data }
+  if (data === null || typeof data !== 'object') return { error: { key: 'import.errors.unsupportedFormat' } }
+
+  const record = data as Record<string, unknown>
+  if (record.app === 'pomodoro-timer') {
+    if (typeof record.version !== 'number' || record.version > HISTORY_EXPORT_VERSION) {
+      return { error: { key: 'import.errors.unsupportedVersion' } }
+    }
+    const history = record.history as Record<string, unknown> | undefined
+    return Array.isArray(history?.sessions) ? { rows: history.sessions } : { error: { key: 'import.errors.unsupportedFormat' } }
+  }
+  return Array.isArray(record.sessions) ? { rows: record.sessions } : { error: { key: 'import.errors.unsupportedFormat' } }
+}
+
+/**
+ * CSVのインポートファイルからセッションの行を取り出す
+ * @param text - CSV文字列
+ * @returns セッションの行、または必須の列が足りない場合のエラー
+ */
+const extractCsvRows = (text: string): { rows: unknown[] } | { error: ValidationError } => {
+  const [header = [], ...lines] = parseCsv(text)
+  const columns = header.map(column => column.trim())
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column))
+  if (missing.length > 0) {
+    return { error: { key: 'import.errors.missingColumns', params: { columns: missing.join(', ') } } }
+  }
+
+  return {
+    rows: lines.map(cells => csvRecordToSession(
+      Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() ?? '']))
+    ))
+  }
+}
+
+/**
+ * インポートファイルの内容を読み取り、セッションのスキーマで検証する
+ * 先頭のBOMを除き、内容が{または[で始まる場合はJSON、それ以外はエクスポート時と同じ列のCSVとして扱う
+ * @param text - ファイルの内容
+ * @returns 読み取り結果
+ */
+export function parseHistoryImport(text: string): HistoryImportResult {
+  const content = text.replace(/^\uFEFF/, '').trim()
+  if (!content) {
+    return { success: false, error: { key: 'import.errors.empty' } }
+  }
+
+  let extracted: { rows: unknown[] } | { error: ValidationError }
+  if (content.startsWith('{') || content.startsWith('[')) {
+    try {
+      extracted = extractJsonRows(JSON.parse(content))
+    } catch {
+      return { success: false, error: { key: 'import.errors.invalidJson' } }
+    }
+  } else {
+    extracted = extractCsvRows(content)
+  }
+
+  if ('error' in extracted) {
+    return { success: false, error: extracted.error }
+  }
+  return { success: true, data: validateRows(extracted.rows) }
+}
+
+/**
+ * インポートするセッションを既存の履歴と統合する
+ * IDで照合し、mergeでは既存のセッションを優先して新しいセッションのみを追加する
+ * @param existing - 既存のセッション
+ * @param incoming - インポートするセッション
+ * @param mode - インポート方法
+ * @returns 統合後のセッション（開始日時の古い順）
+ */
+export function mergeSessions(
+  existing: PomodoroSession[],
+  incoming: PomodoroSession[],
+  mode: ImportMode
+): PomodoroSession[] {
+  const base = mode === 'replace' ? [] : existing
+  const existingIds = new Set(base.map(session => session.id))
+  const merged = [
+    ...base,
+    ...incoming.filter(session => !existingIds.has(session.id)).map(session => ({ ...session }))
+  ]
+  return merged.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+}
+
+/**
+ * インポートによる履歴の変化を算出する
+ * @param existing - 既存のセッション
+ * @param incoming - インポートするセッション
+ * @param mode - インポート方法
+ * @param now - 統計の基準日時、デフォルト: 現在時刻
+ * @returns 追加・重複・削除されるセッション数とインポート後の統計
+ */
+export function previewImport(
+  existing: PomodoroSession[],
+  incoming: PomodoroSession[],
+  mode: ImportMode,
+  now: Date = new Date()
+): ImportPreview {
+  const existingIds = new Set(existing.map(session => session.id))
+  const incomingIds = new Set(incoming.map(session => session.id))
+  const duplicates = incoming.filter(session => existingIds.has(session.id)).length
+
+  return {
+    added: incoming.length - duplicates,
+    duplicates,
+    removed: mode === 'replace' ? existing.filter(session => !incomingIds.has(session.id)).length : 0,
+    stats: computeHistoryStats(mergeSessions(existing, incoming, mode), now)
+  }
+}
@@ -0,0 +1,238 @@
+import { toRaw } from 'vue'
+import type { PomodoroSession } from '~/types'
+import { PomodoroSessionSchema } from '~/types'
+import { historyStorage, HISTORY_STORAGE_KEY } from '~/utils/storageMigrations'
+import type { KeyValueStorage } from '~/utils/storageAdapters'
+import { loadVersionedData } from '~/utils/versionedStorage'
+import type { HistoryStorageAdapter } from '~/utils/historyStorage'
+
+/** IndexedDBのデータベース名 */
+const DATABASE_NAME = 'pomodoro-timer'
+/** セッションを保存するオブジェクトストア名（キーはセッションID） */
+const SESSION_STORE = 'sessions'
+/** 他のタブに履歴の変更を知らせるBroadcastChannelの名前 */
+const CHANGE_CHANNEL = 'pomodoro-history'
+
+/**
+ * データベースの移行処理（配列の位置+1がデータベースのバージョン）
+ * 既存のデータベースには、そのバージョンより後の移行処理のみを順に適用する
+ */
+const DATABASE_UPGRADES: Array<(database: IDBDatabase) => void> = [
+  // Version 1: one record per session, keyed by id
+  database => database.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+]
+
+/** IndexedDBの履歴の保存先のオプション */
+export interface IndexedDbHistoryStorageOptions {
+  /** データベース名、デフォルト: pomodoro-timer */
+  databaseName?: string;
+  /** 初回に履歴を移行する、以前の履歴の保存先（ローカルストレージ） */
+  legacyStorage?: KeyValueStorage;
+  /** IndexedDBを開けない場合に代わりに使用する保存先 */
+  fallback?: HistoryStorageAdapter;
+}
+
+/**
+ * IndexedDBのリクエストの完了を待つ
+ * @param request - IndexedDBのリクエスト
+ * @returns リクエストの結果
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * トランザクションの完了を待つ
+ * @param transaction - IndexedDBのトランザクション
+ */
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
+
+/**
+ * Vueのリアクティブなプロキシを、入れ子の配列・オブジェクトも含めて取り除いた複製を作成する
+ * toRawは外側のプロキシしか戻さないため、要素ごとにたどって戻す
+ * @param value - 複製する値
+ * @returns プロキシを含まない値
+ */
+const unwrapProxies = (value: unknown): unknown => {
+  const raw = toRaw(value)
+  if (Array.isArray(raw)) return raw.map(unwrapProxies)
+  if (raw !== null && typeof raw === 'object') {
+    return Object.fromEntries(Object.entries(raw).map(([key, item]) => [key, unwrapProxies(item)]))
+  }
+  return raw
+}
+
+/**
+ * セッションを保存できるプレーンなオブジェクトに複製する
+ * Vueのリアクティブなプロキシは構造化複製できない（DataCloneError）ため、呼び出し側に関わらずここで取り除く
+ * @param session - 保存するセッション
+ * @returns プロキシを含まないセッションの複製
+ */
+const toRecord = (session: PomodoroSession): PomodoroSession => structuredClone(unwrapProxies(session) as PomodoroSession)
+
+/**
+ * データベースを開き、必要に応じて移行処理を適用する
+ * @param factory - IndexedDBのファクトリ
+ * @param name - データベース名
+ * @returns 開いたデータベース
+ */
+const openDatabase = (factory: IDBFactory, name: string): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(name, DATABASE_UPGRADES.length)
+    request.onupgradeneeded = (event) => {
+      DATABASE_UPGRADES.slice(event.oldVersion).forEach(upgrade => upgrade(request.result))
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * ローカルストレージに保存されていた履歴をデータベースに移行する
+ * 書き込みが完了してから元の履歴を削除するため、途中で失敗しても次回に再試行される
+ * @param database - 移行先のデータベース
+ * @param legacyStorage - 以前の履歴の保存先
+ * @returns 移行したセッション数
+ */
+const migrateLegacyHistory = async (database: IDBDatabase, legacyStorage: KeyValueStorage): Promise<number> => {
+  const result = loadVersionedData(historyStorage, legacyStorage)
+  if (result.status !== 'loaded' && result.status !== 'recovered') return 0
+
+  const transaction = database.transaction(SESSION_STORE, 'readwrite')
+  const store = transaction.objectStore(SESSION_STORE)
+  // Sessions already in the database win; they may have been edited since
+  for (const session of result.data.sessions) {
+    store.add(session).onerror = (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+    }
+  }
+  await transactionToPromise(transaction)
+  legacyStorage.removeItem(HISTORY_STORAGE_KEY)
+  return result.data.sessions.length
+}
+
+/**
+ * IndexedDBにセッションを1件ずつ保存する履歴の保存先を作成する
+ * 履歴全体を書き直さずにセッション単位で書き込み、容量の上限もローカルストレージより大きい
+ * 他のタブへの変更の通知にはBroadcastChannelを使用する
+ * @param factory - IndexedDBのファクトリ、デフォルト: indexedDB
+ * @param options - データベース名、以前の保存先と代替の保存先
+ * @returns 履歴の保存先
+ */
+export function createIndexedDbHistoryStorage(
+  factory: IDBFactory = indexedDB,
+  { databaseName = DATABASE_NAME, legacyStorage, fallback }: IndexedDbHistoryStorageOptions = {}
+): HistoryStorageAdapter {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null
+  // Opened lazily on first use; null while not yet opened or after another tab upgraded the database
+  let database: Promise<IDBDatabase | null> | null = null
+
+  /**
+   * データベースを開く（初回のみ以前の履歴を移行する）
+   * @returns 開いたデータベース（開けない場合はnull）
+   */
+  const open = (): Promise<IDBDatabase | null> => {
+    database ??= openDatabase(factory, databaseName)
+      .then(async (opened) => {
+        // Let a newer version in another tab upgrade the database
+        opened.onversionchange = () => {
+          opened.close()
+          database = null
+        }
+        if (legacyStorage) {
+          const migrated = await migrateLegacyHistory(opened, legacyStorage)
+          if (migrated > 0) channel?.postMessage('changed')
+        }
+        return opened
+      })
+      .catch((error) => {
+        console.error('Failed to open IndexedDB, falling back:', error)
+        if (!fallback) throw error
+        return null
+      })
+    return database
+  }
+
+  /**
+   * 書き込みのトランザクションを実行し、完了後に他のタブへ通知する
+   * 書き込み処理が例外を投げた場合はトランザクションを中止し、途中までの書き込みを取り消す
+   * @param write - オブジェクトストアへの書き込み処理
+   * @param fallbackWrite - IndexedDBを使用できない場合の書き込み処理
+   */
+  const runWrite = async (
+    write: (store: IDBObjectStore) => void,
+    fallbackWrite: (adapter: HistoryStorageAdapter) => Promise<void>
+  ) => {
+    const opened = await open()
+    if (!opened) return fallbackWrite(fallback!)
+
+    const transaction = opened.transaction(SESSION_STORE, 'readwrite')
+    const completed = transactionToPromise(transaction)
+    try {
+      write(transaction.objectStore(SESSION_STORE))
+    } catch (error) {
+      // Without the abort, requests queued before the failure (e.g. clear) would still commit
+      transaction.abort()
+      completed.catch(() => {})
+      throw error
+    }
+    await completed
+    channel?.postMessage('changed')
+  }
+
+  return {
+    load: async () => {
+      const opened = await open()
+      if (!opened) return fallback!.load()
+
+      const records = await requestToPromise(
+        opened.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+      )
+      const sessions: PomodoroSession[] = []
+      for (const record of records) {
+        const result = PomodoroSessionSchema.safeParse(record)
+        if (result.success) {
+          sessions.push(result.data)
+        } else {
+          // Left in place so a later release can still read it
+          console.warn('Skipping an invalid session in IndexedDB:', record)
+        }
+      }
+      return sessions.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    },
+    put: session => runWrite(store => store.put(toRecord(session)), adapter => adapter.put(session)),
+    putMany: sessions => runWrite(
+      store => sessions.forEach(session => store.put(toRecord(session))),
+      adapter => adapter.putMany(sessions)
+    ),
+    replaceAll: sessions => runWrite(
+      (store) => {
+        store.clear()
+        sessions.forEach(session => store.put(toRecord(session)))
+      },
+      adapter => adapter.replaceAll(sessions)
+    ),
+    remove: sessionId => runWrite(store => store.delete(sessionId), adapter => adapter.remove(sessionId)),
+    clear: () => runWrite(store => store.clear(), adapter => adapter.clear()),
+    subscribe: (listener) => {
+      const unsubscribeFallback = fallback?.subscribe(listener)
+      if (!channel) return () => unsubscribeFallback?.()
+      const handleMessage = () => listener()
+      channel.addEventListener('message', handleMessage)
+      return () => {
+        channel.removeEventListener('message', handleMessage)
+        unsubscribeFallback?.()
+      }
+    }
+  }
+}
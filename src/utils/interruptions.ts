@@ -0,0 +1,101 @@
+import type { PomodoroSession, InterruptionStats, InterruptionReasonCount, InterruptionTrendPoint } from '~/types'
+import { toDayKey } from '~/utils/stats'
+
+/** 中断の推移を集計する週数 */
+export const INTERRUPTION_TREND_WEEKS = 8
+
+/** 集計する中断の理由の上限 */
+export const TOP_REASONS_LIMIT = 5
+
+/**
+ * 日付を含む週の始まりの日を取得する
+ * @param date - 対象の日時
+ * @param weekStartDay - 週の始まりの曜日（0: 日曜日〜6: 土曜日）
+ * @returns 週の始まりの日（ローカルタイムの0時0分）
+ */
+export function getWeekStart(date: Date, weekStartDay: number = 1): Date {
+  const offset = (date.getDay() - weekStartDay + 7) % 7
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset)
+}
+
+/**
+ * 中断の理由ごとの件数を集計する
+ * 大文字・小文字を区別せずにまとめ、最初に記録された表記で表示する
+ * @param sessions - 対象の作業セッション
+ * @returns 件数の多い順の理由（同数の場合は辞書順）
+ */
+const countReasons = (sessions: PomodoroSession[]): InterruptionReasonCount[] => {
+  const counts = new Map<string, InterruptionReasonCount>()
+  for (const interruption of sessions.flatMap(session => session.interruptions ?? [])) {
+    if (!interruption.reason) continue
+    const key = interruption.reason.toLocaleLowerCase()
+    const item = counts.get(key) ?? { reason: interruption.reason, count: 0 }
+    item.count++
+    counts.set(key, item)
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason))
+    .slice(0, TOP_REASONS_LIMIT)
+}
+
+/**
+ * 週ごとの中断の件数と作業セッション数を集計する
+ * @param sessions - 対象の作業セッション
+ * @param now - 基準の日時
+ * @param weekStartDay - 週の始まりの曜日（0: 日曜日〜6: 土曜日）
+ * @param weeks - 集計する週数（今週を含む）
+ * @returns 週ごとの推移（古い順）
+ */
+const computeTrend = (
+  sessions: PomodoroSession[],
+  now: Date,
+  weekStartDay: number,
+  weeks: number
+): InterruptionTrendPoint[] => {
+  const currentWeek = getWeekStart(now, weekStartDay)
+  const trend = new Map<string, InterruptionTrendPoint>()
+  for (let index = weeks - 1; index >= 0; index--) {
+    const weekStart = toDayKey(new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - index * 7))
+    trend.set(weekStart, { weekStart, interruptions: 0, workSessions: 0, perPomodoro: 0 })
+  }
+
+  for (const session of sessions) {
+    const point = trend.get(toDayKey(getWeekStart(new Date(session.startTime), weekStartDay)))
+    if (!point) continue
+    point.workSessions++
+    point.interruptions += session.interruptions?.length ?? 0
+  }
+
+  return [...trend.values()].map(point => ({
+    ...point,
+    perPomodoro: point.workSessions > 0 ? point.interruptions / point.workSessions : 0
+  }))
+}
+
+/**
+ * 作業セッションに記録した中断の統計情報を算出する
+ * @param sessions - 対象のセッション（休憩は集計しない）
+ * @param now - 基準の日時、デフォルト: 現在時刻
+ * @param weekStartDay - 推移の週の始まりの曜日（0: 日曜日〜6: 土曜日）、デフォルト: 月曜日
+ * @param weeks - 推移を集計する週数、デフォルト: INTERRUPTION_TREND_WEEKS
+ * @returns 種類ごとの件数、作業セッション1回あたりの件数、多い理由と週ごとの推移
+ */
+export function computeInterruptionStats(
+  sessions: PomodoroSession[],
+  now: Date = new Date(),
+  weekStartDay: number = 1,
+  weeks: number = INTERRUPTION_TREND_WEEKS
+): InterruptionStats {
+  const workSessions = sessions.filter(session => session.type === 'work')
+  const interruptions = workSessions.flatMap(session => session.interruptions ?? [])
+  const internal = interruptions.filter(interruption => interruption.kind === 'internal').length
+
+  return {
+    total: interruptions.length,
+    internal,
+    external: interruptions.length - internal,
+    perPomodoro: workSessions.length > 0 ? interruptions.length / workSessions.length : 0,
+    topReasons: countReasons(workSessions),
+    trend: computeTrend(workSessions, now, weekStartDay, weeks)
+  }
+}
@@ -0,0 +1,46 @@
+import type { PomodoroSession, LabelKind, LabelBreakdown } from '~/types'
+import { isCompletedPomodoro, getSessionFocusSeconds } from '~/utils/stats'
+
+/**
+ * セッションに付けられたプロジェクト・タグを取得する
+ * @param session - 対象のセッション
+ * @param kind - 集計の単位
+ * @returns プロジェクトIDまたはタグの配列（付けられていない場合は[null]）
+ */
+const getSessionLabels = (session: PomodoroSession, kind: LabelKind): Array<string | null> => {
+  if (kind === 'project') return [session.projectId ?? null]
+  return session.tags && session.tags.length > 0 ? [...new Set(session.tags)] : [null]
+}
+
+/**
+ * 作業セッションの集中時間と完了したポモドーロ数をプロジェクト・タグごとに集計する
+ * 複数のタグが付いたセッションは、それぞれのタグに集計する
+ * @param sessions - 対象のセッション
+ * @param kind - 集計の単位
+ * @returns 集中時間の長い順の集計結果（プロジェクト・タグなしは最後）
+ */
+export function computeLabelBreakdown(sessions: PomodoroSession[], kind: LabelKind): LabelBreakdown[] {
+  const breakdown = new Map<string | null, LabelBreakdown>()
+  for (const session of sessions) {
+    if (session.type !== 'work') continue
+    for (const key of getSessionLabels(session, kind)) {
+      const item = breakdown.get(key) ?? { key, pomodoros: 0, focusMinutes: 0 }
+      item.focusMinutes += getSessionFocusSeconds(session) / 60
+      if (isCompletedPomodoro(session)) item.pomodoros++
+      breakdown.set(key, item)
+    }
+  }
+  return [...breakdown.values()].sort((a, b) => {
+    if (a.key === null || b.key === null) return a.key === null ? 1 : -1
+    return b.focusMinutes - a.focusMinutes
+  })
+}
+
+/**
+ * セッションに付けられたタグを重複なく取得する
+ * @param sessions - 対象のセッション
+ * @returns タグの配列（辞書順）
+ */
+export function collectSessionTags(sessions: PomodoroSession[]): string[] {
+  return [...new Set(sessions.flatMap(session => session.tags ?? []))].sort((a, b) => a.localeCompare(b))
+}
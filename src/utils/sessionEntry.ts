@@ -0,0 +1,128 @@
+import type { PomodoroSession, SessionEntryInput } from '~/types'
+import { getSessionFocusSeconds } from '~/utils/stats'
+
+/** datetime-localの入力欄の値の形式（秒は省略可能） */
+const DATETIME_LOCAL_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/
+
+/**
+ * 日時をdatetime-localの入力欄の値に変換する
+ * @param value - ISO形式の日時
+ * @returns ローカルタイムの日時（YYYY-MM-DDTHH:mm）
+ */
+export function toDateTimeLocal(value: string): string {
+  const date = new Date(value)
+  const pad = (part: number) => String(part).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * datetime-localの入力欄の値をISO形式の日時に変換する
+ * @param value - ローカルタイムの日時（YYYY-MM-DDTHH:mm）
+ * @returns ISO形式の日時（未入力や不正な値の場合はnull）
+ */
+export function parseDateTimeLocal(value: string): string | null {
+  if (!DATETIME_LOCAL_PATTERN.test(value)) return null
+  // Date-time strings without an offset are read as local time
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * 入力欄の日時を変換する
+ * 分単位の入力欄では秒が失われるため、編集前と同じ値の場合は元の日時をそのまま使う
+ * @param value - ローカルタイムの日時
+ * @param original - 編集前の日時（追加の場合はundefined）
+ * @returns ISO形式の日時（不正な値の場合はnull）
+ */
+const resolveTime = (value: string, original: string | undefined): string | null => {
+  if (original !== undefined && value === toDateTimeLocal(original)) return original
+  return parseDateTimeLocal(value)
+}
+
+/**
+ * 期間が重なる他のセッションを探す
+ * 片方の終了時刻ともう片方の開始時刻が同じ場合は重なりとしない
+ * @param sessions - 判定対象のセッション
+ * @param candidate - 追加・編集するセッション（同じIDのセッションは判定から除く）
+ * @returns 最初に見つかった重なるセッション（ない場合はnull）
+ */
+export function findOverlappingSession(
+  sessions: PomodoroSession[],
+  candidate: Pick<PomodoroSession, 'id' | 'startTime' | 'endTime'>
+): PomodoroSession | null {
+  const start = Date.parse(candidate.startTime)
+  const end = Date.parse(candidate.endTime)
+  return sessions.find(session =>
+    session.id !== candidate.id &&
+    start < Date.parse(session.endTime) &&
+    Date.parse(session.startTime) < end
+  ) ?? null
+}
+
+/**
+ * 入力フォームの値から履歴のセッションを作成する
+ * 完了しなかったセッションは中断として扱い、タスク・プロジェクト・タグと振り返り・中断は作業セッションにのみ記録する
+ * 編集前の一時停止の区間は新しい期間に収まる場合のみ残し、実際に集中した時間は期間を変えた場合に計算し直す
+ * @param input - 入力フォームの値
+ * @param options - セッションID、予定時間（秒）と編集前のセッション（追加の場合は省略）
+ * @returns 検証前のセッション（日時が不正な場合はnull）
+ */
+export function buildSessionFromEntry(
+  input: SessionEntryInput,
+  options: { id: string; duration: number; base?: PomodoroSession }
+): PomodoroSession | null {
+  const { id, duration, base } = options
+  const startTime = resolveTime(input.start, base?.startTime)
+  const endTime = resolveTime(input.end, base?.endTime)
+  if (!startTime || !endTime) return null
+
+  const session: PomodoroSession = base
+    ? { ...base }
+    : { id, type: input.type, duration, startTime, endTime, completed: false, interrupted: false, manual: true }
+  delete session.taskId
+  delete session.projectId
+  delete session.tags
+  delete session.focusSeconds
+  if (input.type !== base?.type) {
+    // The recorded interval ran as the original type only
+    delete session.intervalId
+    delete session.intervalName
+  }
+  if (input.type !== 'work') {
+    delete session.note
+    delete session.focusRating
+    delete session.interruptions
+  }
+
+  const rangeChanged = startTime !== base?.startTime || endTime !== base?.endTime
+  const pausesFit = (session.pauses ?? []).every(pause =>
+    pause.end !== undefined &&
+    Date.parse(pause.start) >= Date.parse(startTime) &&
+    Date.parse(pause.end) <= Date.parse(endTime)
+  )
+  if (!pausesFit) {
+    delete session.pauses
+    delete session.pausedSeconds
+  }
+
+  Object.assign(session, {
+    id,
+    type: input.type,
+    duration,
+    startTime,
+    endTime,
+    completed: input.completed,
+    interrupted: !input.completed
+  })
+  if (input.type === 'work') {
+    const tags = [...new Set(input.tags.map(tag => tag.trim()).filter(tag => tag.length > 0))]
+    if (input.taskId) session.taskId = input.taskId
+    if (input.projectId) session.projectId = input.projectId
+    if (tags.length > 0) session.tags = tags
+  }
+  // Keep the measured focus time unless the session was moved or resized
+  session.focusSeconds = !rangeChanged && base?.focusSeconds !== undefined
+    ? base.focusSeconds
+    : getSessionFocusSeconds(session)
+  return session
+}
@@ -0,0 +1,148 @@
+import type { PomodoroSession, HistoryStats, SessionStats } from '~/types'
+
+/**
+ * 日時をローカルタイムゾーンの日付キーに変換する
+ * @param date - 変換する日時
+ * @returns YYYY-MM-DD形式の日付キー
+ */
+export function toDayKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * 日付を指定日数ずらす（ローカルタイムゾーンの暦日単位、夏時間の切り替えに影響されない）
+ * @param date - 基準の日付
+ * @param days - ずらす日数（負の値で過去）
+ * @returns ずらした日付の0時0分
+ */
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/**
+ * セッションが完了したポモドーロ（作業セッション）かどうかを判定する
+ * @param session - 判定するセッション
+ * @returns 完了した作業セッションの場合true
+ */
+export function isCompletedPomodoro(session: PomodoroSession): boolean {
+  return session.type === 'work' && session.completed
+}
+
+/**
+ * セッションで実際に集中した時間を取得する
+ * 記録時に計測した時間を優先し、計測していないセッションは開始から終了までの時間から一時停止した時間を除いて算出する
+ * 集計・レポート・エクスポートの作業時間は全てこの値を用いる
+ * @param session - 対象のセッション
+ * @returns 集中した時間（秒）
+ */
+export function getSessionFocusSeconds(session: PomodoroSession): number {
+  if (session.focusSeconds !== undefined) return session.focusSeconds
+
+  const elapsed = (new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 1000
+  // Sessions without a usable end time fall back to what the timer planned
+  if (!Number.isFinite(elapsed)) return session.completed ? session.duration : 0
+  return Math.max(0, Math.round(elapsed) - (session.pausedSeconds ?? 0))
+}
+
+/**
+ * セッションの予定時間に対する超過・不足を取得する
+ * @param session - 対象のセッション
+ * @returns 実際に集中した時間と予定時間の差（秒、超過は正、不足は負）
+ */
+export function getSessionOverrunSeconds(session: PomodoroSession): number {
+  return getSessionFocusSeconds(session) - session.duration
+}
+
+/**
+ * ポモドーロを完了した連続日数を算出する
+ * 今日まだ完了していない場合は、昨日まで続いていれば連続が途切れていないものとする
+ * @param sessions - 対象のセッション
+ * @param now - 基準の日時、デフォルト: 現在時刻
+ * @returns 現在の連続日数と最長の連続日数
+ */
+export function computeStreaks(
+  sessions: PomodoroSession[],
+  now: Date = new Date()
+): { current: number; longest: number } {
+  const activeDays = new Set(
+    sessions.filter(isCompletedPomodoro).map(session => toDayKey(new Date(session.startTime)))
+  )
+
+  let longest = 0
+  let run = 0
+  let previousDay: string | null = null
+  for (const day of [...activeDays].sort()) {
+    const [year, month, date] = day.split('-').map(Number)
+    const dayBefore = toDayKey(new Date(year, month - 1, date - 1))
+    run = dayBefore === previousDay ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previousDay = day
+  }
+
+  let cursor = activeDays.has(toDayKey(now)) ? now : addDays(now, -1)
+  let current = 0
+  while (activeDays.has(toDayKey(cursor))) {
+    current++
+    cursor = addDays(cursor, -1)
+  }
+
+  return { current, longest }
+}
+
+/**
+ * 履歴データに保存する統計情報をセッションから算出する
+ * 保存済みの統計は常にこの関数で再計算でき、セッションと食い違わない
+ * @param sessions - 対象のセッション
+ * @param now - 連続日数の基準の日時、デフォルト: 現在時刻
+ * @returns 全セッション数、完了したポモドーロ数、作業時間（秒）、連続日数
+ */
+export function computeHistoryStats(sessions: PomodoroSession[], now: Date = new Date()): HistoryStats {
+  const workSessions = sessions.filter(session => session.type === 'work')
+
+  return {
+    totalSessions: sessions.length,
+    completedSessions: workSessions.filter(session => session.completed).length,
+    totalWorkTime: workSessions.reduce((total, session) => total + getSessionFocusSeconds(session), 0),
+    streakDays: computeStreaks(sessions, now).current
+  }
+}
+
+/**
+ * 画面表示用の詳細な統計情報をセッションから算出する
+ * 期間ごとの集計は履歴ページの期間フィルターと同じ範囲（今日・過去1週間・今月）を用いる
+ * @param sessions - 対象のセッション
+ * @param now - 基準の日時、デフォルト: 現在時刻
+ * @returns 連続日数、期間ごとのポモドーロ数、集中時間、完了率、平均集中時間、集中度の評価の平均
+ */
+export function computeSessionStats(sessions: PomodoroSession[], now: Date = new Date()): SessionStats {
+  const workSessions = sessions.filter(session => session.type === 'work')
+  const pomodoros = workSessions.filter(session => session.completed)
+  const focusSeconds = workSessions.reduce((total, session) => total + getSessionFocusSeconds(session), 0)
+  const focusRatings = workSessions.flatMap(session => session.focusRating ?? [])
+
+  const today = toDayKey(now)
+  const weekAgo = new Date(now)
+  weekAgo.setDate(weekAgo.getDate() - 7)
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+
+  const countSince = (since: Date) =>
+    pomodoros.filter(session => new Date(session.startTime) >= since).length
+
+  const { current, longest } = computeStreaks(sessions, now)
+
+  return {
+    currentStreak: current,
+    longestStreak: longest,
+    todayPomodoros: pomodoros.filter(session => toDayKey(new Date(session.startTime)) === today).length,
+    weeklyPomodoros: countSince(weekAgo),
+    monthlyPomodoros: countSince(monthStart),
+    focusMinutes: focusSeconds / 60,
+    completionRate: workSessions.length > 0 ? pomodoros.length / workSessions.length : 0,
+    averageSessionMinutes: workSessions.length > 0 ? focusSeconds / 60 / workSessions.length : 0,
+    averageFocusRating: focusRatings.length > 0
+      ? focusRatings.reduce((total, rating) => total + rating, 0) / focusRatings.length
+      : null
+  }
+}
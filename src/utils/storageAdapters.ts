@@ -0,0 +1,41 @@
+/**
+ * 同期的なキーと値の保存先
+ * Web Storageと同じメソッドを持ち、設定などの小さなデータの保存に使用する
+ */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+/**
+ * メモリ上のキーと値の保存先を作成する
+ * 単体テストやSSRなど、ローカルストレージを使用できない環境で使用する
+ * @param initial - 初期データ
+ * @returns ページを閉じると消える保存先
+ */
+export function createMemoryStorage(initial: Record<string, string> = {}): KeyValueStorage {
+  const items = new Map(Object.entries(initial))
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    },
+    removeItem: key => {
+      items.delete(key)
+    }
+  }
+}
+
+/**
+ * ローカルストレージを保存先として取得する
+ * 参照は呼び出しのたびにwindow.localStorageへ委譲するため、テストでの差し替えにも追従する
+ * ローカルストレージがない環境（SSR）では、リクエスト間でデータを共有しないよう新しいメモリ上の保存先を返す
+ * @returns ローカルストレージの保存先
+ */
+export function getLocalStorage(): KeyValueStorage {
+  if (typeof localStorage === 'undefined') {
+    return createMemoryStorage()
+  }
+  return {
+    getItem: key => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: key => localStorage.removeItem(key)
+  }
+}
@@ -0,0 +1,181 @@
+import { z } from 'zod'
+import type { PomodoroHistory, PomodoroSettings, TaskList, Labels } from '~/types'
+import {
+  PomodoroHistorySchema,
+  PomodoroSessionSchema,
+  PomodoroSettingsSchema,
+  DefaultPomodoroSettings,
+  CyclePlanSchema,
+  SettingsPresetSchema,
+  TaskListSchema,
+  TaskSchema,
+  LabelsSchema,
+  ProjectSchema,
+  TagSchema,
+  MAX_SESSION_TAGS,
+  MAX_CYCLE_PLANS,
+  MAX_SETTINGS_PRESETS
+} from '~/types'
+import { computeHistoryStats } from '~/utils/stats'
+import { createUuid } from '~/utils/id'
+import type { VersionedStorageDefinition } from '~/utils/versionedStorage'
+
+/** 履歴データを保存するローカルストレージのキー名 */
+export const HISTORY_STORAGE_KEY = 'pomodoro-history'
+/** 設定を保存するローカルストレージのキー名 */
+export const SETTINGS_STORAGE_KEY = 'pomodoro-settings'
+/** タスク一覧を保存するローカルストレージのキー名 */
+export const TASKS_STORAGE_KEY = 'pomodoro-tasks'
+/** プロジェクトとタグを保存するローカルストレージのキー名 */
+export const LABELS_STORAGE_KEY = 'pomodoro-labels'
+
+/**
+ * 値がオブジェクト（配列・nullを除く）かどうかを判定する
+ * @param value - 判定対象の値
+ * @returns オブジェクトの場合true
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * オブジェクトのスキーマの項目ごとに、有効な値のみを残してデフォルト値で補う
+ * ネストしたオブジェクトの項目も同様に項目ごとに判定する
+ * @param schema - オブジェクトのスキーマ
+ * @param data - 検証に失敗したデータ
+ * @param fallback - 無効な項目に使うデフォルト値
+ * @returns 有効な値とデフォルト値を組み合わせたデータ
+ */
+const pickValidFields = (schema: z.ZodObject, data: unknown, fallback: Record<string, unknown>): Record<string, unknown> => {
+  const source = isRecord(data) ? data : {}
+  return Object.fromEntries(Object.entries(schema.shape).map(([key, fieldSchema]) => {
+    if (fieldSchema instanceof z.ZodObject && isRecord(fallback[key])) {
+      return [key, pickValidFields(fieldSchema, source[key], fallback[key] as Record<string, unknown>)]
+    }
+    const result = (fieldSchema as z.ZodType).safeParse(source[key])
+    return [key, result.success ? result.data : fallback[key]]
+  }))
+}
+
+/**
+ * 配列から要素のスキーマの検証に成功した要素のみを取り出す
+ * @param schema - 要素のスキーマ
+ * @param items - 検証対象の値（配列でない場合は空配列として扱う）
+ * @returns 検証済みの要素
+ */
+const pickValidItems = <T>(schema: z.ZodType<T>, items: unknown): T[] => {
+  return (Array.isArray(items) ? items : []).flatMap(item => {
+    const result = schema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+}
+
+/**
+ * 履歴データの保存形式の定義
+ * 無効なセッションを含む場合は、有効なセッションのみを残して統計を再計算する
+ */
+export const historyStorage: VersionedStorageDefinition<PomodoroHistory> = {
+  key: HISTORY_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Wrap the unversioned history, give sessions with timestamp-based ids a UUID and fill in missing stats',
+      migrate: (data) => {
+        if (!isRecord(data)) return data
+        const sessions = (Array.isArray(data.sessions) ? data.sessions : []).map(session =>
+          // Older releases fell back to timestamp-based ids outside secure contexts
+          isRecord(session) && typeof session.id === 'string' && !PomodoroSessionSchema.shape.id.safeParse(session.id).success
+            ? { ...session, id: createUuid() }
+            : session
+        )
+        return {
+          sessions,
+          stats: data.stats ?? computeHistoryStats(sessions.filter(session => PomodoroSessionSchema.safeParse(session).success))
+        }
+      }
+    }
+  ],
+  schema: PomodoroHistorySchema,
+  recover: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.sessions)) return null
+    const sessions = data.sessions.flatMap(session => {
+      const result = PomodoroSessionSchema.safeParse(session)
+      return result.success ? [result.data] : []
+    })
+    return { sessions, stats: computeHistoryStats(sessions) }
+  }
+}
+
+/**
+ * 設定の保存形式の定義
+ * 無効な項目を含む場合は、その項目のみをデフォルト値に戻す（サイクルプラン・設定プリセットは有効なもののみを残す）
+ */
+export const settingsStorage: VersionedStorageDefinition<PomodoroSettings> = {
+  key: SETTINGS_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Wrap the unversioned settings and fill in fields added after they were saved',
+      migrate: (data) => {
+        if (!isRecord(data)) return data
+        const defaults = new DefaultPomodoroSettings()
+        return {
+          ...defaults,
+          ...data,
+          // Leave malformed notifications as they are so validation reports them
+          notifications: isRecord(data.notifications)
+            ? { ...defaults.notifications, ...data.notifications }
+            : data.notifications ?? defaults.notifications
+        }
+      }
+    }
+  ],
+  schema: PomodoroSettingsSchema,
+  recover: (data) => {
+    if (!isRecord(data)) return null
+    const defaults = { ...new DefaultPomodoroSettings() }
+    const cyclePlans = pickValidItems(CyclePlanSchema, data.cyclePlans).slice(0, MAX_CYCLE_PLANS)
+    return PomodoroSettingsSchema.parse({
+      ...pickValidFields(PomodoroSettingsSchema, data, defaults),
+      cyclePlans,
+      activePlanId: cyclePlans.some(plan => plan.id === data.activePlanId) ? data.activePlanId : null,
+      presets: pickValidItems(SettingsPresetSchema, data.presets).slice(0, MAX_SETTINGS_PRESETS)
+    })
+  }
+}
+
+/**
+ * タスク一覧の保存形式の定義
+ * 無効なタスクを含む場合は、有効なタスクのみを残す（選択中のタスクが残らない場合は選択を解除する）
+ */
+export const tasksStorage: VersionedStorageDefinition<TaskList> = {
+  key: TASKS_STORAGE_KEY,
+  migrations: [],
+  schema: TaskListSchema,
+  recover: (data) => {
+    if (!isRecord(data) || !Array.isArray(data.tasks)) return null
+    const tasks = pickValidItems(TaskSchema, data.tasks)
+    const activeTaskId = tasks.some(task => task.id === data.activeTaskId) ? data.activeTaskId as string : null
+    return { tasks, activeTaskId }
+  }
+}
+
+/**
+ * プロジェクトとタグの保存形式の定義
+ * 無効なプロジェクト・タグを含む場合は有効なもののみを残し、存在しないプロジェクトの選択は解除する
+ */
+export const labelsStorage: VersionedStorageDefinition<Labels> = {
+  key: LABELS_STORAGE_KEY,
+  migrations: [],
+  schema: LabelsSchema,
+  recover: (data) => {
+    if (!isRecord(data)) return null
+    const projects = pickValidItems(ProjectSchema, data.projects)
+    return {
+      projects,
+      tags: pickValidItems(TagSchema, data.tags),
+      selectedProjectId: projects.some(project => project.id === data.selectedProjectId) ? data.selectedProjectId as string : null,
+      selectedTags: pickValidItems(TagSchema, data.selectedTags).slice(0, MAX_SESSION_TAGS)
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { PomodoroSession, Task, TaskProgress } from '~/types'
+import { isCompletedPomodoro } from '~/utils/stats'
+
+/**
+ * タスクごとの完了したポモドーロ数を集計する
+ * @param sessions - 対象のセッション
+ * @returns タスクIDごとのポモドーロ数（タスクに紐付いていないセッションは含まない）
+ */
+export function countPomodorosByTask(sessions: PomodoroSession[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const session of sessions) {
+    if (!session.taskId || !isCompletedPomodoro(session)) continue
+    counts.set(session.taskId, (counts.get(session.taskId) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * タスクごとの見積もりと実績のポモドーロ数をまとめる
+ * @param tasks - 対象のタスク
+ * @param sessions - 実績を数えるセッション
+ * @returns タスクの順序を保った進捗の配列
+ */
+export function computeTaskProgress(tasks: Task[], sessions: PomodoroSession[]): TaskProgress[] {
+  const counts = countPomodorosByTask(sessions)
+  return tasks.map(task => {
+    const actualPomodoros = counts.get(task.id) ?? 0
+    return { task, actualPomodoros, overEstimate: actualPomodoros > task.estimatedPomodoros }
+  })
+}
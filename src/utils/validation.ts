@@ -0,0 +1,60 @@
+import type { z } from 'zod'
+
+/**
+ * バリデーションエラー
+ * 表示時に現在のロケールで翻訳するため、メッセージではなくi18nキーと埋め込み値を保持
+ */
+export interface ValidationError {
+  /** エラーメッセージのi18nキー */
+  key: string;
+  /** メッセージに埋め込む値 */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * 検証対象のデータからエラー項目のパスの値を取り出す
+ * @param data - 検証対象のデータ
+ * @param path - エラー項目のパス
+ * @returns パスの値（存在しない場合はundefined）
+ */
+const getValueAtPath = (data: unknown, path: PropertyKey[]): unknown => {
+  return path.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<PropertyKey, unknown>)[key] : undefined),
+    data
+  )
+}
+
+/**
+ * Zodのバリデーションエラーを翻訳可能なエラーに変換する
+ * @param issue - Zodのエラー項目
+ * @param data - 検証対象のデータ（指定すると未入力の項目を区別する）
+ * @returns エラーメッセージのi18nキーと埋め込み値
+ */
+export function toValidationError(issue: z.core.$ZodIssue, data?: unknown): ValidationError {
+  switch (issue.code) {
+    case 'invalid_type':
+      // Zod does not report the input by default, so look the value up in the data
+      if (data !== undefined && getValueAtPath(data, issue.path) === undefined) {
+        return { key: 'validation.required' }
+      }
+      if (issue.expected === 'int') return { key: 'validation.integer' }
+      if (issue.expected === 'number') return { key: 'validation.number' }
+      return { key: 'validation.invalid' }
+    case 'too_small':
+      if (issue.origin === 'string') {
+        return issue.minimum === 1
+          ? { key: 'validation.required' }
+          : { key: 'validation.minLength', params: { min: issue.minimum } }
+      }
+      return { key: 'validation.min', params: { min: issue.minimum } }
+    case 'too_big':
+      if (issue.origin === 'string') return { key: 'validation.maxLength', params: { max: issue.maximum } }
+      return { key: 'validation.max', params: { max: issue.maximum } }
+    case 'invalid_value':
+      return { key: 'validation.invalidOption' }
+    case 'invalid_format':
+      return { key: 'validation.invalidFormat' }
+    default:
+      return { key: 'validation.invalid' }
+  }
+}
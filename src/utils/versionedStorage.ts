@@ -0,0 +1,212 @@
+import type { z } from 'zod'
+import { getLocalStorage, type KeyValueStorage } from '~/utils/storageAdapters'
+
+/**
+ * 保存データの移行処理
+ * 1つ前のバージョンのデータをversionの形式に変換する
+ */
+export interface StorageMigration {
+  /** 移行後のバージョン */
+  version: number;
+  /** 移行内容の説明 */
+  description: string;
+  /**
+   * 1つ前のバージョンのデータを変換する
+   * @param data - 1つ前のバージョンのデータ
+   * @returns このバージョンの形式のデータ
+   */
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * バージョン付きで保存するデータの定義
+ * 保存先のキー、移行処理の一覧、検証用のスキーマと検証に失敗した場合の復旧処理をまとめる
+ */
+export interface VersionedStorageDefinition<T> {
+  /** ローカルストレージのキー名 */
+  key: string;
+  /** 移行処理（バージョンの昇順、最後の移行処理のバージョンが現在のバージョン） */
+  migrations: StorageMigration[];
+  /** 現在のバージョンのデータのスキーマ */
+  schema: z.ZodType<T>;
+  /**
+   * スキーマの検証に失敗したデータから有効な部分を取り出す
+   * @param data - 現在のバージョンに移行済みのデータ
+   * @returns 復旧したデータ（復旧できない場合はnull）
+   */
+  recover?: (data: unknown) => T | null;
+}
+
+/** 保存データを読み込めなかった理由 */
+export type StorageLoadError = 'parse_error' | 'unsupported_version' | 'migration_failed' | 'invalid_data'
+
+/**
+ * 保存データの読み込み結果
+ * 読み込めなかったデータは破棄せずバックアップのキーに退避する
+ * 新しいバージョンで保存されたデータは、退避も削除もせずにそのまま残す（unsupported）
+ */
+export type StorageLoadResult<T> =
+  | { status: 'empty' }
+  | { status: 'loaded'; data: T; migratedFrom: number | null }
+  | { status: 'recovered'; data: T; error: StorageLoadError; backupKey: string | null }
+  | { status: 'quarantined'; error: StorageLoadError; backupKey: string | null }
+  | { status: 'unsupported'; error: 'unsupported_version'; version: number }
+
+/** ローカルストレージに保存する形式（バージョンとデータの組） */
+interface VersionedPayload {
+  version: number;
+  data: unknown;
+}
+
+/**
+ * 定義の現在のバージョンを取得する
+ * @param definition - 保存データの定義
+ * @returns 最後の移行処理のバージョン（移行処理がない場合は0）
+ */
+export function getStorageVersion(definition: VersionedStorageDefinition<unknown>): number {
+  return definition.migrations.at(-1)?.version ?? 0
+}
+
+/**
+ * 保存されていた値をバージョンとデータに分ける
+ * バージョンを持たない値はバージョン付きの形式を導入する前のデータ（バージョン0）として扱う
+ * @param value - JSONとして読み込んだ値
+ * @returns バージョンとデータの組
+ */
+const unwrapPayload = (value: unknown): VersionedPayload => {
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Number.isInteger((value as Record<string, unknown>).version) &&
+    'data' in value
+  ) {
+    return value as VersionedPayload
+  }
+  return { version: 0, data: value }
+}
+
+/**
+ * データを指定したバージョンから現在のバージョンまで順に移行する
+ * @param definition - 保存データの定義
+ * @param data - 移行前のデータ
+ * @param fromVersion - 移行前のバージョン
+ * @returns 現在のバージョンの形式のデータ
+ * @throws 移行処理で発生したエラー
+ */
+export function migrateData<T>(definition: VersionedStorageDefinition<T>, data: unknown, fromVersion: number): unknown {
+  return definition.migrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), data)
+}
+
+/**
+ * データを現在のバージョン付きでローカルストレージに保存する
+ * @param definition - 保存データの定義
+ * @param data - 保存するデータ
+ * @param storage - 保存先、デフォルト: ローカルストレージ
+ * @throws 容量超過などのストレージのエラー
+ */
+export function saveVersionedData<T>(
+  definition: VersionedStorageDefinition<T>,
+  data: T,
+  storage: KeyValueStorage = getLocalStorage()
+) {
+  const payload: VersionedPayload = { version: getStorageVersion(definition), data }
+  storage.setItem(definition.key, JSON.stringify(payload))
+}
+
+/**
+ * 読み込めなかった保存データをバックアップのキーに退避する
+ * @param key - 元のキー名
+ * @param raw - 保存されていた文字列
+ * @param storage - 保存先
+ * @returns バックアップのキー名（退避できなかった場合はnull）
+ */
+const backupStoredData = (key: string, raw: string, storage: KeyValueStorage): string | null => {
+  const backupKey = `${key}-backup-${Date.now()}`
+  try {
+    storage.setItem(backupKey, raw)
+    return backupKey
+  } catch (error) {
+    console.error(`Failed to back up ${key}:`, error)
+    return null
+  }
+}
+
+/**
+ * ローカルストレージからデータを読み込み、現在のバージョンに移行して検証する
+ * 移行したデータは現在のバージョンで保存し直す
+ * 読み込めないデータはバックアップのキーに退避してから、復旧できた部分で置き換えるか削除する
+ * バックアップに失敗した場合と、新しいバージョンで保存されたデータの場合は元のデータを残す
+ * @param definition - 保存データの定義
+ * @param storage - 保存先、デフォルト: ローカルストレージ
+ * @returns 読み込み結果
+ */
+export function loadVersionedData<T>(
+  definition: VersionedStorageDefinition<T>,
+  storage: KeyValueStorage = getLocalStorage()
+): StorageLoadResult<T> {
+  const raw = storage.getItem(definition.key)
+  if (!raw) return { status: 'empty' }
+
+  /**
+   * 元のデータを退避し、復旧したデータで置き換えるか削除する
+   * @param error - 読み込めなかった理由
+   * @param recovered - 復旧したデータ（復旧できない場合はnull）
+   */
+  const quarantine = (error: StorageLoadError, recovered: T | null = null): StorageLoadResult<T> => {
+    const backupKey = backupStoredData(definition.key, raw, storage)
+    console.warn(`Stored ${definition.key} could not be loaded (${error}), backed up to ${backupKey}`)
+    if (backupKey) {
+      try {
+        if (recovered) {
+          saveVersionedData(definition, recovered, storage)
+        } else {
+          storage.removeItem(definition.key)
+        }
+      } catch (saveError) {
+        console.error(`Failed to replace ${definition.key}:`, saveError)
+      }
+    }
+    return recovered
+      ? { status: 'recovered', data: recovered, error, backupKey }
+      : { status: 'quarantined', error, backupKey }
+  }
+
+  let payload: VersionedPayload
+  try {
+    payload = unwrapPayload(JSON.parse(raw))
+  } catch {
+    return quarantine('parse_error')
+  }
+
+  const currentVersion = getStorageVersion(definition)
+  if (payload.version > currentVersion) {
+    // Written by a newer release, possibly still open in another tab; leave it in place for that release
+    console.warn(`Stored ${definition.key} was written by a newer version (${payload.version}) and was left unchanged`)
+    return { status: 'unsupported', error: 'unsupported_version', version: payload.version }
+  }
+
+  let migrated: unknown
+  try {
+    migrated = migrateData(definition, payload.data, payload.version)
+  } catch (error) {
+    console.error(`Failed to migrate ${definition.key} from version ${payload.version}:`, error)
+    return quarantine('migration_failed')
+  }
+
+  const result = definition.schema.safeParse(migrated)
+  if (!result.success) {
+    return quarantine('invalid_data', definition.recover?.(migrated) ?? null)
+  }
+
+  if (payload.version < currentVersion) {
+    try {
+      saveVersionedData(definition, result.data, storage)
+    } catch (error) {
+      console.error(`Failed to save migrated ${definition.key}:`, error)
+    }
+  }
+  return { status: 'loaded', data: result.data, migratedFrom: payload.version < currentVersion ? payload.version : null }
+}
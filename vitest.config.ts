@@ -2,6 +2,18 @@ import { defineConfig } from 'vitest/config'
 import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
+  plugins: [
+    {
+      // Nuxt replaces import.meta.client at build time; do the same so client-only
+      // code paths (localStorage, timers) run under happy-dom as in the browser
+      name: 'nuxt-import-meta-client',
+      transform(code, id) {
+        if (id.includes('/src/') && !id.includes('/src/tests/') && code.includes('import.meta.client')) {
+          return code.replaceAll('import.meta.client', 'true')
+        }
+      }
+    }
+  ],
   test: {
     environment: 'happy-dom',
     globals: true